@@ -0,0 +1,262 @@
+/**
+ * Arbitrage Scanner
+ *
+ * Looks for two-pool arbitrage between DEX pools trading the same pair:
+ * buy the cheaper side in one pool and sell it into the other. Pools are
+ * modelled as constant-product reserves read at a pinned block, which
+ * gives a closed-form optimal input and keeps every result reproducible.
+ */
+
+import { ethers } from 'ethers';
+import { BaseNetworkUtils } from './BaseNetworkUtils';
+import { SupportedProtocol } from './config';
+import { TokenInfo } from './DeFiProtocolAnalyzer';
+import { L1FeeCalculator } from './L1FeeCalculator';
+import { PriceSource } from './PriceSource';
+import { PoolReserves, ProtocolAdapter, ProtocolAdapterContext } from './protocols/types';
+
+export interface ArbitrageLeg {
+  protocol: SupportedProtocol;
+  pool: string;
+  tokenIn: string;
+  tokenOut: string;
+  amountIn: string;
+  amountOut: string;
+  fee: number;
+}
+
+export interface ArbitrageOpportunity {
+  /** Token addresses traded, starting and ending with the profit token */
+  path: string[];
+  legs: ArbitrageLeg[];
+  token: TokenInfo;
+  /** Input that maximises gross profit */
+  amountIn: string;
+  grossProfit: string;
+  grossProfitUsd: number | null;
+  /** Price gap between the two pools, as a percentage */
+  spread: number;
+  gasEstimate: number;
+  gasCostUsd: number | null;
+  l1FeeUsd: number | null;
+  netProfitUsd: number | null;
+  blockNumber: number;
+}
+
+export interface ArbitrageOptions {
+  /** Tokens to pair up, the known Base tokens by default */
+  tokens?: string[];
+  blockTag?: ethers.BlockTag;
+  priceSource?: PriceSource;
+  /** Tip on top of the block's base fee, 0.001 gwei by default */
+  priorityFeePerGas?: bigint;
+}
+
+export const DEFAULT_ARBITRAGE_TOKENS = BaseNetworkUtils.getAllTokens()
+  .filter(token => token.address !== ethers.ZeroAddress)
+  .map(token => token.address);
+
+const WETH: TokenInfo = { address: '0x4200000000000000000000000000000000000006', symbol: 'WETH', decimals: 18 };
+
+// Two pool swaps executed atomically through an arbitrage contract
+const ARBITRAGE_GAS_ESTIMATE = 280_000n;
+const DEFAULT_PRIORITY_FEE = 1_000_000n; // 0.001 gwei
+
+// executeArbitrage(address,address,address,address,uint256,uint256), representative calldata for the L1 data fee
+const EXECUTE_SELECTOR = '0xa18b216b';
+
+const FEE_DENOMINATOR = 1_000_000n;
+
+interface TaggedPool extends PoolReserves {
+  protocol: SupportedProtocol;
+}
+
+interface ProfitableTrade {
+  buy: TaggedPool;
+  sell: TaggedPool;
+  tokenIn: TokenInfo;
+  tokenOut: TokenInfo;
+  amountIn: bigint;
+  amountMid: bigint;
+  amountOut: bigint;
+  spread: number;
+}
+
+export class ArbitrageScanner {
+  /**
+   * Compare every pair of pools for every pair of tokens at the context's
+   * block. Trades with a gross profit are returned, best net profit first;
+   * trades that cannot be valued in USD sort last.
+   */
+  static async scan(
+    adapters: ProtocolAdapter[],
+    tokens: TokenInfo[],
+    context: ProtocolAdapterContext & { blockTag: number },
+    priceSource: PriceSource,
+    priorityFeePerGas: bigint = DEFAULT_PRIORITY_FEE
+  ): Promise<ArbitrageOpportunity[]> {
+    const trades: ProfitableTrade[] = [];
+
+    for (let i = 0; i < tokens.length; i++) {
+      for (let j = i + 1; j < tokens.length; j++) {
+        const pools = await this.getPairPools(adapters, tokens[i], tokens[j], context);
+        for (let a = 0; a < pools.length; a++) {
+          for (let b = a + 1; b < pools.length; b++) {
+            const trade = findTrade(pools[a], pools[b], tokens[i], tokens[j]);
+            if (trade) trades.push(trade);
+          }
+        }
+      }
+    }
+
+    if (trades.length === 0) {
+      return [];
+    }
+
+    const [block, l1FeeParams, ethUsd] = await Promise.all([
+      context.provider.getBlock(context.blockTag),
+      L1FeeCalculator.fetchFeeParams(context.provider, context.blockTag),
+      priceSource.getPriceUsd(WETH, context.blockTag)
+    ]);
+    const gasPrice = (block?.baseFeePerGas ?? 0n) + priorityFeePerGas;
+
+    const opportunities = await Promise.all(trades.map(async trade => {
+      const tokenUsd = await priceSource.getPriceUsd(trade.tokenIn, context.blockTag);
+      const grossProfit = trade.amountOut - trade.amountIn;
+      const l1Fee = L1FeeCalculator.calculateL1Fee(encodeExecution(trade), l1FeeParams).l1Fee;
+
+      const toUsd = (wei: bigint) => ethUsd === null ? null : parseFloat(ethers.formatEther(wei)) * ethUsd;
+      const grossProfitUsd = tokenUsd === null
+        ? null
+        : parseFloat(ethers.formatUnits(grossProfit, trade.tokenIn.decimals)) * tokenUsd;
+      const gasCostUsd = toUsd(ARBITRAGE_GAS_ESTIMATE * gasPrice);
+      const l1FeeUsd = toUsd(l1Fee);
+
+      return {
+        path: [trade.tokenIn.address, trade.tokenOut.address, trade.tokenIn.address],
+        legs: [
+          buildLeg(trade.buy, trade.tokenIn, trade.tokenOut, trade.amountIn, trade.amountMid),
+          buildLeg(trade.sell, trade.tokenOut, trade.tokenIn, trade.amountMid, trade.amountOut)
+        ],
+        token: trade.tokenIn,
+        amountIn: ethers.formatUnits(trade.amountIn, trade.tokenIn.decimals),
+        grossProfit: ethers.formatUnits(grossProfit, trade.tokenIn.decimals),
+        grossProfitUsd,
+        spread: trade.spread,
+        gasEstimate: Number(ARBITRAGE_GAS_ESTIMATE),
+        gasCostUsd,
+        l1FeeUsd,
+        netProfitUsd: grossProfitUsd === null || gasCostUsd === null || l1FeeUsd === null
+          ? null
+          : grossProfitUsd - gasCostUsd - l1FeeUsd,
+        blockNumber: context.blockTag
+      };
+    }));
+
+    return opportunities.sort((a, b) => (b.netProfitUsd ?? -Infinity) - (a.netProfitUsd ?? -Infinity));
+  }
+
+  private static async getPairPools(
+    adapters: ProtocolAdapter[],
+    tokenA: TokenInfo,
+    tokenB: TokenInfo,
+    context: ProtocolAdapterContext
+  ): Promise<TaggedPool[]> {
+    const pools = await Promise.all(adapters.map(async adapter => {
+      if (!adapter.getPoolReserves) return [];
+      const reserves = await adapter.getPoolReserves(tokenA.address, tokenB.address, context).catch(() => []);
+      return reserves.map(pool => ({ ...pool, protocol: adapter.key }));
+    }));
+    return pools.flat();
+  }
+}
+
+/**
+ * Buy tokenB where it is cheaper and sell it into the other pool. With
+ * reserves a (tokenA) and b (tokenB) and fee factors g, the round trip
+ * returns K·x / (C + D·x) where K = g1·g2·a2·b1, C = a1·b2 and
+ * D = g1·(b2 + g2·b1), so profit peaks at x = (√(K·C) − C) / D.
+ */
+function findTrade(p: TaggedPool, q: TaggedPool, tokenA: TokenInfo, tokenB: TokenInfo): ProfitableTrade | null {
+  const [aInP, bInP] = reservesOf(p, tokenA.address);
+  const [aInQ, bInQ] = reservesOf(q, tokenA.address);
+
+  // tokenB per tokenA in each pool; the pool giving more tokenB is where to buy it
+  const priceP = Number(bInP) / Number(aInP);
+  const priceQ = Number(bInQ) / Number(aInQ);
+  const [buy, sell] = priceP > priceQ ? [p, q] : [q, p];
+  const [a1, b1] = buy === p ? [aInP, bInP] : [aInQ, bInQ];
+  const [b2, a2] = sell === p ? [bInP, aInP] : [bInQ, aInQ];
+
+  const g1 = feeFactor(buy.fee);
+  const g2 = feeFactor(sell.fee);
+  const K = g1 * g2 * Number(a2) * Number(b1);
+  const C = Number(a1) * Number(b2);
+  const D = g1 * (Number(b2) + g2 * Number(b1));
+  if (K <= C) {
+    return null;
+  }
+
+  const amountIn = BigInt(Math.floor((Math.sqrt(K * C) - C) / D));
+  const amountMid = getAmountOut(amountIn, a1, b1, buy.fee);
+  const amountOut = getAmountOut(amountMid, b2, a2, sell.fee);
+  if (amountIn === 0n || amountOut <= amountIn) {
+    return null;
+  }
+
+  return {
+    buy,
+    sell,
+    tokenIn: tokenA,
+    tokenOut: tokenB,
+    amountIn,
+    amountMid,
+    amountOut,
+    spread: (Math.max(priceP, priceQ) / Math.min(priceP, priceQ) - 1) * 100
+  };
+}
+
+function reservesOf(pool: PoolReserves, token: string): [bigint, bigint] {
+  return pool.token0.toLowerCase() === token.toLowerCase()
+    ? [pool.reserve0, pool.reserve1]
+    : [pool.reserve1, pool.reserve0];
+}
+
+function feeFactor(feePercent: number): number {
+  return 1 - feePercent / 100;
+}
+
+function getAmountOut(amountIn: bigint, reserveIn: bigint, reserveOut: bigint, feePercent: number): bigint {
+  const amountInWithFee = amountIn * (FEE_DENOMINATOR - BigInt(Math.round(feePercent * 10_000)));
+  return amountInWithFee * reserveOut / (reserveIn * FEE_DENOMINATOR + amountInWithFee);
+}
+
+function buildLeg(
+  pool: TaggedPool,
+  tokenIn: TokenInfo,
+  tokenOut: TokenInfo,
+  amountIn: bigint,
+  amountOut: bigint
+): ArbitrageLeg {
+  return {
+    protocol: pool.protocol,
+    pool: pool.address,
+    tokenIn: tokenIn.address,
+    tokenOut: tokenOut.address,
+    amountIn: ethers.formatUnits(amountIn, tokenIn.decimals),
+    amountOut: ethers.formatUnits(amountOut, tokenOut.decimals),
+    fee: pool.fee
+  };
+}
+
+function encodeExecution(trade: ProfitableTrade): string {
+  return ethers.concat([
+    EXECUTE_SELECTOR,
+    ethers.AbiCoder.defaultAbiCoder().encode(
+      ['address', 'address', 'address', 'address', 'uint256', 'uint256'],
+      [trade.buy.address, trade.sell.address, trade.tokenIn.address, trade.tokenOut.address, trade.amountIn, 0]
+    )
+  ]);
+}
+
+export default ArbitrageScanner;
@@ -6,6 +6,7 @@
  */
 
 import { ethers } from 'ethers';
+import { FeeEstimateOptions, FeeEstimator, FeeTier } from './FeeEstimator';
 
 export interface BaseNetworkConfig {
   chainId: number;
@@ -35,6 +36,17 @@ export interface BaseToken {
   coingeckoId?: string;
 }
 
+/**
+ * Fee settings in gwei
+ */
+export interface RecommendedGasSetting {
+  /** Expected price paid per gas: next base fee plus the priority fee */
+  gasPrice: string;
+  maxFeePerGas: string;
+  maxPriorityFeePerGas: string;
+  estimatedTime: string;
+}
+
 export class BaseNetworkUtils {
   private static readonly MAINNET_CONFIG: BaseNetworkConfig = {
     chainId: 8453,
@@ -421,17 +433,31 @@ export class BaseNetworkUtils {
   }
 
   /**
-   * Get recommended gas settings for Base
+   * Get recommended gas settings for Base from recent blocks' priority fees
    */
-  static getRecommendedGasSettings(): {
-    slow: { gasPrice: string; estimatedTime: string };
-    standard: { gasPrice: string; estimatedTime: string };
-    fast: { gasPrice: string; estimatedTime: string };
-  } {
+  static async getRecommendedGasSettings(rpcUrl?: string, options?: FeeEstimateOptions): Promise<{
+    slow: RecommendedGasSetting;
+    standard: RecommendedGasSetting;
+    fast: RecommendedGasSetting;
+  }> {
+    const provider = new ethers.JsonRpcProvider(
+      rpcUrl || this.MAINNET_CONFIG.rpcUrls[0]
+    );
+    const estimate = await FeeEstimator.estimate(provider, options);
+
+    const toSetting = (tier: FeeTier): RecommendedGasSetting => ({
+      gasPrice: ethers.formatUnits(tier.expectedGasPrice, 'gwei'),
+      maxFeePerGas: ethers.formatUnits(tier.maxFeePerGas, 'gwei'),
+      maxPriorityFeePerGas: ethers.formatUnits(tier.maxPriorityFeePerGas, 'gwei'),
+      estimatedTime: tier.estimatedInclusionSeconds !== null
+        ? `~${Math.ceil(tier.estimatedInclusionSeconds)} seconds`
+        : 'not included in recent blocks'
+    });
+
     return {
-      slow: { gasPrice: '0.001', estimatedTime: '2-5 minutes' },
-      standard: { gasPrice: '0.002', estimatedTime: '1-2 minutes' },
-      fast: { gasPrice: '0.005', estimatedTime: '< 1 minute' }
+      slow: toSetting(estimate.slow),
+      standard: toSetting(estimate.standard),
+      fast: toSetting(estimate.fast)
     };
   }
 }
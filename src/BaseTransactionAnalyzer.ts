@@ -0,0 +1,381 @@
+/**
+ * Base Transaction Analyzer
+ *
+ * Core analyzer for Base network transactions. Fetches transactions and
+ * receipts, normalizes them into a serializable shape, and extracts
+ * ERC-20 transfers and gas efficiency metrics.
+ */
+
+import { ethers } from 'ethers';
+import { DEFAULT_ANALYZER_CONFIG } from './config';
+import {
+  BlockFeeContext,
+  FeeOverpayment,
+  GasLimitUtilization,
+  GasOptimizer,
+  MethodGasLimit,
+  PreflightGasEstimate,
+  PreflightOptions
+} from './GasOptimizer';
+import { GasPriceHistoryOptions, GasPriceHistoryReport, GasPriceStore } from './GasPriceHistory';
+
+export interface AnalyzerOptions {
+  rpcUrl?: string;
+  apiKey?: string;
+  cacheEnabled?: boolean;
+  timeout?: number;
+  /** Where gas price history is kept, in memory by default */
+  gasPriceStore?: GasPriceStore;
+}
+
+export interface TransactionLog {
+  address: string;
+  topics: string[];
+  data: string;
+  logIndex?: number;
+}
+
+export interface BaseTransaction {
+  hash: string;
+  from: string;
+  to: string | null;
+  value: string;
+  gasPrice: string;
+  gasLimit?: string;
+  gasUsed: string;
+  /** EIP-2718 envelope type, 2 for EIP-1559 fee market transactions */
+  type?: number;
+  maxFeePerGas?: string;
+  maxPriorityFeePerGas?: string;
+  /** Base fee of the block the transaction was included in */
+  baseFeePerGas?: string;
+  /** Gas price actually charged, from the receipt */
+  effectiveGasPrice?: string;
+  blockNumber: number;
+  timestamp: number;
+  status: number;
+  contractAddress?: string;
+  input?: string;
+  logs?: TransactionLog[];
+  l1Fee?: string;
+  l1GasUsed?: string;
+  l1GasPrice?: string;
+  l1BlobBaseFee?: string;
+  l1BaseFeeScalar?: string;
+  l1BlobBaseFeeScalar?: string;
+}
+
+type L1ReceiptFields = Pick<
+  BaseTransaction,
+  'l1Fee' | 'l1GasUsed' | 'l1GasPrice' | 'l1BlobBaseFee' | 'l1BaseFeeScalar' | 'l1BlobBaseFeeScalar'
+>;
+
+export interface ERC20Transfer {
+  from: string;
+  to: string;
+  value: string;
+  tokenAddress: string;
+}
+
+export interface GasEfficiencyMetrics {
+  gasUsedPercentage: number;
+  gasCostInEth: string;
+  gasEfficiencyRating: 'Excellent' | 'Good' | 'Average' | 'Poor';
+}
+
+export interface GasAnalysis {
+  gasUsed: number;
+  gasLimit: number;
+  gasPrice: number;
+  efficiency: number;
+  costEth: string;
+  /** Priority fee paid beyond what the block needed, when its base fee is known */
+  feeOverpayment?: FeeOverpayment;
+  suggestions: string[];
+}
+
+export interface GasLimitReport {
+  utilization: GasLimitUtilization;
+  /** Recommendations for every method recorded so far, this batch's included */
+  methods: MethodGasLimit[];
+}
+
+const DEFAULT_RPC_URL = 'https://mainnet.base.org';
+const ERC20_TRANSFER_TOPIC = '0xddf252ad1be2c89b69c2b068fc378daa952ba7f163c4a11628f55a4df523b3ef';
+const L1_RECEIPT_FIELDS: Array<keyof L1ReceiptFields> = [
+  'l1Fee',
+  'l1GasUsed',
+  'l1GasPrice',
+  'l1BlobBaseFee',
+  'l1BaseFeeScalar',
+  'l1BlobBaseFeeScalar'
+];
+
+export class BaseTransactionAnalyzer {
+  private provider: ethers.JsonRpcProvider;
+  private options: Required<Omit<AnalyzerOptions, 'apiKey' | 'gasPriceStore'>> & { apiKey?: string };
+  private cache: Map<string, BaseTransaction> = new Map();
+  private gasOptimizer: GasOptimizer;
+
+  constructor(options: string | AnalyzerOptions = {}) {
+    const resolved = typeof options === 'string' ? { rpcUrl: options } : options;
+
+    this.options = {
+      rpcUrl: resolved.rpcUrl || DEFAULT_RPC_URL,
+      apiKey: resolved.apiKey,
+      cacheEnabled: resolved.cacheEnabled ?? DEFAULT_ANALYZER_CONFIG.cacheEnabled,
+      timeout: resolved.timeout ?? DEFAULT_ANALYZER_CONFIG.timeoutMs
+    };
+
+    this.provider = new ethers.JsonRpcProvider(this.createConnection());
+    this.gasOptimizer = new GasOptimizer(resolved.gasPriceStore);
+  }
+
+  /**
+   * Build the provider connection, only falling back to a custom request
+   * when an API key or non-default timeout has to be applied
+   */
+  private createConnection(): string | ethers.FetchRequest {
+    const { rpcUrl, apiKey, timeout } = this.options;
+    if (!apiKey && timeout === DEFAULT_ANALYZER_CONFIG.timeoutMs) {
+      return rpcUrl;
+    }
+
+    const request = new ethers.FetchRequest(rpcUrl);
+    request.timeout = timeout;
+    if (apiKey) {
+      request.setHeader('Authorization', `Bearer ${apiKey}`);
+    }
+    return request;
+  }
+
+  /**
+   * Analyze a single transaction by hash
+   */
+  async analyzeTransaction(txHash: string): Promise<BaseTransaction> {
+    const cached = this.options.cacheEnabled ? this.cache.get(txHash) : undefined;
+    if (cached) {
+      return cached;
+    }
+
+    const [tx, receipt] = await Promise.all([
+      this.provider.getTransaction(txHash),
+      this.provider.getTransactionReceipt(txHash)
+    ]);
+
+    if (!tx || !receipt) {
+      throw new Error(`Transaction ${txHash} not found`);
+    }
+
+    const [block, l1Fields] = await Promise.all([
+      this.provider.getBlock(receipt.blockNumber),
+      this.fetchL1ReceiptFields(txHash)
+    ]);
+
+    const transaction: BaseTransaction = {
+      hash: tx.hash,
+      from: tx.from,
+      to: tx.to,
+      value: tx.value.toString(),
+      gasPrice: (tx.gasPrice ?? 0).toString(),
+      gasLimit: tx.gasLimit?.toString(),
+      gasUsed: receipt.gasUsed.toString(),
+      type: tx.type ?? undefined,
+      maxFeePerGas: tx.maxFeePerGas?.toString(),
+      maxPriorityFeePerGas: tx.maxPriorityFeePerGas?.toString(),
+      baseFeePerGas: block?.baseFeePerGas?.toString(),
+      effectiveGasPrice: receipt.gasPrice?.toString(),
+      blockNumber: receipt.blockNumber,
+      timestamp: block ? block.timestamp : 0,
+      status: receipt.status ?? 0,
+      contractAddress: receipt.contractAddress || undefined,
+      input: tx.data,
+      logs: receipt.logs.map(log => ({
+        address: log.address,
+        topics: [...log.topics],
+        data: log.data,
+        logIndex: log.index
+      })),
+      ...l1Fields
+    };
+
+    if (this.options.cacheEnabled) {
+      this.cache.set(txHash, transaction);
+    }
+
+    return transaction;
+  }
+
+  /**
+   * Analyze multiple transactions, respecting the configured batch size
+   */
+  async batchAnalyze(txHashes: string[]): Promise<BaseTransaction[]> {
+    const results: BaseTransaction[] = [];
+    const batchSize = DEFAULT_ANALYZER_CONFIG.batchSize;
+
+    for (let i = 0; i < txHashes.length; i += batchSize) {
+      const batch = txHashes.slice(i, i + batchSize);
+      results.push(...await Promise.all(batch.map(hash => this.analyzeTransaction(hash))));
+    }
+
+    return results;
+  }
+
+  /**
+   * Alias of batchAnalyze matching the documented API
+   */
+  async analyzeBatch(txHashes: string[]): Promise<BaseTransaction[]> {
+    return this.batchAnalyze(txHashes);
+  }
+
+  /**
+   * Extract ERC-20 Transfer events from an analyzed transaction
+   */
+  extractERC20Transfers(transaction: BaseTransaction): ERC20Transfer[] {
+    if (!transaction.logs) {
+      return [];
+    }
+
+    return transaction.logs
+      .filter(log => log.topics[0] === ERC20_TRANSFER_TOPIC && log.topics.length === 3)
+      .map(log => ({
+        from: '0x' + log.topics[1].slice(26),
+        to: '0x' + log.topics[2].slice(26),
+        value: BigInt(log.data).toString(),
+        tokenAddress: log.address
+      }));
+  }
+
+  /**
+   * Fetch a transaction and return its ERC-20 transfers
+   */
+  async getERC20Transfers(txHash: string): Promise<ERC20Transfer[]> {
+    const transaction = await this.analyzeTransaction(txHash);
+    return this.extractERC20Transfers(transaction);
+  }
+
+  /**
+   * Calculate gas efficiency metrics for an analyzed transaction
+   */
+  calculateGasEfficiency(transaction: BaseTransaction): GasEfficiencyMetrics {
+    const gasUsed = BigInt(transaction.gasUsed);
+    const gasLimit = transaction.gasLimit ? BigInt(transaction.gasLimit) : gasUsed;
+    const gasCost = gasUsed * BigInt(transaction.gasPrice);
+
+    const gasUsedPercentage = gasLimit > 0n
+      ? Number(gasUsed * 10000n / gasLimit) / 100
+      : 0;
+
+    return {
+      gasUsedPercentage,
+      gasCostInEth: ethers.formatEther(gasCost),
+      gasEfficiencyRating: this.rateGasUsage(gasUsed)
+    };
+  }
+
+  /**
+   * Fetch a transaction and summarize its gas usage with optimization hints
+   */
+  async analyzeGasUsage(txHash: string): Promise<GasAnalysis> {
+    const transaction = await this.analyzeTransaction(txHash);
+    const efficiency = this.calculateGasEfficiency(transaction);
+    const blockFees = await this.fetchBlockFees(transaction);
+    const report = this.gasOptimizer.analyzeGasUsage(transaction, blockFees ?? undefined);
+
+    return {
+      gasUsed: Number(transaction.gasUsed),
+      gasLimit: Number(transaction.gasLimit ?? transaction.gasUsed),
+      gasPrice: parseFloat(ethers.formatUnits(transaction.gasPrice, 'gwei')),
+      efficiency: efficiency.gasUsedPercentage,
+      costEth: report.currentGasCost,
+      feeOverpayment: report.feeOverpayment,
+      suggestions: report.suggestions.map(suggestion => suggestion.description)
+    };
+  }
+
+  /**
+   * Fetch a batch of transactions, learn per-method gas limits from their
+   * executions and report how much of their gas limits they used. Later
+   * gas analyses recommend the learned limits.
+   */
+  async analyzeGasLimits(txHashes: string[]): Promise<GasLimitReport> {
+    const transactions = await this.batchAnalyze(txHashes);
+    this.gasOptimizer.recordExecutions(transactions);
+
+    return {
+      utilization: this.gasOptimizer.analyzeGasLimitUtilization(transactions),
+      methods: this.gasOptimizer.getMethodGasLimits()
+    };
+  }
+
+  /**
+   * Expected gas price in gwei of a standard-tier transaction sent now
+   */
+  async getCurrentGasPrice(): Promise<number> {
+    return this.gasOptimizer.getCurrentGasPrice(this.provider);
+  }
+
+  /**
+   * Hourly min, median and 90th percentile of base, priority and L1 fees
+   * over the last `hours`, to find when transacting is cheapest
+   */
+  async getGasPriceHistory(hours: number, options?: GasPriceHistoryOptions): Promise<GasPriceHistoryReport> {
+    return this.gasOptimizer.getGasPriceHistory(this.provider, hours, options);
+  }
+
+  /**
+   * Pre-flight gas, L1 data fee and total cost of an unsigned call, its gas
+   * limit padded by the volatility of the method's executions recorded by
+   * analyzeGasLimits
+   */
+  async estimateGasForTransaction(to: string, data: string, options?: PreflightOptions): Promise<PreflightGasEstimate> {
+    return this.gasOptimizer.estimateGasForTransaction(this.provider, to, data, options);
+  }
+
+  /**
+   * Clear cached transaction results
+   */
+  clearCache(): void {
+    this.cache.clear();
+  }
+
+  /**
+   * Read the OP-stack L1 fee fields that ethers drops from parsed receipts
+   */
+  private async fetchL1ReceiptFields(txHash: string): Promise<L1ReceiptFields> {
+    try {
+      const rawReceipt = await this.provider.send('eth_getTransactionReceipt', [txHash]);
+      const fields: L1ReceiptFields = {};
+      for (const field of L1_RECEIPT_FIELDS) {
+        if (rawReceipt?.[field] != null) {
+          fields[field] = BigInt(rawReceipt[field]).toString();
+        }
+      }
+      return fields;
+    } catch {
+      return {};
+    }
+  }
+
+  /**
+   * Base fee and lowest included priority fee of a transaction's block,
+   * null when the block cannot be read with its transactions
+   */
+  private async fetchBlockFees(transaction: BaseTransaction): Promise<BlockFeeContext | null> {
+    try {
+      const block = await this.provider.getBlock(transaction.blockNumber, true);
+      return block ? this.gasOptimizer.getBlockFeeContext(block, transaction.hash) : null;
+    } catch {
+      return null;
+    }
+  }
+
+  private rateGasUsage(gasUsed: bigint): GasEfficiencyMetrics['gasEfficiencyRating'] {
+    if (gasUsed <= 50000n) return 'Excellent';
+    if (gasUsed <= 150000n) return 'Good';
+    if (gasUsed <= 500000n) return 'Average';
+    return 'Poor';
+  }
+}
+
+export default BaseTransactionAnalyzer;
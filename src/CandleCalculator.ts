@@ -0,0 +1,231 @@
+/**
+ * Candle Calculator
+ *
+ * Builds OHLCV candles for one pool from its decoded swaps. Prices are the
+ * swaps' execution prices, quoted for a fixed pair orientation whichever
+ * way each swap went: token1 per token0 by default, token0 being the pair
+ * token with the lower address, or the inverse. Each candle is valued in
+ * USD at the block of its last swap.
+ */
+
+import { ethers } from 'ethers';
+import { SupportedProtocol } from './config';
+import { SwapHop, TokenInfo } from './DeFiProtocolAnalyzer';
+import { PriceSource } from './PriceSource';
+
+export type CandleInterval = '1m' | '5m' | '1h' | '1d';
+
+export const CANDLE_INTERVAL_SECONDS: Record<CandleInterval, number> = {
+  '1m': 60,
+  '5m': 5 * 60,
+  '1h': 60 * 60,
+  '1d': 24 * 60 * 60
+};
+
+export interface Candle {
+  /** Unix time the candle opens at, a multiple of the interval */
+  timestamp: number;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  /** Whole base tokens traded */
+  volumeBase: number;
+  /** Whole quote tokens traded */
+  volumeQuote: number;
+  /** Null when neither token could be priced */
+  volumeUsd: number | null;
+  trades: number;
+  /** Volume-weighted average price, in quote per base */
+  vwap: number;
+}
+
+export interface CandleSeries {
+  protocol: SupportedProtocol;
+  pool: string;
+  interval: CandleInterval;
+  /** Null when the range holds no swap of the pair */
+  base: TokenInfo | null;
+  quote: TokenInfo | null;
+  fromBlock: number;
+  toBlock: number;
+  /**
+   * Consecutive candles from the first swap's to the range end; candles
+   * without swaps repeat the previous close
+   */
+  candles: Candle[];
+}
+
+export interface CandleOptions {
+  /** Candle length, 1h by default */
+  interval?: CandleInterval;
+  /** First block scanned, a day before toBlock by default */
+  fromBlock?: number;
+  /** Last block scanned, latest by default */
+  toBlock?: ethers.BlockTag;
+  /** Pair of a pool holding more than two tokens, the first swap's pair by default */
+  pair?: [string, string];
+  /** Quote token0 in token1 rather than token1 in token0 */
+  invert?: boolean;
+  priceSource?: PriceSource;
+}
+
+/**
+ * A decoded swap with the block it executed in
+ */
+export interface PoolSwap {
+  hop: SwapHop;
+  blockNumber: number;
+  timestamp: number;
+}
+
+interface Trade {
+  swap: PoolSwap;
+  baseAmount: number;
+  quoteAmount: number;
+}
+
+export class CandleCalculator {
+  /**
+   * Bucket a pool's swaps into candles ending with the one holding endTimestamp
+   */
+  static async build(
+    protocol: SupportedProtocol,
+    pool: string,
+    swaps: PoolSwap[],
+    window: { fromBlock: number; toBlock: number; endTimestamp: number },
+    options: Pick<CandleOptions, 'interval' | 'pair' | 'invert'>,
+    priceSource: PriceSource
+  ): Promise<CandleSeries> {
+    const interval = options.interval ?? '1h';
+    const seconds = CANDLE_INTERVAL_SECONDS[interval];
+    const sorted = [...swaps].sort((a, b) => a.blockNumber - b.blockNumber || a.hop.logIndex - b.hop.logIndex);
+
+    const first = sorted[0]?.hop;
+    const pairTokens = options.pair ?? (first ? [first.tokenIn.address, first.tokenOut.address] : null);
+    const series: CandleSeries = {
+      protocol,
+      pool,
+      interval,
+      base: null,
+      quote: null,
+      fromBlock: window.fromBlock,
+      toBlock: window.toBlock,
+      candles: []
+    };
+    if (!pairTokens) {
+      return series;
+    }
+
+    const [token0, token1] = [...pairTokens].sort((a, b) => a.toLowerCase().localeCompare(b.toLowerCase()));
+    const [baseAddress, quoteAddress] = options.invert ? [token1, token0] : [token0, token1];
+    const trades = sorted
+      .map(swap => toTrade(swap, baseAddress, quoteAddress))
+      .filter((trade): trade is Trade => trade !== null);
+    if (trades.length === 0) {
+      return series;
+    }
+
+    const { tokenIn, tokenOut } = trades[0].swap.hop;
+    const [baseToken, quoteToken] = sameAddress(tokenIn.address, baseAddress) ? [tokenIn, tokenOut] : [tokenOut, tokenIn];
+    const base: TokenInfo = { address: baseToken.address, symbol: baseToken.symbol, decimals: baseToken.decimals };
+    const quote: TokenInfo = { address: quoteToken.address, symbol: quoteToken.symbol, decimals: quoteToken.decimals };
+    series.base = base;
+    series.quote = quote;
+
+    const buckets = new Map<number, Trade[]>();
+    for (const trade of trades) {
+      const timestamp = Math.floor(trade.swap.timestamp / seconds) * seconds;
+      const bucket = buckets.get(timestamp);
+      if (bucket) {
+        bucket.push(trade);
+      } else {
+        buckets.set(timestamp, [trade]);
+      }
+    }
+
+    const firstTimestamp = Math.floor(trades[0].swap.timestamp / seconds) * seconds;
+    const lastTimestamp = Math.floor(window.endTimestamp / seconds) * seconds;
+    let close = 0;
+    for (let timestamp = firstTimestamp; timestamp <= lastTimestamp; timestamp += seconds) {
+      const bucket = buckets.get(timestamp);
+      if (!bucket) {
+        series.candles.push({
+          timestamp,
+          open: close,
+          high: close,
+          low: close,
+          close,
+          volumeBase: 0,
+          volumeQuote: 0,
+          volumeUsd: 0,
+          trades: 0,
+          vwap: close
+        });
+        continue;
+      }
+
+      const prices = bucket.map(trade => trade.quoteAmount / trade.baseAmount);
+      const volumeBase = bucket.reduce((sum, trade) => sum + trade.baseAmount, 0);
+      const volumeQuote = bucket.reduce((sum, trade) => sum + trade.quoteAmount, 0);
+      close = prices[prices.length - 1];
+      series.candles.push({
+        timestamp,
+        open: prices[0],
+        high: prices.reduce((max, price) => Math.max(max, price), -Infinity),
+        low: prices.reduce((min, price) => Math.min(min, price), Infinity),
+        close,
+        volumeBase,
+        volumeQuote,
+        volumeUsd: await valueCandle([quote, volumeQuote], [base, volumeBase], bucket[bucket.length - 1].swap.blockNumber, priceSource),
+        trades: bucket.length,
+        vwap: volumeQuote / volumeBase
+      });
+    }
+
+    return series;
+  }
+}
+
+/**
+ * A swap's base and quote amounts, or null when it trades another pair
+ */
+function toTrade(swap: PoolSwap, baseAddress: string, quoteAddress: string): Trade | null {
+  const { tokenIn, tokenOut } = swap.hop;
+  let base: string;
+  let quote: string;
+  if (sameAddress(tokenIn.address, baseAddress) && sameAddress(tokenOut.address, quoteAddress)) {
+    [base, quote] = [tokenIn.amount, tokenOut.amount];
+  } else if (sameAddress(tokenIn.address, quoteAddress) && sameAddress(tokenOut.address, baseAddress)) {
+    [base, quote] = [tokenOut.amount, tokenIn.amount];
+  } else {
+    return null;
+  }
+
+  const baseAmount = parseFloat(base);
+  return baseAmount > 0 ? { swap, baseAmount, quoteAmount: parseFloat(quote) } : null;
+}
+
+/**
+ * Value a candle on its quote side, falling back to its base side
+ */
+async function valueCandle(
+  quoteSide: [TokenInfo, number],
+  baseSide: [TokenInfo, number],
+  blockNumber: number,
+  priceSource: PriceSource
+): Promise<number | null> {
+  for (const [token, volume] of [quoteSide, baseSide]) {
+    const price = await priceSource.getPriceUsd(token, blockNumber);
+    if (price !== null) {
+      return volume * price;
+    }
+  }
+  return null;
+}
+
+function sameAddress(a: string, b: string): boolean {
+  return a.toLowerCase() === b.toLowerCase();
+}
+
+export default CandleCalculator;
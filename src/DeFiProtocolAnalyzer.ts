@@ -6,19 +6,129 @@
  */
 
 import { ethers } from 'ethers';
+import { ArbitrageOpportunity, ArbitrageOptions, ArbitrageScanner, DEFAULT_ARBITRAGE_TOKENS } from './ArbitrageScanner';
+import { BaseNetworkUtils } from './BaseNetworkUtils';
+import { CandleCalculator, CandleOptions, CandleSeries, PoolSwap } from './CandleCalculator';
+import { BASE_CONSTANTS, SupportedProtocol } from './config';
+import { FlashLoan, FlashLoanDetector } from './FlashLoanDetector';
+import {
+  ImpermanentLossCalculator,
+  ImpermanentLossPoint,
+  PositionImpermanentLoss,
+  PriceGridOptions,
+  PriceRange
+} from './ImpermanentLossCalculator';
+import { Liquidation, LiquidationCalculator, LiquidationOptions, LiquidationSummary } from './LiquidationCalculator';
+import { BlockSwap, MevAnalysis, MevDetector } from './MevDetector';
+import {
+  PerformanceWindow,
+  PoolPerformance,
+  PoolPerformanceCalculator,
+  PoolPerformanceOptions,
+  PoolPerformanceReport
+} from './PoolPerformanceCalculator';
+import { PriceSource, UniswapV3PriceSource } from './PriceSource';
+import {
+  createBuiltinAdapters,
+  LendingEvent,
+  LendingPosition,
+  ProtocolAction,
+  ProtocolAdapter,
+  ProtocolAdapterContext,
+  ProtocolCategory,
+  PoolState,
+  SwapLimit,
+  validateProtocolAdapter
+} from './protocols';
+import { fetchLogsInChunks, resolveBlockNumber } from './protocols/utils';
+import { SwapRoute, SwapRouteOptions, SwapRouter } from './SwapRouter';
+import { ProtocolTVL, TokenValue, TVLCalculator, TVLOptions } from './TVLCalculator';
+import { ProtocolVolume, VolumeCalculator, VolumeOptions } from './VolumeCalculator';
 
 export interface ProtocolConfig {
   name: string;
   version: string;
   contractAddresses: {
     router?: string;
+    universalRouter?: string;
     factory?: string;
     quoter?: string;
     pool?: string;
+    vault?: string;
+    positionManager?: string;
+    voter?: string;
+    votingEscrow?: string;
+    comptroller?: string;
+    morpho?: string;
   };
   abi: any[];
 }
 
+export type DetectionSignal = 'tx.to' | 'log emitter' | 'factory-verified pool';
+
+export interface ProtocolDetection {
+  protocol: SupportedProtocol;
+  name: string;
+  signal: DetectionSignal;
+  address: string;
+}
+
+export interface TransactionClassification {
+  detection: ProtocolDetection;
+  category: ProtocolCategory;
+  action: ProtocolAction | null;
+}
+
+export interface RegisterProtocolOptions {
+  /** Replace an adapter already registered under the same key */
+  replace?: boolean;
+}
+
+export interface TokenInfo {
+  address: string;
+  symbol: string;
+  decimals: number;
+}
+
+export interface TokenAmount extends TokenInfo {
+  amount: string;
+}
+
+export interface PoolInfo {
+  address: string;
+  type: string;
+  token0: TokenInfo;
+  token1: TokenInfo;
+  fee: number;
+  stable?: boolean;
+}
+
+export interface SwapHop {
+  pool: string;
+  poolType: string;
+  tokenIn: TokenAmount;
+  tokenOut: TokenAmount;
+  fee: number;
+  logIndex: number;
+  /** Adverse move of the pool's price caused by this hop, as a percentage */
+  priceImpact?: number;
+  /** Concentrated liquidity pools only: the tick the swap left the pool at */
+  tick?: number;
+  /** Concentrated liquidity pools only: raw liquidity in range after the swap */
+  liquidity?: string;
+}
+
+/**
+ * A router call's slippage bound next to the amount the swap executed at
+ */
+export interface SlippageLimit {
+  kind: 'exactInput' | 'exactOutput';
+  /** amountOutMinimum of tokenOut or amountInMaximum of tokenIn, in whole tokens */
+  limit: string;
+  /** Amount of the same token the swap delivered or spent */
+  executed: string;
+}
+
 export interface SwapAnalysis {
   protocol: string;
   tokenIn: {
@@ -34,31 +144,66 @@ export interface SwapAnalysis {
     decimals: number;
   };
   exchangeRate: number;
+  /** Adverse pool price move across the route, as a percentage */
   priceImpact: number;
+  /**
+   * Tolerance the router call left beyond the executed amount, as a
+   * percentage: how much worse execution could have been without reverting.
+   * 0 when the calldata is not a recognised router swap.
+   */
   slippage: number;
+  slippageLimit?: SlippageLimit;
   fee: number;
   gasUsed: number;
   gasPrice: number;
   timestamp: number;
+  route?: SwapHop[];
+  /** Sandwiches and back-runs in the same block, when requested */
+  mev?: MevAnalysis;
+  /** Flash loans taken in the transaction, if any */
+  flashLoans?: FlashLoan[];
+  detection?: ProtocolDetection;
+}
+
+export interface SwapAnalysisOptions {
+  /** Inspect the other swaps of the route's pools in the block for sandwiches and back-runs */
+  detectMev?: boolean;
+}
+
+export interface ConcentratedLiquidityPosition {
+  positionManager: string;
+  tickLower: number;
+  tickUpper: number;
+  currentTick: number;
+  inRange: boolean;
+  /** Signed change in the position's liquidity */
+  liquidityDelta: string;
+  /** Fees paid out by Collect beyond withdrawn principal, in whole tokens */
+  feesCollected: { token0: string; token1: string };
 }
 
 export interface LiquidityAnalysis {
   protocol: string;
-  action: 'add' | 'remove';
+  action: 'add' | 'remove' | 'collect';
   pool: {
     address: string;
     token0: { address: string; symbol: string; amount: string };
     token1: { address: string; symbol: string; amount: string };
+    tokens?: { address: string; symbol: string; amount: string }[];
     fee: number;
   };
   lpTokens: string;
   poolShare: number;
   impermanentLoss?: number;
+  /** Position NFT id for concentrated liquidity */
+  positionId?: string;
+  position?: ConcentratedLiquidityPosition;
+  detection?: ProtocolDetection;
 }
 
 export interface YieldAnalysis {
   protocol: string;
-  action: 'stake' | 'unstake' | 'claim';
+  action: 'stake' | 'unstake' | 'claim' | 'borrow' | 'repay' | 'liquidate';
   token: {
     address: string;
     symbol: string;
@@ -67,85 +212,219 @@ export interface YieldAnalysis {
   rewards?: {
     token: string;
     amount: string;
-    apr: number;
+    /** Known only for rewards streamed at a fixed rate, such as gauge emissions */
+    apr?: number;
   }[];
+  /** Seconds from the transaction until a vote-escrow lock expires */
   lockPeriod?: number;
+  apr?: number;
+  detection?: ProtocolDetection;
+}
+
+export type PoolRankingMetric = 'tvl' | 'volume' | 'fees' | 'feeApr' | 'volumeTvl';
+
+export interface TopPoolsOptions extends VolumeOptions {
+  /** Ranking metric, TVL by default */
+  sortBy?: PoolRankingMetric;
+}
+
+export interface AccountPositionOptions {
+  blockTag?: ethers.BlockTag;
+}
+
+export interface AccountHistoryOptions {
+  /** First block scanned, the market's deployment by default */
+  fromBlock?: number;
+  /** Last block scanned, latest by default */
+  toBlock?: ethers.BlockTag;
+}
+
+export interface PositionImpermanentLossOptions {
+  blockTag?: ethers.BlockTag;
+}
+
+export interface PoolSummary {
+  address: string;
+  label?: string;
+  tokens: TokenValue[];
+  tvlUsd: number;
+  volumeUsd: number;
+  feesUsd: number;
+  swapCount: number;
+  /** Window fees annualised over in-range liquidity, as a percentage; see PoolPerformanceCalculator */
+  feeApr: number | null;
+  volumeTvlRatio: number | null;
+}
+
+const POOL_RANKING_FIELDS: Record<
+  PoolRankingMetric,
+  'tvlUsd' | 'volumeUsd' | 'feesUsd' | 'feeApr' | 'volumeTvlRatio'
+> = {
+  tvl: 'tvlUsd',
+  volume: 'volumeUsd',
+  fees: 'feesUsd',
+  feeApr: 'feeApr',
+  volumeTvl: 'volumeTvlRatio'
+};
+
+const SECONDS_PER_DAY = 24 * 60 * 60;
+
+const ERC20_METADATA_ABI = [
+  'function symbol() view returns (string)',
+  'function decimals() view returns (uint8)'
+];
+
+interface ParsedSwap {
+  tokenIn: TokenAmount;
+  tokenOut: TokenAmount;
+  exchangeRate: number;
+  priceImpact: number;
+  fee: number;
+  route: SwapHop[];
 }
 
 export class DeFiProtocolAnalyzer {
   private provider: ethers.Provider;
-  private protocols: Map<string, ProtocolConfig>;
+  private adapters: Map<string, ProtocolAdapter> = new Map();
+  private tokenCache: Map<string, TokenInfo> = new Map();
+  // Keyed by `${protocol}:${pool}`, as protocols sharing an event each own some of its emitters
+  private poolVerifications: Map<string, boolean> = new Map();
+  private priceSource: PriceSource;
 
   constructor(rpcUrl: string) {
     this.provider = new ethers.JsonRpcProvider(rpcUrl);
-    this.protocols = new Map();
+    this.priceSource = new UniswapV3PriceSource(this.provider);
     this.initializeProtocols();
   }
 
   private initializeProtocols() {
-    // Uniswap V3 on Base
-    this.protocols.set('uniswap-v3', {
-      name: 'Uniswap V3',
-      version: '3.0',
-      contractAddresses: {
-        router: '0x2626664c2603336E57B271c5C0b26F421741e481',
-        factory: '0x33128a8fC17869897dcE68Ed026d694621f6FDfD',
-        quoter: '0x3d4e44Eb1374240CE5F1B871ab261CD16335B76a'
-      },
-      abi: [] // Would contain actual ABI
-    });
+    for (const adapter of createBuiltinAdapters()) {
+      this.registerProtocol(adapter);
+    }
+  }
 
-    // Aerodrome (Base's native DEX)
-    this.protocols.set('aerodrome', {
-      name: 'Aerodrome',
-      version: '1.0',
-      contractAddresses: {
-        router: '0xcF77a3Ba9A5CA399B7c97c74d54e5b1Beb874E43',
-        factory: '0x420DD381b31aEf6683db6B902084cB0FFECe40Da'
-      },
-      abi: []
-    });
+  /**
+   * Add a protocol adapter to detection, decoding and TVL lookups. Throws if
+   * the adapter is invalid, its key is taken (unless replacing) or it claims
+   * a contract already registered to another protocol.
+   */
+  registerProtocol(adapter: ProtocolAdapter, options: RegisterProtocolOptions = {}): void {
+    const errors = validateProtocolAdapter(adapter);
+    if (errors.length > 0) {
+      throw new Error(`Invalid protocol adapter ${adapter?.key}: ${errors.join('; ')}`);
+    }
 
-    // Compound V3 on Base
-    this.protocols.set('compound-v3', {
-      name: 'Compound V3',
-      version: '3.0',
-      contractAddresses: {
-        pool: '0x9c4ec768c28520B50860ea7a15bd7213a9fF58bf' // USDC market
-      },
-      abi: []
-    });
+    if (this.adapters.has(adapter.key) && !options.replace) {
+      throw new Error(`Protocol ${adapter.key} is already registered`);
+    }
+
+    for (const address of Object.values(adapter.config.contractAddresses)) {
+      const owner = address ? this.findProtocolByAddress(address) : null;
+      if (owner && owner !== adapter.key) {
+        throw new Error(`Contract ${address} is already registered to ${owner}`);
+      }
+    }
+
+    this.adapters.set(adapter.key, adapter);
+    this.forgetPoolVerifications(adapter.key);
+  }
+
+  /**
+   * Remove a protocol adapter, returning whether one was registered
+   */
+  unregisterProtocol(protocolName: string): boolean {
+    const removed = this.adapters.delete(protocolName);
+    if (removed) {
+      this.forgetPoolVerifications(protocolName);
+    }
+    return removed;
+  }
+
+  getRegisteredProtocols(): SupportedProtocol[] {
+    return [...this.adapters.values()].map(adapter => adapter.key);
+  }
+
+  getProtocolAdapter(protocolName: string): ProtocolAdapter | undefined {
+    return this.adapters.get(protocolName);
+  }
+
+  /**
+   * Replace the default on-chain USD price source used for valuations
+   */
+  setPriceSource(priceSource: PriceSource): void {
+    this.priceSource = priceSource;
   }
 
-  async analyzeSwap(txHash: string): Promise<SwapAnalysis | null> {
+  /**
+   * Detect the protocol a transaction interacts with and the kind of action it performs
+   */
+  async classifyTransaction(txHash: string): Promise<TransactionClassification | null> {
     try {
       const tx = await this.provider.getTransaction(txHash);
       const receipt = await this.provider.getTransactionReceipt(txHash);
-      
+
       if (!tx || !receipt) {
         throw new Error('Transaction not found');
       }
 
-      // Detect protocol based on contract address
-      const protocol = this.detectProtocol(tx.to);
-      if (!protocol) {
+      const detection = await this.detectProtocol(tx.to, receipt.logs);
+      if (!detection) {
         return null;
       }
+      const adapter = this.adapters.get(detection.protocol)!;
 
-      // Parse swap data from logs
-      const swapData = await this.parseSwapLogs(receipt.logs, protocol);
+      return {
+        detection,
+        category: adapter.category,
+        action: adapter.classify?.(receipt.logs) ?? null
+      };
+
+    } catch (error) {
+      console.error('Error classifying transaction:', error);
+      return null;
+    }
+  }
+
+  async analyzeSwap(txHash: string, options: SwapAnalysisOptions = {}): Promise<SwapAnalysis | null> {
+    try {
+      const tx = await this.provider.getTransaction(txHash);
+      const receipt = await this.provider.getTransactionReceipt(txHash);
       
+      if (!tx || !receipt) {
+        throw new Error('Transaction not found');
+      }
+
+      // Parse swap data from logs
+      const swapData = await this.parseSwapLogs(receipt.logs, receipt.blockNumber);
+      if (!swapData) {
+        return null;
+      }
+
+      // Attribute to the pool's protocol even when routed through an aggregator
+      const detection = await this.detectProtocol(tx.to, receipt.logs);
+      if (!detection) {
+        return null;
+      }
+
+      const slippageLimit = this.decodeSlippageLimit(tx, swapData);
+      const flashLoans = await this.findFlashLoans(receipt.logs, receipt.blockNumber);
+
       return {
-        protocol: protocol.name,
+        protocol: detection.name,
         tokenIn: swapData.tokenIn,
         tokenOut: swapData.tokenOut,
         exchangeRate: swapData.exchangeRate,
         priceImpact: swapData.priceImpact,
-        slippage: swapData.slippage,
+        slippage: slippageLimit ? this.calculateSlippageTolerance(slippageLimit) : 0,
+        slippageLimit: slippageLimit ?? undefined,
         fee: swapData.fee,
         gasUsed: Number(receipt.gasUsed),
         gasPrice: Number(tx.gasPrice || 0),
-        timestamp: Date.now()
+        timestamp: Date.now(),
+        route: swapData.route,
+        mev: options.detectMev ? await this.detectMev(tx, receipt, swapData) : undefined,
+        flashLoans: flashLoans.length > 0 ? flashLoans : undefined,
+        detection
       };
 
     } catch (error) {
@@ -163,20 +442,31 @@ export class DeFiProtocolAnalyzer {
         throw new Error('Transaction not found');
       }
 
-      const protocol = this.detectProtocol(tx.to);
-      if (!protocol) {
+      const detection = await this.detectProtocol(tx.to, receipt.logs);
+      if (!detection) {
         return null;
       }
+      const adapter = this.adapters.get(detection.protocol)!;
 
-      const liquidityData = await this.parseLiquidityLogs(receipt.logs, protocol);
+      if (!adapter.decodeLiquidity) {
+        return null;
+      }
+
+      const liquidityData = await adapter.decodeLiquidity(receipt.logs, this.createAdapterContext(receipt.blockNumber));
+      if (!liquidityData) {
+        return null;
+      }
       
       return {
-        protocol: protocol.name,
+        protocol: detection.name,
         action: liquidityData.action,
         pool: liquidityData.pool,
         lpTokens: liquidityData.lpTokens,
         poolShare: liquidityData.poolShare,
-        impermanentLoss: liquidityData.impermanentLoss
+        impermanentLoss: liquidityData.impermanentLoss,
+        positionId: liquidityData.positionId,
+        position: liquidityData.position,
+        detection
       };
 
     } catch (error) {
@@ -194,19 +484,29 @@ export class DeFiProtocolAnalyzer {
         throw new Error('Transaction not found');
       }
 
-      const protocol = this.detectProtocol(tx.to);
-      if (!protocol) {
+      const detection = await this.detectProtocol(tx.to, receipt.logs);
+      if (!detection) {
         return null;
       }
+      const adapter = this.adapters.get(detection.protocol)!;
 
-      const yieldData = await this.parseYieldLogs(receipt.logs, protocol);
+      if (!adapter.decodeYield) {
+        return null;
+      }
+
+      const yieldData = await adapter.decodeYield(receipt.logs, this.createAdapterContext(receipt.blockNumber));
+      if (!yieldData) {
+        return null;
+      }
       
       return {
-        protocol: protocol.name,
+        protocol: detection.name,
         action: yieldData.action,
         token: yieldData.token,
         rewards: yieldData.rewards,
-        lockPeriod: yieldData.lockPeriod
+        lockPeriod: yieldData.lockPeriod,
+        apr: yieldData.apr,
+        detection
       };
 
     } catch (error) {
@@ -215,160 +515,832 @@ export class DeFiProtocolAnalyzer {
     }
   }
 
-  async getProtocolTVL(protocolName: string): Promise<number> {
-    const protocol = this.protocols.get(protocolName);
-    if (!protocol) {
-      throw new Error(`Protocol ${protocolName} not supported`);
+  /**
+   * Liquidations settled in a transaction, across every lending protocol
+   * and valued at its block. Liquidators often flash-borrow from one
+   * protocol to liquidate on another, so no single protocol is detected.
+   */
+  async analyzeLiquidations(txHash: string): Promise<Liquidation[] | null> {
+    try {
+      const receipt = await this.provider.getTransactionReceipt(txHash);
+      if (!receipt) {
+        throw new Error('Transaction not found');
+      }
+
+      const context = this.createAdapterContext(receipt.blockNumber);
+      const liquidations: Liquidation[] = [];
+      for (const adapter of this.adapters.values()) {
+        if (!adapter.decodeLiquidations) continue;
+        const decoded = await adapter.decodeLiquidations(receipt.logs, context);
+        liquidations.push(...await LiquidationCalculator.value(adapter.key, decoded, this.priceSource));
+      }
+
+      return liquidations.sort((a, b) => a.logIndex - b.logIndex);
+
+    } catch (error) {
+      console.error('Error analyzing liquidations:', error);
+      return null;
     }
+  }
 
-    // Implementation would query protocol-specific contracts
-    // This is a simplified example
+  /**
+   * Flash loans taken in a transaction, from every lender, with the
+   * protocols used while each was outstanding
+   */
+  async analyzeFlashLoans(txHash: string): Promise<FlashLoan[] | null> {
     try {
-      switch (protocolName) {
-        case 'uniswap-v3':
-          return await this.getUniswapV3TVL();
-        case 'aerodrome':
-          return await this.getAerodromeTVL();
-        case 'compound-v3':
-          return await this.getCompoundV3TVL();
-        default:
-          return 0;
+      const receipt = await this.provider.getTransactionReceipt(txHash);
+      if (!receipt) {
+        throw new Error('Transaction not found');
       }
+
+      return await this.findFlashLoans(receipt.logs, receipt.blockNumber);
+
     } catch (error) {
-      console.error(`Error getting TVL for ${protocolName}:`, error);
-      return 0;
+      console.error('Error analyzing flash loans:', error);
+      return null;
     }
   }
 
-  async getProtocolVolume24h(protocolName: string): Promise<number> {
-    // Implementation would aggregate 24h volume from events
-    // This is a placeholder
-    return 0;
+  /**
+   * Compute TVL from chain state at a block (latest by default). The block
+   * is pinned first so the pool list, balances and prices all agree and the
+   * snapshot can be reproduced by passing the returned blockNumber back in.
+   */
+  async getProtocolTVL(protocolName: string, options: TVLOptions = {}): Promise<ProtocolTVL> {
+    const adapter = this.getSupportedAdapter(protocolName);
+    const blockNumber = await resolveBlockNumber(this.createAdapterContext(options.blockTag));
+    const context = { ...this.createAdapterContext(blockNumber), blockTag: blockNumber };
+
+    const holdings = adapter.getTVLHoldings ? await adapter.getTVLHoldings(context) : [];
+    return TVLCalculator.calculate(adapter.key, holdings, context, options.priceSource ?? this.priceSource);
   }
 
-  async getTopPools(protocolName: string, limit: number = 10): Promise<any[]> {
-    const protocol = this.protocols.get(protocolName);
-    if (!protocol) {
-      throw new Error(`Protocol ${protocolName} not supported`);
+  /**
+   * USD swap volume and LP fees from the protocol's swap events over a
+   * window of blocks ending at blockTag (latest by default)
+   */
+  async getProtocolVolume(protocolName: string, options: VolumeOptions = {}): Promise<ProtocolVolume> {
+    const adapter = this.getSupportedAdapter(protocolName);
+    const toBlock = await resolveBlockNumber(this.createAdapterContext(options.blockTag));
+    return this.calculateVolume(adapter, toBlock, options);
+  }
+
+  async getProtocolVolume24h(protocolName: string, options: Omit<VolumeOptions, 'windowSeconds'> = {}): Promise<number> {
+    const volume = await this.getProtocolVolume(protocolName, { ...options, windowSeconds: SECONDS_PER_DAY });
+    return volume.volumeUsd;
+  }
+
+  /**
+   * An account's supply, debt and collateral in a lending market at a block
+   * (latest by default), with health factor and per-asset liquidation prices
+   */
+  async getAccountPosition(
+    protocolName: string,
+    account: string,
+    options: AccountPositionOptions = {}
+  ): Promise<LendingPosition> {
+    const adapter = this.getAccountAdapter(protocolName, account);
+    const blockNumber = await resolveBlockNumber(this.createAdapterContext(options.blockTag));
+    return adapter.getAccountPosition!(account, this.createAdapterContext(blockNumber));
+  }
+
+  /**
+   * Supplies, withdrawals, collateral moves and liquidations of an account
+   * in a lending market, oldest first
+   */
+  async getAccountHistory(
+    protocolName: string,
+    account: string,
+    options: AccountHistoryOptions = {}
+  ): Promise<LendingEvent[]> {
+    const adapter = this.getAccountAdapter(protocolName, account);
+    if (!adapter.getAccountHistory) {
+      throw new Error(`Protocol ${protocolName} does not track account history`);
+    }
+
+    const toBlock = await resolveBlockNumber(this.createAdapterContext(options.toBlock));
+    return adapter.getAccountHistory(account, this.createAdapterContext(toBlock), options.fromBlock ?? 0, toBlock);
+  }
+
+  /**
+   * Liquidations over a block range, a day up to the latest block by
+   * default, from the given protocols or every one that decodes them
+   */
+  async getLiquidations(options: LiquidationOptions = {}): Promise<LiquidationSummary> {
+    const adapters = options.protocols
+      ? options.protocols.map(protocolName => this.getSupportedAdapter(protocolName))
+      : [...this.adapters.values()].filter(adapter => adapter.getLiquidationLogs);
+    for (const adapter of adapters) {
+      if (!adapter.getLiquidationLogs || !adapter.decodeLiquidations) {
+        throw new Error(`Protocol ${adapter.key} does not decode liquidations`);
+      }
+    }
+
+    const toBlock = await resolveBlockNumber(this.createAdapterContext(options.toBlock));
+    const windowBlocks = Math.ceil(SECONDS_PER_DAY / BASE_CONSTANTS.BLOCK_TIME_SECONDS);
+    const fromBlock = options.fromBlock ?? Math.max(toBlock - windowBlocks + 1, 0);
+    if (fromBlock > toBlock) {
+      throw new Error(`fromBlock ${fromBlock} is after toBlock ${toBlock}`);
+    }
+
+    const context = this.createAdapterContext(toBlock);
+    const priceSource = options.priceSource ?? this.priceSource;
+    const liquidations: Liquidation[] = [];
+    for (const adapter of adapters) {
+      const logs = await adapter.getLiquidationLogs!(context, fromBlock, toBlock);
+      const decoded = await adapter.decodeLiquidations!(logs, context);
+      liquidations.push(...await LiquidationCalculator.value(adapter.key, decoded, priceSource));
+    }
+
+    return LiquidationCalculator.summarize(liquidations, { fromBlock, toBlock });
+  }
+
+  /**
+   * OHLCV candles for one pool over a block range, a day up to the latest
+   * block by default. Base produces a block every two seconds, so swap
+   * times are interpolated between the range's end blocks rather than
+   * fetched block by block.
+   */
+  async getPoolCandles(protocolName: string, pool: string, options: CandleOptions = {}): Promise<CandleSeries> {
+    if (!ethers.isAddress(pool)) {
+      throw new Error(`Invalid pool address: ${pool}`);
     }
+    const adapter = this.getSupportedAdapter(protocolName);
+    if (!adapter.getPoolSwapLogs || !adapter.decodeSwaps) {
+      throw new Error(`Protocol ${protocolName} does not index pool swaps`);
+    }
+
+    const toBlock = await resolveBlockNumber(this.createAdapterContext(options.toBlock));
+    const windowBlocks = Math.ceil(SECONDS_PER_DAY / BASE_CONSTANTS.BLOCK_TIME_SECONDS);
+    const fromBlock = options.fromBlock ?? Math.max(toBlock - windowBlocks + 1, 0);
+    if (fromBlock > toBlock) {
+      throw new Error(`fromBlock ${fromBlock} is after toBlock ${toBlock}`);
+    }
+
+    const context = this.createAdapterContext(toBlock);
+    if (adapter.verifyPool && !await adapter.verifyPool(pool, context).catch(() => false)) {
+      throw new Error(`Pool ${pool} is not a ${adapter.config.name} pool`);
+    }
+
+    const [logs, first, last] = await Promise.all([
+      adapter.getPoolSwapLogs(pool, context, fromBlock, toBlock),
+      this.provider.getBlock(fromBlock),
+      this.provider.getBlock(toBlock)
+    ]);
+    if (!first || !last) {
+      throw new Error(`Blocks ${fromBlock} to ${toBlock} not found`);
+    }
+    const secondsPerBlock = toBlock > fromBlock ? (last.timestamp - first.timestamp) / (toBlock - fromBlock) : 0;
+
+    // Hops only carry their log index, so decode block by block to keep their block
+    const blocks = new Map<number, ethers.Log[]>();
+    for (const log of logs) {
+      const blockLogs = blocks.get(log.blockNumber);
+      if (blockLogs) {
+        blockLogs.push(log);
+      } else {
+        blocks.set(log.blockNumber, [log]);
+      }
+    }
+    const swaps: PoolSwap[] = [];
+    for (const [blockNumber, blockLogs] of blocks) {
+      const hops = await adapter.decodeSwaps(blockLogs, context);
+      const timestamp = Math.floor(first.timestamp + (blockNumber - fromBlock) * secondsPerBlock);
+      swaps.push(...hops
+        .filter(hop => hop.pool.toLowerCase() === pool.toLowerCase())
+        .map(hop => ({ hop, blockNumber, timestamp })));
+    }
+
+    return CandleCalculator.build(
+      adapter.key,
+      pool,
+      swaps,
+      { fromBlock, toBlock, endTimestamp: last.timestamp },
+      options,
+      options.priceSource ?? this.priceSource
+    );
+  }
+
+  /**
+   * Fee APR, volume/TVL ratio and fee tier efficiency of one pool over a
+   * trailing window (a day by default), against the protocol's other pools
+   * for the same pair. Concentrated pools are broken down by tick range.
+   */
+  async getPoolPerformance(
+    protocolName: string,
+    pool: string,
+    options: PoolPerformanceOptions = {}
+  ): Promise<PoolPerformanceReport> {
+    if (!ethers.isAddress(pool)) {
+      throw new Error(`Invalid pool address: ${pool}`);
+    }
+    const adapter = this.getSupportedAdapter(protocolName);
+    if (!adapter.getPoolState || !adapter.getPoolSwapLogs || !adapter.decodeSwaps) {
+      throw new Error(`Protocol ${protocolName} does not report pool performance`);
+    }
+
+    const toBlock = await resolveBlockNumber(this.createAdapterContext(options.blockTag));
+    const context = { ...this.createAdapterContext(toBlock), blockTag: toBlock };
+    if (adapter.verifyPool && !await adapter.verifyPool(pool, context).catch(() => false)) {
+      throw new Error(`Pool ${pool} is not a ${adapter.config.name} pool`);
+    }
+
+    const windowSeconds = options.windowSeconds ?? SECONDS_PER_DAY;
+    const window: PerformanceWindow = { ...this.getVolumeWindow(toBlock, windowSeconds), windowSeconds };
+    const priceSource = options.priceSource ?? this.priceSource;
+    const state = await adapter.getPoolState(pool, context);
+
+    const reserves = adapter.getPoolReserves
+      ? await adapter.getPoolReserves(state.token0.address, state.token1.address, context)
+      : [];
+    const peerAddresses = reserves
+      .map(reserve => reserve.address)
+      .filter(address => address.toLowerCase() !== pool.toLowerCase());
+    const states = [state, ...await Promise.all(peerAddresses.map(address => adapter.getPoolState!(address, context)))];
+
+    const tvl = await TVLCalculator.calculate(
+      adapter.key,
+      states.map(({ address, token0, token1 }) => ({ address, tokens: [token0.address, token1.address] })),
+      context,
+      priceSource
+    );
+    const measured: (PoolPerformance & { fee: number })[] = [];
+    let poolHops: SwapHop[] = [];
+    for (const peer of states) {
+      const logs = await adapter.getPoolSwapLogs(peer.address, context, window.fromBlock, toBlock);
+      const hops = (await adapter.decodeSwaps(logs, context))
+        .filter(hop => hop.pool.toLowerCase() === peer.address.toLowerCase());
+      if (peer === state) {
+        poolHops = hops;
+      }
+      const tvlUsd = tvl.pools.find(entry => entry.address.toLowerCase() === peer.address.toLowerCase())?.valueUsd ?? 0;
+      const performance = await PoolPerformanceCalculator.measure(peer.address, hops, tvlUsd, window, priceSource, peer);
+      measured.push({ ...performance, fee: peer.fee });
+    }
+
+    return {
+      ...measured[0],
+      address: pool,
+      protocol: adapter.key,
+      token0: state.token0,
+      token1: state.token1,
+      fee: state.fee,
+      concentrated: state.concentrated !== undefined,
+      fromBlock: window.fromBlock,
+      toBlock,
+      windowSeconds,
+      tickRanges: state.concentrated
+        ? await PoolPerformanceCalculator.tickRanges(state, poolHops, window, priceSource, options.tickRangeWidth)
+        : undefined,
+      peers: PoolPerformanceCalculator.compare(measured)
+    };
+  }
+
+  /**
+   * Rank the protocol's pools by TVL, volume, fees, fee APR or volume/TVL,
+   * with TVL and the volume window measured at the same block
+   */
+  async getTopPools(protocolName: string, limit: number = 10, options: TopPoolsOptions = {}): Promise<PoolSummary[]> {
+    const adapter = this.getSupportedAdapter(protocolName);
+    const blockNumber = await resolveBlockNumber(this.createAdapterContext(options.blockTag));
+    const priceSource = options.priceSource ?? this.priceSource;
+
+    // Sequential so the volume scan reuses the pool index the TVL scan built
+    const tvl = await this.getProtocolTVL(protocolName, { ...options, blockTag: blockNumber });
+    const windowSeconds = options.windowSeconds ?? SECONDS_PER_DAY;
+    const window: PerformanceWindow = { ...this.getVolumeWindow(blockNumber, windowSeconds), windowSeconds };
+    const hops = await this.collectSwaps(adapter, window.fromBlock, blockNumber);
+    const volume = await VolumeCalculator.calculate(adapter.key, hops, window, priceSource);
+
+    const summaries = new Map<string, PoolSummary>();
+    for (const pool of tvl.pools) {
+      summaries.set(pool.address.toLowerCase(), {
+        address: pool.address,
+        label: pool.label,
+        tokens: pool.tokens,
+        tvlUsd: pool.valueUsd,
+        volumeUsd: 0,
+        feesUsd: 0,
+        swapCount: 0,
+        feeApr: null,
+        volumeTvlRatio: null
+      });
+    }
+    for (const pool of volume.pools) {
+      const key = pool.address.toLowerCase();
+      const summary = summaries.get(key) ?? {
+        address: pool.address,
+        tokens: [],
+        tvlUsd: 0,
+        volumeUsd: 0,
+        feesUsd: 0,
+        swapCount: 0,
+        feeApr: null,
+        volumeTvlRatio: null
+      };
+      summary.volumeUsd = pool.volumeUsd;
+      summary.feesUsd = pool.feesUsd;
+      summary.swapCount = pool.swapCount;
+      summaries.set(key, summary);
+    }
+
+    // Only pools that earned fees need their concentrated state read
+    const context = this.createAdapterContext(blockNumber);
+    const hopsByPool = new Map<string, SwapHop[]>();
+    for (const hop of hops) {
+      const key = hop.pool.toLowerCase();
+      const poolHops = hopsByPool.get(key);
+      if (poolHops) {
+        poolHops.push(hop);
+      } else {
+        hopsByPool.set(key, [hop]);
+      }
+    }
+    for (const summary of summaries.values()) {
+      const poolHops = hopsByPool.get(summary.address.toLowerCase()) ?? [];
+      const state: PoolState | undefined = adapter.getPoolState && summary.feesUsd > 0
+        ? await adapter.getPoolState(summary.address, context).catch(() => undefined)
+        : undefined;
+      const performance = await PoolPerformanceCalculator.measure(
+        summary.address,
+        poolHops,
+        summary.tvlUsd,
+        window,
+        priceSource,
+        state
+      );
+      summary.feeApr = performance.feeApr;
+      summary.volumeTvlRatio = performance.volumeTvlRatio;
+    }
+
+    const field = POOL_RANKING_FIELDS[options.sortBy ?? 'tvl'];
+    return [...summaries.values()]
+      .sort((a, b) => (b[field] ?? -Infinity) - (a[field] ?? -Infinity) || b.tvlUsd - a.tvlUsd)
+      .slice(0, limit);
+  }
+
+  /**
+   * Decode and value the adapter's swaps over the window ending at toBlock
+   */
+  private async calculateVolume(adapter: ProtocolAdapter, toBlock: number, options: VolumeOptions): Promise<ProtocolVolume> {
+    const { fromBlock } = this.getVolumeWindow(toBlock, options.windowSeconds ?? SECONDS_PER_DAY);
+    const hops = await this.collectSwaps(adapter, fromBlock, toBlock);
+    return VolumeCalculator.calculate(adapter.key, hops, { fromBlock, toBlock }, options.priceSource ?? this.priceSource);
+  }
 
-    // Implementation would query and rank pools by TVL/volume
-    return [];
+  /**
+   * A window of seconds ending at toBlock, sized in blocks from the Base block time
+   */
+  private getVolumeWindow(toBlock: number, windowSeconds: number): { fromBlock: number; toBlock: number } {
+    const windowBlocks = Math.ceil(windowSeconds / BASE_CONSTANTS.BLOCK_TIME_SECONDS);
+    return { fromBlock: Math.max(toBlock - windowBlocks + 1, 0), toBlock };
   }
 
-  private detectProtocol(contractAddress: string | null): ProtocolConfig | null {
-    if (!contractAddress) return null;
+  private async collectSwaps(adapter: ProtocolAdapter, fromBlock: number, toBlock: number): Promise<SwapHop[]> {
+    const context = this.createAdapterContext(toBlock);
+    return adapter.getSwapLogs && adapter.decodeSwaps
+      ? adapter.decodeSwaps(await adapter.getSwapLogs(context, fromBlock, toBlock), context)
+      : [];
+  }
+
+  /**
+   * Attribute a transaction to a protocol. Signals are tried from strongest
+   * to weakest: the called contract, a known contract emitting a log, and
+   * finally any pool whose factory confirms it deployed that pool.
+   */
+  private async detectProtocol(
+    to: string | null,
+    logs: readonly ethers.Log[] = []
+  ): Promise<ProtocolDetection | null> {
+    if (to) {
+      const key = this.findProtocolByAddress(to);
+      if (key) {
+        return this.buildDetection(key, 'tx.to', to);
+      }
+    }
+
+    for (const log of logs) {
+      const key = this.findProtocolByAddress(log.address);
+      if (key) {
+        return this.buildDetection(key, 'log emitter', log.address);
+      }
+    }
 
-    for (const [, protocol] of this.protocols) {
-      const addresses = Object.values(protocol.contractAddresses);
-      if (addresses.includes(contractAddress.toLowerCase())) {
-        return protocol;
+    for (const log of logs) {
+      const key = await this.verifyAdapterPool(log);
+      if (key) {
+        return this.buildDetection(key, 'factory-verified pool', log.address);
       }
     }
+
     return null;
   }
 
-  private async parseSwapLogs(logs: any[], protocol: ProtocolConfig): Promise<any> {
-    // Implementation would parse protocol-specific swap events
-    // This is a simplified example
-    return {
-      tokenIn: {
-        address: '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913',
-        symbol: 'USDC',
-        amount: '1000.0',
-        decimals: 6
-      },
-      tokenOut: {
-        address: '0x4200000000000000000000000000000000000006',
-        symbol: 'WETH',
-        amount: '0.5',
-        decimals: 18
-      },
-      exchangeRate: 2000,
-      priceImpact: 0.1,
-      slippage: 0.5,
-      fee: 0.3
+  private async findFlashLoans(logs: readonly ethers.Log[], blockNumber: number): Promise<FlashLoan[]> {
+    const context = this.createAdapterContext(blockNumber);
+    const attributeLog = async (log: ethers.Log) => {
+      const key = this.findProtocolByAddress(log.address) ?? await this.verifyAdapterPool(log);
+      return key ? this.adapters.get(key)!.key : null;
     };
+
+    const flashLoans: FlashLoan[] = [];
+    for (const adapter of this.adapters.values()) {
+      if (!adapter.decodeFlashLoans) continue;
+      const decoded = await adapter.decodeFlashLoans(logs, context);
+      flashLoans.push(...await FlashLoanDetector.describe(adapter.key, decoded, logs, attributeLog));
+    }
+
+    return flashLoans.sort((a, b) => a.logIndex - b.logIndex);
   }
 
-  private async parseLiquidityLogs(logs: any[], protocol: ProtocolConfig): Promise<any> {
-    // Implementation would parse liquidity events
+  private async verifyAdapterPool(log: ethers.Log): Promise<string | null> {
+    for (const adapter of this.adapters.values()) {
+      if (!adapter.isPoolLog?.(log) || !adapter.verifyPool) continue;
+
+      const cacheKey = `${adapter.key}:${log.address.toLowerCase()}`;
+      let verified = this.poolVerifications.get(cacheKey);
+      if (verified === undefined) {
+        verified = await adapter.verifyPool(log.address, this.createAdapterContext()).catch(() => false);
+        this.poolVerifications.set(cacheKey, verified);
+      }
+
+      if (verified) return adapter.key;
+    }
+    return null;
+  }
+
+  private createAdapterContext(blockTag?: ethers.BlockTag): ProtocolAdapterContext {
     return {
-      action: 'add' as const,
-      pool: {
-        address: '0x...',
-        token0: { address: '0x...', symbol: 'USDC', amount: '1000' },
-        token1: { address: '0x...', symbol: 'WETH', amount: '0.5' },
-        fee: 0.3
-      },
-      lpTokens: '22.36',
-      poolShare: 0.01,
-      impermanentLoss: 0
+      provider: this.provider,
+      blockTag,
+      getTokenInfo: (address: string) => this.getTokenInfo(address),
+      getPriceUsd: (token: TokenInfo) => this.priceSource.getPriceUsd(token, blockTag ?? 'latest'),
+      getLogs: (filter: ethers.Filter, fromBlock: number, toBlock: number) =>
+        fetchLogsInChunks(this.provider, filter, fromBlock, toBlock)
     };
   }
 
-  private async parseYieldLogs(logs: any[], protocol: ProtocolConfig): Promise<any> {
-    // Implementation would parse yield farming events
+  private getSupportedAdapter(protocolName: string): ProtocolAdapter {
+    const adapter = this.adapters.get(protocolName);
+    if (!adapter) {
+      throw new Error(`Protocol ${protocolName} not supported`);
+    }
+    return adapter;
+  }
+
+  private getAccountAdapter(protocolName: string, account: string): ProtocolAdapter {
+    if (!ethers.isAddress(account)) {
+      throw new Error(`Invalid account address: ${account}`);
+    }
+    const adapter = this.getSupportedAdapter(protocolName);
+    if (!adapter.getAccountPosition) {
+      throw new Error(`Protocol ${protocolName} does not track account positions`);
+    }
+    return adapter;
+  }
+
+  /**
+   * Drop the cached pool verifications of a replaced or removed protocol
+   */
+  private forgetPoolVerifications(protocolName: string): void {
+    for (const cacheKey of this.poolVerifications.keys()) {
+      if (cacheKey.startsWith(`${protocolName}:`)) {
+        this.poolVerifications.delete(cacheKey);
+      }
+    }
+  }
+
+  private findProtocolByAddress(address: string): string | null {
+    const search = address.toLowerCase();
+    for (const [key, adapter] of this.adapters) {
+      const addresses = Object.values(adapter.config.contractAddresses);
+      if (addresses.some(candidate => candidate?.toLowerCase() === search)) {
+        return key;
+      }
+    }
+    return null;
+  }
+
+  private buildDetection(key: string, signal: DetectionSignal, address: string): ProtocolDetection {
+    const adapter = this.adapters.get(key)!;
     return {
-      action: 'stake' as const,
-      token: {
-        address: '0x...',
-        symbol: 'LP-USDC-WETH',
-        amount: '100'
+      protocol: adapter.key,
+      name: adapter.config.name,
+      signal,
+      address
+    };
+  }
+
+  /**
+   * Decode every Swap event in a receipt, across all protocols, and chain
+   * the hops into a single trade. An adapter that fails is skipped, keeping
+   * the hops the others decoded.
+   */
+  private async parseSwapLogs(logs: readonly ethers.Log[], blockTag?: ethers.BlockTag): Promise<ParsedSwap | null> {
+    const hops: SwapHop[] = [];
+    const context = this.createAdapterContext(blockTag);
+    for (const adapter of this.adapters.values()) {
+      if (!adapter.decodeSwaps) continue;
+
+      let decoded: SwapHop[];
+      try {
+        decoded = await adapter.decodeSwaps(logs, context);
+      } catch (error) {
+        console.error(`Error decoding ${adapter.key} swaps:`, error);
+        continue;
+      }
+      if (adapter.getHopPriceImpact) {
+        for (const hop of decoded) {
+          const priceImpact = await adapter.getHopPriceImpact(hop, logs, context).catch(() => null);
+          if (priceImpact !== null) hop.priceImpact = priceImpact;
+        }
+      }
+      hops.push(...decoded);
+    }
+
+    if (hops.length === 0) {
+      return null;
+    }
+
+    return this.summarizeRoute(hops);
+  }
+
+  /**
+   * Decode the block's other swaps through each pool on the route, from
+   * the contracts that emitted the route's swap logs, and look for
+   * transactions trading around this one
+   */
+  private async detectMev(
+    tx: ethers.TransactionResponse,
+    receipt: ethers.TransactionReceipt,
+    swap: ParsedSwap
+  ): Promise<MevAnalysis> {
+    const context = this.createAdapterContext(receipt.blockNumber);
+    const blockSwaps: BlockSwap[] = [];
+    const swapLogs = new Map<BlockSwap, readonly ethers.Log[]>();
+    const scanned = new Set<string>();
+
+    for (const hop of swap.route) {
+      const emitter = receipt.logs.find(log => log.index === hop.logIndex)?.address;
+      const adapter = this.adapters.get(hop.poolType);
+      if (!emitter || !adapter?.decodeSwaps || scanned.has(emitter.toLowerCase())) continue;
+      scanned.add(emitter.toLowerCase());
+
+      const logs = await this.provider.getLogs({ address: emitter, fromBlock: receipt.blockNumber, toBlock: receipt.blockNumber });
+      for (const decoded of await adapter.decodeSwaps(logs, context)) {
+        const log = logs.find(candidate => candidate.index === decoded.logIndex)!;
+        const blockSwap = { hop: decoded, transactionHash: log.transactionHash, transactionIndex: log.transactionIndex };
+        blockSwaps.push(blockSwap);
+        swapLogs.set(blockSwap, logs);
+      }
+    }
+
+    return MevDetector.detect({
+      victim: { hash: tx.hash, transactionIndex: receipt.index, from: tx.from, to: tx.to },
+      route: swap.route,
+      tokenOut: swap.tokenOut,
+      blockSwaps,
+      getTransaction: async hash => {
+        const neighbour = await this.provider.getTransaction(hash);
+        if (!neighbour) {
+          throw new Error(`Transaction ${hash} not found`);
+        }
+        return { hash, transactionIndex: neighbour.index, from: neighbour.from, to: neighbour.to };
+      },
+      getPriceImpact: async blockSwap => {
+        const adapter = this.adapters.get(blockSwap.hop.poolType);
+        return adapter?.getHopPriceImpact
+          ? adapter.getHopPriceImpact(blockSwap.hop, swapLogs.get(blockSwap)!, context).catch(() => null)
+          : null;
       },
-      rewards: [{
-        token: 'AERO',
-        amount: '10',
-        apr: 15.5
-      }],
-      lockPeriod: 0
+      isPublicContract: address => this.findProtocolByAddress(address) !== null
+    });
+  }
+
+  /**
+   * The slippage bound in a call to a registered router, measured against
+   * the route's executed input or output
+   */
+  private decodeSlippageLimit(tx: ethers.TransactionResponse, swap: ParsedSwap): SlippageLimit | null {
+    const key = tx.to ? this.findProtocolByAddress(tx.to) : null;
+    const adapter = key ? this.adapters.get(key) : undefined;
+    if (!adapter?.decodeSwapLimit) {
+      return null;
+    }
+
+    let limit: SwapLimit | null;
+    try {
+      limit = adapter.decodeSwapLimit(tx.data);
+    } catch {
+      return null;
+    }
+    if (!limit) {
+      return null;
+    }
+
+    const token = limit.kind === 'exactInput' ? swap.tokenOut : swap.tokenIn;
+    return {
+      kind: limit.kind,
+      limit: ethers.formatUnits(limit.amount, token.decimals),
+      executed: token.amount
     };
   }
 
-  private async getUniswapV3TVL(): Promise<number> {
-    // Implementation would query Uniswap V3 factory and sum pool TVLs
-    return 50000000; // $50M placeholder
+  private calculateSlippageTolerance({ kind, limit, executed }: SlippageLimit): number {
+    const executedAmount = parseFloat(executed);
+    if (executedAmount === 0) {
+      return 0;
+    }
+    const slack = kind === 'exactInput'
+      ? executedAmount - parseFloat(limit)
+      : parseFloat(limit) - executedAmount;
+    return (slack / executedAmount) * 100;
   }
 
-  private async getAerodromeTVL(): Promise<number> {
-    // Implementation would query Aerodrome contracts
-    return 100000000; // $100M placeholder
+  /**
+   * Chain hops in log order. Split routes (several paths sharing the same
+   * input and output token) are summed and their fees and price impacts
+   * amount-weighted; hops without a measurable impact count as none.
+   */
+  private summarizeRoute(hops: SwapHop[]): ParsedSwap {
+    const route = [...hops].sort((a, b) => a.logIndex - b.logIndex);
+    const inputToken = route[0].tokenIn;
+    const outputToken = route[route.length - 1].tokenOut;
+    const isInput = (token: TokenInfo) => token.address.toLowerCase() === inputToken.address.toLowerCase();
+    const isOutput = (token: TokenInfo) => token.address.toLowerCase() === outputToken.address.toLowerCase();
+
+    const paths: SwapHop[][] = [];
+    for (const hop of route) {
+      if (paths.length === 0 || isInput(hop.tokenIn)) {
+        paths.push([hop]);
+      } else {
+        paths[paths.length - 1].push(hop);
+      }
+    }
+
+    let amountIn = 0n;
+    let amountOut = 0n;
+    let weightedFee = 0;
+    let weightedImpact = 0;
+
+    for (const path of paths) {
+      const pathIn = isInput(path[0].tokenIn)
+        ? ethers.parseUnits(path[0].tokenIn.amount, inputToken.decimals)
+        : 0n;
+      const last = path[path.length - 1];
+      const pathOut = isOutput(last.tokenOut)
+        ? ethers.parseUnits(last.tokenOut.amount, outputToken.decimals)
+        : 0n;
+      const pathFee = 1 - path.reduce((kept, hop) => kept * (1 - hop.fee / 100), 1);
+      const pathImpact = 1 - path.reduce((kept, hop) => kept * (1 - (hop.priceImpact ?? 0) / 100), 1);
+
+      amountIn += pathIn;
+      amountOut += pathOut;
+      weightedFee += pathFee * Number(pathIn);
+      weightedImpact += pathImpact * Number(pathIn);
+    }
+
+    const amountInFormatted = ethers.formatUnits(amountIn, inputToken.decimals);
+    const amountOutFormatted = ethers.formatUnits(amountOut, outputToken.decimals);
+    const outputAmount = parseFloat(amountOutFormatted);
+
+    return {
+      tokenIn: { address: inputToken.address, symbol: inputToken.symbol, decimals: inputToken.decimals, amount: amountInFormatted },
+      tokenOut: { address: outputToken.address, symbol: outputToken.symbol, decimals: outputToken.decimals, amount: amountOutFormatted },
+      // Price paid: units of tokenIn per unit of tokenOut
+      exchangeRate: outputAmount > 0 ? parseFloat(amountInFormatted) / outputAmount : 0,
+      priceImpact: amountIn > 0n ? (weightedImpact / Number(amountIn)) * 100 : route[0].priceImpact ?? 0,
+      fee: amountIn > 0n ? (weightedFee / Number(amountIn)) * 100 : route[0].fee,
+      route
+    };
   }
 
-  private async getCompoundV3TVL(): Promise<number> {
-    // Implementation would query Compound V3 markets
-    return 25000000; // $25M placeholder
+  /**
+   * Resolve ERC-20 symbol and decimals, preferring the known Base token list
+   */
+  private async getTokenInfo(address: string): Promise<TokenInfo> {
+    const cacheKey = address.toLowerCase();
+    const cached = this.tokenCache.get(cacheKey);
+    if (cached) {
+      return cached;
+    }
+
+    const known = BaseNetworkUtils.getTokenInfo(address);
+    let token: TokenInfo;
+    if (known) {
+      token = { address: known.address, symbol: known.symbol, decimals: known.decimals };
+    } else {
+      const contract = new ethers.Contract(address, ERC20_METADATA_ABI, this.provider);
+      const [symbol, decimals] = await Promise.all([
+        (contract.symbol() as Promise<string>).catch(() => 'UNKNOWN'),
+        (contract.decimals() as Promise<bigint>).catch(() => 18n)
+      ]);
+      token = { address, symbol, decimals: Number(decimals) };
+    }
+
+    this.tokenCache.set(cacheKey, token);
+    return token;
   }
 
   // Advanced analytics methods
-  async getArbitrageOpportunities(): Promise<any[]> {
-    // Implementation would compare prices across protocols
-    return [];
+  /**
+   * Two-pool arbitrage between DEX pools trading the same pair, for every
+   * pair in the token set, evaluated at a single pinned block
+   */
+  async getArbitrageOpportunities(options: ArbitrageOptions = {}): Promise<ArbitrageOpportunity[]> {
+    const blockNumber = await resolveBlockNumber(this.createAdapterContext(options.blockTag));
+    const context = { ...this.createAdapterContext(blockNumber), blockTag: blockNumber };
+    const tokens = await Promise.all(
+      (options.tokens ?? DEFAULT_ARBITRAGE_TOKENS).map(address => this.getTokenInfo(address))
+    );
+
+    return ArbitrageScanner.scan(
+      [...this.adapters.values()],
+      tokens,
+      context,
+      options.priceSource ?? this.priceSource,
+      options.priorityFeePerGas
+    );
   }
 
+  /**
+   * Impermanent loss of a full-range position between two prices, as a
+   * percentage. Concentrated positions are covered by getPositionImpermanentLoss.
+   *
+   * @deprecated poolAddress is ignored, since a pool has no single range;
+   * use getPositionImpermanentLoss for a position's range, liquidity and
+   * fees, or ImpermanentLossCalculator.fullRange for the formula alone
+   */
   async getImpermanentLossCalculation(
     poolAddress: string,
     entryPrice: number,
     currentPrice: number
   ): Promise<number> {
-    // Calculate impermanent loss based on price changes
-    const priceRatio = currentPrice / entryPrice;
-    const impermanentLoss = (2 * Math.sqrt(priceRatio)) / (1 + priceRatio) - 1;
-    return Math.abs(impermanentLoss) * 100; // Return as percentage
+    return ImpermanentLossCalculator.fullRange(entryPrice, currentPrice);
   }
 
+  /**
+   * Impermanent loss of a concentrated liquidity position NFT at its pool's
+   * price, against holding what it was opened with at entryPrice (token0
+   * priced in token1). Uncollected fees count toward the net return.
+   */
+  async getPositionImpermanentLoss(
+    protocolName: string,
+    positionId: string,
+    entryPrice: number,
+    options: PositionImpermanentLossOptions = {}
+  ): Promise<PositionImpermanentLoss> {
+    const adapter = this.getSupportedAdapter(protocolName);
+    if (!adapter.getPosition) {
+      throw new Error(`Protocol ${protocolName} does not have liquidity positions`);
+    }
+
+    const position = await adapter.getPosition(positionId, this.createAdapterContext(options.blockTag));
+    if (!position) {
+      throw new Error(`Position ${positionId} not found on ${protocolName}`);
+    }
+    return ImpermanentLossCalculator.fromPosition(position, entryPrice);
+  }
+
+  /**
+   * Impermanent loss over a grid of hypothetical prices for a position over
+   * range opened at entryPrice; half to twice the entry price by default
+   */
+  simulateImpermanentLoss(entryPrice: number, range: PriceRange, grid: PriceGridOptions = {}): ImpermanentLossPoint[] {
+    return ImpermanentLossCalculator.simulate(range, entryPrice, grid);
+  }
+
+  /**
+   * Quote swapping amountIn (in tokenIn base units) on every DEX that can
+   * quote, directly and through WETH or USDC. Routes are ranked by expected
+   * output net of gas, best first, and empty when nothing can fill the swap.
+   */
   async getOptimalSwapRoute(
     tokenIn: string,
     tokenOut: string,
-    amountIn: string
-  ): Promise<any> {
-    // Implementation would find best route across all protocols
-    return {
-      protocol: 'uniswap-v3',
-      route: [tokenIn, tokenOut],
-      expectedOutput: '0',
-      priceImpact: 0,
-      gasEstimate: 150000
-    };
+    amountIn: string,
+    options: SwapRouteOptions = {}
+  ): Promise<SwapRoute[]> {
+    if (tokenIn.toLowerCase() === tokenOut.toLowerCase()) {
+      throw new Error('tokenIn and tokenOut must differ');
+    }
+
+    const blockNumber = await resolveBlockNumber(this.createAdapterContext(options.blockTag));
+    const context = { ...this.createAdapterContext(blockNumber), blockTag: blockNumber };
+    const [tokenInInfo, tokenOutInfo] = await Promise.all([
+      this.getTokenInfo(tokenIn),
+      this.getTokenInfo(tokenOut)
+    ]);
+
+    return SwapRouter.findRoutes(
+      [...this.adapters.values()],
+      tokenInInfo,
+      tokenOutInfo,
+      BigInt(amountIn),
+      context,
+      options.priceSource ?? this.priceSource,
+      options.priorityFeePerGas
+    );
   }
 }
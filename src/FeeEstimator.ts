@@ -0,0 +1,151 @@
+/**
+ * Fee Estimator
+ *
+ * EIP-1559 fee suggestions for Base from eth_feeHistory. Each tier's
+ * priority fee is the median, over a window of recent blocks, of the
+ * reward paid at the tier's percentile. Inclusion times come from the same
+ * window: a block had room for any tip unless it was nearly full, in which
+ * case the tip had to match the lowest reward it included. The share of
+ * blocks a tip would have made it into gives the expected wait.
+ */
+
+import { ethers } from 'ethers';
+import { BASE_CONSTANTS } from './config';
+import { L1FeeCalculator, L1FeeModel } from './L1FeeCalculator';
+
+export interface FeeTier {
+  /** Reward percentile the tier tracks */
+  percentile: number;
+  maxFeePerGas: string;
+  maxPriorityFeePerGas: string;
+  /** Next block's base fee plus the priority fee, what the tier should actually pay */
+  expectedGasPrice: string;
+  /** Share of the window's blocks that would have included the tier's tip */
+  inclusionRate: number;
+  /** Expected wait for inclusion, null when no block in the window would have included it */
+  estimatedInclusionSeconds: number | null;
+}
+
+export interface FeeEstimate {
+  /** Newest block of the window */
+  blockNumber: number;
+  blockCount: number;
+  /** Base fee of the block after the window */
+  baseFeePerGas: string;
+  slow: FeeTier;
+  standard: FeeTier;
+  fast: FeeTier;
+  /** L1 data fee of the payload in wei, when one was given */
+  l1DataFee?: string;
+  l1FeeModel?: L1FeeModel;
+}
+
+export interface FeeEstimateOptions {
+  /** Blocks in the window, 20 by default */
+  blockCount?: number;
+  /** Last block of the window, latest by default */
+  newestBlock?: ethers.BlockTag;
+  /** Reward percentiles of the tiers, 10, 50 and 90 by default */
+  percentiles?: { slow: number; standard: number; fast: number };
+  /** Calldata to price the L1 data fee for */
+  data?: string;
+}
+
+interface FeeHistory {
+  oldestBlock: string;
+  baseFeePerGas: string[];
+  gasUsedRatio: number[];
+  reward?: string[][];
+}
+
+const DEFAULT_BLOCK_COUNT = 20;
+const MAX_BLOCK_COUNT = 1024;
+const DEFAULT_PERCENTILES = { slow: 10, standard: 50, fast: 90 };
+
+// Lowest reward a block included, approximately
+const INCLUSION_PERCENTILE = 1;
+// Blocks fuller than this only had room for competitive tips
+const CONGESTED_GAS_USED_RATIO = 0.95;
+// Room for the base fee to double before the transaction lands, as ethers does
+const BASE_FEE_MULTIPLIER = 2n;
+
+export class FeeEstimator {
+  /**
+   * Slow, standard and fast fee tiers from the window's reward
+   * percentiles, with the L1 data fee of options.data when given
+   */
+  static async estimate(provider: ethers.JsonRpcApiProvider, options: FeeEstimateOptions = {}): Promise<FeeEstimate> {
+    const blockCount = options.blockCount ?? DEFAULT_BLOCK_COUNT;
+    if (!Number.isInteger(blockCount) || blockCount < 1 || blockCount > MAX_BLOCK_COUNT) {
+      throw new Error(`Block count must be a whole number from 1 to ${MAX_BLOCK_COUNT}`);
+    }
+    const percentiles = options.percentiles ?? DEFAULT_PERCENTILES;
+    const tierPercentiles = [percentiles.slow, percentiles.standard, percentiles.fast];
+    if (tierPercentiles.some(p => !(p >= 0 && p <= 100)) || !(percentiles.slow <= percentiles.standard && percentiles.standard <= percentiles.fast)) {
+      throw new Error('Percentiles must be between 0 and 100, with slow <= standard <= fast');
+    }
+
+    const newestBlock = typeof options.newestBlock === 'number'
+      ? ethers.toQuantity(options.newestBlock)
+      : options.newestBlock ?? 'latest';
+    // eth_feeHistory wants strictly increasing percentiles, so tiers may share a column
+    const rewardPercentiles = [...new Set([INCLUSION_PERCENTILE, ...tierPercentiles])].sort((a, b) => a - b);
+    const history: FeeHistory = await provider.send('eth_feeHistory', [
+      ethers.toQuantity(blockCount),
+      newestBlock,
+      rewardPercentiles
+    ]);
+
+    const rewards = (history.reward ?? []).map(block => block.map(reward => BigInt(reward)));
+    if (rewards.length === 0) {
+      throw new Error('Fee history returned no blocks');
+    }
+    const nextBaseFee = BigInt(history.baseFeePerGas[history.baseFeePerGas.length - 1]);
+    const inclusionColumn = rewardPercentiles.indexOf(INCLUSION_PERCENTILE);
+    const thresholds = rewards.map((block, i) =>
+      history.gasUsedRatio[i] >= CONGESTED_GAS_USED_RATIO ? block[inclusionColumn] : 0n);
+
+    const [slow, standard, fast] = tierPercentiles.map(percentile => {
+      const column = rewardPercentiles.indexOf(percentile);
+      const priorityFee = median(rewards.map(block => block[column]));
+      const inclusionRate = thresholds.filter(threshold => priorityFee >= threshold).length / thresholds.length;
+      return {
+        percentile,
+        maxFeePerGas: (nextBaseFee * BASE_FEE_MULTIPLIER + priorityFee).toString(),
+        maxPriorityFeePerGas: priorityFee.toString(),
+        expectedGasPrice: (nextBaseFee + priorityFee).toString(),
+        inclusionRate,
+        // Each block is an independent chance, so the wait is geometric
+        estimatedInclusionSeconds: inclusionRate > 0 ? BASE_CONSTANTS.BLOCK_TIME_SECONDS / inclusionRate : null
+      };
+    });
+
+    const blockNumber = Number(BigInt(history.oldestBlock)) + rewards.length - 1;
+    const estimate: FeeEstimate = {
+      blockNumber,
+      blockCount: rewards.length,
+      baseFeePerGas: nextBaseFee.toString(),
+      slow,
+      standard,
+      fast
+    };
+
+    if (options.data !== undefined) {
+      const params = await L1FeeCalculator.fetchFeeParams(provider, blockNumber);
+      estimate.l1DataFee = L1FeeCalculator.calculateL1Fee(options.data, params).l1Fee.toString();
+      estimate.l1FeeModel = params.model;
+    }
+
+    return estimate;
+  }
+}
+
+/**
+ * Lower median of a non-empty list
+ */
+function median(values: bigint[]): bigint {
+  const sorted = [...values].sort((a, b) => (a < b ? -1 : a > b ? 1 : 0));
+  return sorted[Math.floor((sorted.length - 1) / 2)];
+}
+
+export default FeeEstimator;
@@ -0,0 +1,111 @@
+/**
+ * Flash Loan Detector
+ *
+ * Describes flash loans decoded from a receipt: what was borrowed, the fee
+ * and which protocols were used while the loan was outstanding. Receipts
+ * carry no call trace, so the loan is bounded by its token transfers: from
+ * the lender sending the amount to the receiver, to the receiver paying
+ * back the amount plus fee. Also recognises flash loan events by topic
+ * alone, for coarse transaction categorisation.
+ */
+
+import { ethers } from 'ethers';
+import { SupportedProtocol } from './config';
+import { TokenInfo } from './DeFiProtocolAnalyzer';
+import { AAVE_FLASH_LOAN_TOPIC } from './protocols/AaveV3Adapter';
+import { BALANCER_FLASH_LOAN_TOPIC } from './protocols/BalancerV2Adapter';
+import { MORPHO_FLASH_LOAN_TOPIC } from './protocols/MorphoBlueAdapter';
+import { UNISWAP_V3_FLASH_TOPIC } from './protocols/UniswapV3Adapter';
+import { FlashLoanData } from './protocols/types';
+import { ERC20_TRANSFER_TOPIC, topicToAddress } from './protocols/utils';
+
+export interface FlashLoan {
+  protocol: SupportedProtocol;
+  lender: string;
+  receiver: string;
+  token: TokenInfo;
+  /** Whole tokens borrowed */
+  amount: string;
+  /** Whole tokens paid back on top of the amount */
+  fee: string;
+  logIndex: number;
+  /** Protocols that emitted logs while the loan was outstanding, in order of first appearance */
+  protocols: SupportedProtocol[];
+}
+
+// Flash loan events of the built-in lenders, which is all a topic check can know
+const FLASH_LOAN_TOPICS = [AAVE_FLASH_LOAN_TOPIC, BALANCER_FLASH_LOAN_TOPIC, UNISWAP_V3_FLASH_TOPIC, MORPHO_FLASH_LOAN_TOPIC];
+
+export class FlashLoanDetector {
+  /**
+   * Attach to each loan the protocols whose logs fall inside it
+   */
+  static async describe(
+    protocol: SupportedProtocol,
+    loans: FlashLoanData[],
+    logs: readonly ethers.Log[],
+    attributeLog: (log: ethers.Log) => Promise<SupportedProtocol | null>
+  ): Promise<FlashLoan[]> {
+    const sorted = [...logs].sort((a, b) => a.index - b.index);
+
+    return Promise.all(loans.map(async loan => {
+      const { start, end } = FlashLoanDetector.findWindow(loan, sorted);
+      const protocols: SupportedProtocol[] = [];
+      for (const log of sorted) {
+        if (log.index <= start || log.index >= end) continue;
+        const key = await attributeLog(log);
+        if (key && !protocols.includes(key)) {
+          protocols.push(key);
+        }
+      }
+
+      return {
+        protocol,
+        lender: loan.lender,
+        receiver: loan.receiver,
+        token: loan.token,
+        amount: ethers.formatUnits(loan.amount, loan.token.decimals),
+        fee: ethers.formatUnits(loan.fee, loan.token.decimals),
+        logIndex: loan.logIndex,
+        protocols
+      };
+    }));
+  }
+
+  /**
+   * Whether any log carries a flash loan event of a built-in lender.
+   * Emitters are not verified, so this only suits categorisation.
+   */
+  static isFlashLoan(logs: readonly { topics: readonly string[] }[]): boolean {
+    return logs.some(log => FLASH_LOAN_TOPICS.includes(log.topics[0]));
+  }
+
+  /**
+   * Log indexes that bound the loan, both exclusive. Without a matching
+   * transfer the loan is bounded by its event: closed by it for lenders
+   * that emit once repaid, opened by it for those that emit before lending.
+   */
+  private static findWindow(loan: FlashLoanData, logs: readonly ethers.Log[]): { start: number; end: number } {
+    const transfers = logs
+      .filter(log => log.topics[0] === ERC20_TRANSFER_TOPIC && log.topics.length === 3)
+      .filter(log => log.address.toLowerCase() === loan.token.address.toLowerCase());
+    const isDisbursement = (log: ethers.Log) =>
+      topicToAddress(log.topics[2]) === loan.receiver.toLowerCase() && BigInt(log.data) === loan.amount;
+    const isRepayment = (log: ethers.Log) =>
+      topicToAddress(log.topics[1]) === loan.receiver.toLowerCase() && BigInt(log.data) === loan.amount + loan.fee;
+
+    const openedByEvent = loan.emittedBeforeLending === true;
+    const disbursement = openedByEvent
+      ? transfers.find(log => log.index > loan.logIndex && isDisbursement(log))
+      : transfers.filter(log => log.index < loan.logIndex && isDisbursement(log)).pop();
+    const start = disbursement?.index ?? (openedByEvent ? loan.logIndex : -1);
+
+    const repayment = transfers.find(log =>
+      log.index > start && (openedByEvent || log.index < loan.logIndex) && isRepayment(log));
+    const end = repayment?.index ?? (openedByEvent ? Infinity : loan.logIndex);
+
+    return { start, end };
+  }
+}
+
+export default FlashLoanDetector;
@@ -1,31 +1,179 @@
-src/GasOptimizer.ts  import { ethers } from 'ethers';
+import { ethers } from 'ethers';
 import { BaseTransaction } from './BaseTransactionAnalyzer';
+import { BASE_CONSTANTS } from './config';
+import { TokenInfo } from './DeFiProtocolAnalyzer';
+import { GAS_PRICE_ORACLE_ABI, GAS_PRICE_ORACLE_ADDRESS, L1FeeCalculator, L1FeeModel, L1FeeParams } from './L1FeeCalculator';
+import { PriceSource, UniswapV3PriceSource } from './PriceSource';
+import { FeeEstimator } from './FeeEstimator';
+import { GasPriceHistory, GasPriceHistoryOptions, GasPriceHistoryReport, GasPriceStore, MemoryGasPriceStore } from './GasPriceHistory';
 
 export interface GasOptimizationSuggestion {
-  type: 'gas_price' | 'gas_limit' | 'contract_optimization' | 'batch_transactions';
+  type: 'gas_price' | 'gas_limit' | 'contract_optimization' | 'batch_transactions' | 'calldata_size';
   description: string;
   potentialSavings: string;
   confidence: 'high' | 'medium' | 'low';
   implementation: string;
 }
 
+export interface GasCostBreakdown {
+  l2ExecutionCost: string;
+  l1DataCost: string;
+  l1DataCostShare: number;
+  l1FeeModel?: L1FeeModel;
+}
+
+/**
+ * How much of their gas limit a batch of transactions used, as fractions
+ * of the limit
+ */
+export interface GasLimitUtilization {
+  /** Transactions that carried a gas limit */
+  count: number;
+  min: number;
+  median: number;
+  mean: number;
+  p90: number;
+  max: number;
+  buckets: { range: string; count: number }[];
+  /** Transactions using less of their limit than the optimal threshold */
+  overProvisioned: number;
+}
+
+/**
+ * A gas limit for one contract method, learned from its past executions
+ */
+export interface MethodGasLimit {
+  contract: string;
+  /** 4-byte selector of the method */
+  selector: string;
+  samples: number;
+  medianGasUsed: string;
+  maxGasUsed: string;
+  recommendedGasLimit: string;
+  /** Median fraction of their limit the executions used, null when none carried one */
+  medianUtilization: number | null;
+}
+
+/**
+ * What inclusion cost in a transaction's block
+ */
+export interface BlockFeeContext {
+  blockNumber: number;
+  baseFeePerGas: string;
+  /** Lowest priority fee per gas another user transaction in the block paid, null when it had none */
+  minPriorityFeePerGas: string | null;
+}
+
+/**
+ * Priority fee paid beyond what inclusion in the block needed, in wei per
+ * gas unless noted
+ */
+export interface FeeOverpayment {
+  baseFeePerGas: string;
+  effectiveGasPrice: string;
+  /** Effective gas price above the base fee */
+  priorityFeePerGas: string;
+  /** Lowest priority fee included in the block, null when it had no other user transactions or they are unknown */
+  requiredPriorityFeePerGas: string | null;
+  /** How many times the base fee maxFeePerGas allowed, null for legacy transactions */
+  maxFeeMultiple: number | null;
+  overpaidPerGas: string;
+  /** Overpaid priority fee times gas used, in ETH */
+  overpayment: string;
+  /** The overpayment as a share of the L2 execution cost */
+  overpaymentShare: number;
+}
+
+/**
+ * How much headroom to give a call's estimated gas, from how much the gas
+ * used by past executions of the same method varied
+ */
+export interface GasSafetyMargin {
+  percent: number;
+  /** 'history' when enough executions of the method were recorded, else the default buffer */
+  basis: 'history' | 'default';
+  samples: number;
+  /** Standard deviation of the recorded gas used over its mean, null without history */
+  volatility: number | null;
+}
+
+/**
+ * What an unsigned transaction is expected to cost, costs in ETH and fees
+ * in wei per gas
+ */
+export interface PreflightGasEstimate {
+  /** eth_estimateGas result */
+  gasEstimate: string;
+  /** The estimate plus the safety margin */
+  recommendedGasLimit: string;
+  safetyMargin: GasSafetyMargin;
+  maxFeePerGas: string;
+  maxPriorityFeePerGas: string;
+  expectedGasPrice: string;
+  /** Estimated gas at the expected gas price */
+  l2ExecutionCost: string;
+  /** GasPriceOracle getL1Fee of the serialized transaction */
+  l1DataCost: string;
+  totalCost: string;
+  ethPriceUsd: number | null;
+  totalCostUsd: number | null;
+}
+
+export interface PreflightOptions {
+  from?: string;
+  value?: bigint;
+  /** Prices ETH for totalCostUsd, Uniswap V3 on Base by default */
+  priceSource?: PriceSource;
+}
+
 export interface OptimizationReport {
   currentGasCost: string;
   optimizedGasCost: string;
   totalSavings: string;
   savingsPercentage: number;
+  costBreakdown: GasCostBreakdown;
+  /** Present when the block's base fee is known */
+  feeOverpayment?: FeeOverpayment;
   suggestions: GasOptimizationSuggestion[];
 }
 
+const WETH: TokenInfo = { address: '0x4200000000000000000000000000000000000006', symbol: 'WETH', decimals: 18 };
+
 export class GasOptimizer {
-  private readonly BASE_GAS_PRICE_GWEI = 0.1;
+  // Only for estimateOptimalGasPrice when the node cannot be reached
+  private readonly FALLBACK_GAS_PRICE_GWEI = 0.1;
+  private readonly OVERPAYMENT_SHARE_THRESHOLD = 0.1;
+  private readonly DEPOSIT_TRANSACTION_TYPE = 126;
   private readonly OPTIMAL_GAS_USAGE_THRESHOLD = 0.7;
+  private readonly L1_DOMINANT_SHARE = 0.5;
+  private readonly CALLDATA_REDUCTION_RATIO = 0.3;
+  private readonly GAS_LIMIT_BUFFER_PERCENT = 15n;
+  private readonly UTILIZATION_BUCKETS = [0.25, 0.5, 0.7, 0.9, 1];
+  // Executions of a method needed before its gas usage volatility is trusted
+  private readonly MIN_VOLATILITY_SAMPLES = 5;
+  // Standard deviations of gas usage the safety margin covers
+  private readonly VOLATILITY_MARGIN_DEVIATIONS = 2;
+
+  // Successful executions per contract method, keyed `${to}:${selector}`
+  private executions: Map<string, { gasUsed: bigint; gasLimit?: bigint }[]> = new Map();
+  private recordedHashes: Set<string> = new Set();
+  private gasPriceStore: GasPriceStore;
 
-  analyzeGasUsage(transaction: BaseTransaction): OptimizationReport {
+  constructor(gasPriceStore: GasPriceStore = new MemoryGasPriceStore()) {
+    this.gasPriceStore = gasPriceStore;
+  }
+
+  /**
+   * Suggest gas savings for a transaction. Priority fee overpayment is
+   * judged against blockFees when given, the lowest tip its block included.
+   */
+  analyzeGasUsage(transaction: BaseTransaction, blockFees?: BlockFeeContext): OptimizationReport {
     const suggestions: GasOptimizationSuggestion[] = [];
+    const costBreakdown = this.calculateCostBreakdown(transaction);
     const currentGasCost = this.calculateGasCost(transaction);
+    const feeOverpayment = this.analyzeFeeOverpayment(transaction, blockFees) ?? undefined;
     
-    const gasPriceSuggestion = this.analyzeGasPrice(transaction);
+    const gasPriceSuggestion = this.analyzeGasPrice(transaction, feeOverpayment);
     if (gasPriceSuggestion) suggestions.push(gasPriceSuggestion);
     
     const gasLimitSuggestion = this.analyzeGasLimit(transaction);
@@ -34,51 +182,265 @@ export class GasOptimizer {
     const contractSuggestion = this.analyzeContractOptimization(transaction);
     if (contractSuggestion) suggestions.push(contractSuggestion);
     
+    const calldataSuggestion = this.analyzeCalldataSize(transaction, costBreakdown);
+    if (calldataSuggestion) suggestions.push(calldataSuggestion);
+    
     const totalSavings = this.calculateTotalSavings(suggestions, currentGasCost);
     const optimizedGasCost = (parseFloat(currentGasCost) - parseFloat(totalSavings)).toString();
-    const savingsPercentage = (parseFloat(totalSavings) / parseFloat(currentGasCost)) * 100;
+    const savingsPercentage = parseFloat(currentGasCost) > 0
+      ? (parseFloat(totalSavings) / parseFloat(currentGasCost)) * 100
+      : 0;
     
     return {
       currentGasCost,
       optimizedGasCost,
       totalSavings,
       savingsPercentage,
+      costBreakdown,
+      feeOverpayment,
       suggestions
     };
   }
 
-  private analyzeGasPrice(transaction: BaseTransaction): GasOptimizationSuggestion | null {
-    const gasPriceGwei = parseFloat(ethers.formatUnits(transaction.gasPrice, 'gwei'));
-    
-    if (gasPriceGwei > this.BASE_GAS_PRICE_GWEI * 2) {
-      return {
-        type: 'gas_price',
-        description: 'Gas price is significantly higher than Base network average',
-        potentialSavings: this.calculateGasPriceSavings(transaction),
-        confidence: 'high',
-        implementation: 'Reduce gas price to 0.1-0.2 Gwei for Base network transactions'
-      };
+  /**
+   * Split the total cost into L2 execution and the L1 data fee charged
+   * through the GasPriceOracle
+   */
+  calculateCostBreakdown(transaction: BaseTransaction): GasCostBreakdown {
+    const l2CostWei = BigInt(transaction.gasUsed) * BigInt(transaction.gasPrice);
+    const feeParams = this.getL1FeeParams(transaction);
+    const l1CostWei = this.calculateL1DataCost(transaction, feeParams);
+    const totalWei = l2CostWei + l1CostWei;
+
+    return {
+      l2ExecutionCost: ethers.formatEther(l2CostWei),
+      l1DataCost: ethers.formatEther(l1CostWei),
+      l1DataCostShare: totalWei > 0n ? Number(l1CostWei * 10000n / totalWei) / 10000 : 0,
+      l1FeeModel: feeParams?.model
+    };
+  }
+
+  /**
+   * Estimate the L1 data fee a payload would pay under the given parameters
+   */
+  estimateL1DataFee(data: string, params: L1FeeParams): string {
+    return ethers.formatEther(L1FeeCalculator.calculateL1Fee(data, params).l1Fee);
+  }
+
+  /**
+   * Compare the priority fee a transaction paid over its block's base fee
+   * with the lowest one the block included, or with none when the block
+   * had no other user transactions or they are unknown, in which case any
+   * suggestion carries low confidence. Null without a base fee.
+   */
+  analyzeFeeOverpayment(transaction: BaseTransaction, blockFees?: BlockFeeContext): FeeOverpayment | null {
+    const baseFeeSource = blockFees?.baseFeePerGas ?? transaction.baseFeePerGas;
+    if (baseFeeSource === undefined) {
+      return null;
     }
-    
-    return null;
+
+    const baseFee = BigInt(baseFeeSource);
+    const effectiveGasPrice = BigInt(transaction.effectiveGasPrice ?? transaction.gasPrice);
+    const priorityFee = effectiveGasPrice > baseFee ? effectiveGasPrice - baseFee : 0n;
+    // Without another user transaction in the block there is no tip to compare against
+    const requiredPriorityFee = blockFees?.minPriorityFeePerGas != null ? BigInt(blockFees.minPriorityFeePerGas) : null;
+    const overpaidPerGas = priorityFee > (requiredPriorityFee ?? 0n) ? priorityFee - (requiredPriorityFee ?? 0n) : 0n;
+
+    const gasUsed = BigInt(transaction.gasUsed);
+    const l2CostWei = gasUsed * effectiveGasPrice;
+    const overpaymentWei = overpaidPerGas * gasUsed;
+
+    return {
+      baseFeePerGas: baseFee.toString(),
+      effectiveGasPrice: effectiveGasPrice.toString(),
+      priorityFeePerGas: priorityFee.toString(),
+      requiredPriorityFeePerGas: requiredPriorityFee?.toString() ?? null,
+      maxFeeMultiple: transaction.maxFeePerGas && baseFee > 0n
+        ? Number(BigInt(transaction.maxFeePerGas) * 100n / baseFee) / 100
+        : null,
+      overpaidPerGas: overpaidPerGas.toString(),
+      overpayment: ethers.formatEther(overpaymentWei),
+      overpaymentShare: l2CostWei > 0n ? Number(overpaymentWei * 10000n / l2CostWei) / 10000 : 0
+    };
+  }
+
+  /**
+   * What inclusion cost in a block: its base fee and the lowest priority
+   * fee among its user transactions, other than the one being analyzed.
+   * The block must have been fetched with its transactions.
+   */
+  getBlockFeeContext(block: ethers.Block, excludeHash?: string): BlockFeeContext | null {
+    if (block.baseFeePerGas === null) {
+      return null;
+    }
+
+    const baseFee = block.baseFeePerGas;
+    const priorityFees = block.prefetchedTransactions
+      .filter(tx => tx.type !== this.DEPOSIT_TRANSACTION_TYPE && tx.hash !== excludeHash)
+      .map(tx => {
+        // Type-2 transactions pay the smaller of their tip and their headroom over the base fee
+        const headroom = (tx.maxFeePerGas ?? tx.gasPrice) - baseFee;
+        const tip = tx.maxPriorityFeePerGas !== null && tx.maxPriorityFeePerGas < headroom ? tx.maxPriorityFeePerGas : headroom;
+        return tip > 0n ? tip : 0n;
+      });
+    const minPriorityFee = priorityFees.reduce<bigint | null>((min, fee) => (min === null || fee < min ? fee : min), null);
+
+    return {
+      blockNumber: block.number,
+      baseFeePerGas: baseFee.toString(),
+      minPriorityFeePerGas: minPriorityFee?.toString() ?? null
+    };
   }
 
+  private analyzeGasPrice(transaction: BaseTransaction, overpayment?: FeeOverpayment): GasOptimizationSuggestion | null {
+    if (!overpayment || overpayment.overpaymentShare < this.OVERPAYMENT_SHARE_THRESHOLD) {
+      return null;
+    }
+
+    const gwei = (wei: string) => ethers.formatUnits(wei, 'gwei');
+    const required = overpayment.requiredPriorityFeePerGas;
+    const isLegacy = transaction.maxPriorityFeePerGas === undefined;
+
+    return {
+      type: 'gas_price',
+      description: required !== null
+        ? `Priority fee of ${gwei(overpayment.priorityFeePerGas)} gwei is ${gwei(overpayment.overpaidPerGas)} gwei above the ${gwei(required)} gwei that was enough for inclusion in the block`
+        : `Priority fee of ${gwei(overpayment.priorityFeePerGas)} gwei is ${(overpayment.overpaymentShare * 100).toFixed(1)}% of the execution cost`,
+      potentialSavings: overpayment.overpayment,
+      confidence: required !== null ? 'high' : 'low',
+      implementation: isLegacy
+        ? 'Send an EIP-1559 transaction with a small maxPriorityFeePerGas instead of a fixed gasPrice'
+        : `Set maxPriorityFeePerGas near ${gwei(required ?? '0')} gwei; maxFeePerGas only caps the price, so it can stay generous`
+    };
+  }
+
+  /**
+   * Remember successful executions so gas limits can be recommended per
+   * contract method. Failed executions, contract creations and plain
+   * transfers are skipped, as are transactions already recorded.
+   */
+  recordExecutions(transactions: BaseTransaction[]): void {
+    for (const transaction of transactions) {
+      const key = this.getMethodKey(transaction);
+      if (!key || transaction.status !== 1 || this.recordedHashes.has(transaction.hash)) continue;
+      this.recordedHashes.add(transaction.hash);
+
+      const executions = this.executions.get(key) ?? [];
+      executions.push({
+        gasUsed: BigInt(transaction.gasUsed),
+        gasLimit: transaction.gasLimit ? BigInt(transaction.gasLimit) : undefined
+      });
+      this.executions.set(key, executions);
+    }
+  }
+
+  /**
+   * Gas limit recommendations for every recorded contract method, the most
+   * executed first
+   */
+  getMethodGasLimits(): MethodGasLimit[] {
+    return [...this.executions.entries()]
+      .map(([key, executions]) => {
+        const [contract, selector] = key.split(':');
+        const gasUsed = executions.map(execution => execution.gasUsed).sort((a, b) => (a < b ? -1 : a > b ? 1 : 0));
+        const utilizations = executions
+          .filter(execution => execution.gasLimit)
+          .map(execution => Number(execution.gasUsed * 10000n / execution.gasLimit!) / 10000);
+        const maxGasUsed = gasUsed[gasUsed.length - 1];
+
+        return {
+          contract,
+          selector,
+          samples: executions.length,
+          medianGasUsed: gasUsed[Math.floor((gasUsed.length - 1) / 2)].toString(),
+          maxGasUsed: maxGasUsed.toString(),
+          recommendedGasLimit: this.addGasLimitBuffer(maxGasUsed).toString(),
+          medianUtilization: utilizations.length > 0 ? percentile(utilizations, 0.5) : null
+        };
+      })
+      .sort((a, b) => b.samples - a.samples);
+  }
+
+  /**
+   * Gas limit for a call learned from recorded executions of the same
+   * method, or null when none were recorded
+   */
+  getRecommendedGasLimit(to: string, data: string): string | null {
+    const key = `${to.toLowerCase()}:${data.slice(0, 10).toLowerCase()}`;
+    const executions = this.executions.get(key);
+    if (!executions) {
+      return null;
+    }
+
+    const maxGasUsed = executions.reduce((max, execution) => (execution.gasUsed > max ? execution.gasUsed : max), 0n);
+    return this.addGasLimitBuffer(maxGasUsed).toString();
+  }
+
+  /**
+   * Distribution of the share of their gas limit a batch of transactions
+   * used; transactions without a limit are left out
+   */
+  analyzeGasLimitUtilization(transactions: BaseTransaction[]): GasLimitUtilization {
+    const utilizations = transactions
+      .filter(transaction => transaction.gasLimit && BigInt(transaction.gasLimit) > 0n)
+      .map(transaction => Number(BigInt(transaction.gasUsed) * 10000n / BigInt(transaction.gasLimit!)) / 10000);
+
+    let lowerBound = 0;
+    const buckets = this.UTILIZATION_BUCKETS.map((upperBound, i) => {
+      const isLast = i === this.UTILIZATION_BUCKETS.length - 1;
+      const count = utilizations.filter(utilization =>
+        utilization >= lowerBound && (utilization < upperBound || isLast)).length;
+      const range = `${Math.round(lowerBound * 100)}-${Math.round(upperBound * 100)}%`;
+      lowerBound = upperBound;
+      return { range, count };
+    });
+
+    return {
+      count: utilizations.length,
+      min: utilizations.length > 0 ? Math.min(...utilizations) : 0,
+      median: percentile(utilizations, 0.5),
+      mean: utilizations.length > 0 ? utilizations.reduce((sum, value) => sum + value, 0) / utilizations.length : 0,
+      p90: percentile(utilizations, 0.9),
+      max: utilizations.length > 0 ? Math.max(...utilizations) : 0,
+      buckets,
+      overProvisioned: utilizations.filter(utilization => utilization < this.OPTIMAL_GAS_USAGE_THRESHOLD).length
+    };
+  }
+
+  /**
+   * Flag a gas limit the transaction used too little of. Unused gas is
+   * refunded, so this saves no fees directly, but an oversized limit raises
+   * the balance the sender must hold and lets a runaway execution burn more.
+   */
   private analyzeGasLimit(transaction: BaseTransaction): GasOptimizationSuggestion | null {
+    if (!transaction.gasLimit || BigInt(transaction.gasLimit) === 0n) {
+      return null;
+    }
+
     const gasUsed = BigInt(transaction.gasUsed);
-    const estimatedGasLimit = gasUsed * BigInt(120) / BigInt(100);
-    const gasUsageRatio = Number(gasUsed * BigInt(100) / estimatedGasLimit) / 100;
-    
-    if (gasUsageRatio < this.OPTIMAL_GAS_USAGE_THRESHOLD) {
-      return {
-        type: 'gas_limit',
-        description: 'Gas limit is set too high, wasting potential gas fees',
-        potentialSavings: this.calculateGasLimitSavings(transaction),
-        confidence: 'medium',
-        implementation: 'Set gas limit closer to estimated gas usage with 10-15% buffer'
-      };
+    const gasLimit = BigInt(transaction.gasLimit);
+    const gasUsageRatio = Number(gasUsed * 10000n / gasLimit) / 10000;
+    if (gasUsageRatio >= this.OPTIMAL_GAS_USAGE_THRESHOLD) {
+      return null;
     }
-    
-    return null;
+
+    // A learned limit this execution would have exceeded is no use
+    const ownLimit = this.addGasLimitBuffer(gasUsed);
+    const methodLimit = transaction.to && transaction.input
+      ? this.getRecommendedGasLimit(transaction.to, transaction.input)
+      : null;
+    const learnedLimit = methodLimit && BigInt(methodLimit) >= ownLimit ? methodLimit : null;
+    const recommendedLimit = learnedLimit ?? ownLimit.toString();
+
+    return {
+      type: 'gas_limit',
+      description: `Gas limit of ${gasLimit} is only ${(gasUsageRatio * 100).toFixed(1)}% used`,
+      potentialSavings: '0',
+      confidence: learnedLimit ? 'high' : 'medium',
+      implementation: learnedLimit
+        ? `Set gas limit to ${recommendedLimit}, ${this.GAS_LIMIT_BUFFER_PERCENT}% above the most this method has used`
+        : `Set gas limit to ${recommendedLimit}, ${this.GAS_LIMIT_BUFFER_PERCENT}% above this execution's usage`
+    };
   }
 
   private analyzeContractOptimization(transaction: BaseTransaction): GasOptimizationSuggestion | null {
@@ -94,7 +456,7 @@ export class GasOptimizer {
       return {
         type: 'batch_transactions',
         description: 'Multiple token transfers detected - consider batching operations',
-        potentialSavings: this.calculateBatchingSavings(transferEvents.length),
+        potentialSavings: this.calculateBatchingSavings(transferEvents.length, transaction),
         confidence: 'high',
         implementation: 'Use multicall or batch transfer functions to combine operations'
       };
@@ -103,36 +465,90 @@ export class GasOptimizer {
     return null;
   }
 
+  private analyzeCalldataSize(
+    transaction: BaseTransaction,
+    costBreakdown: GasCostBreakdown
+  ): GasOptimizationSuggestion | null {
+    if (costBreakdown.l1DataCostShare < this.L1_DOMINANT_SHARE) {
+      return null;
+    }
+
+    const dataSize = transaction.input ? ethers.dataLength(transaction.input) : 0;
+    const sharePercent = (costBreakdown.l1DataCostShare * 100).toFixed(1);
+
+    return {
+      type: 'calldata_size',
+      description: `L1 data fee is ${sharePercent}% of the total cost for ${dataSize} bytes of calldata`,
+      potentialSavings: (parseFloat(costBreakdown.l1DataCost) * this.CALLDATA_REDUCTION_RATIO).toString(),
+      confidence: dataSize > 0 ? 'medium' : 'low',
+      implementation: 'Shrink calldata by packing arguments, dropping redundant fields and avoiding zero-padded dynamic data'
+    };
+  }
+
+  /**
+   * Rebuild the Ecotone/Fjord fee parameters reported on an OP-stack receipt
+   */
+  private getL1FeeParams(transaction: BaseTransaction): L1FeeParams | null {
+    if (!transaction.l1GasPrice || !transaction.l1BaseFeeScalar || !transaction.l1BlobBaseFeeScalar) {
+      return null;
+    }
+
+    const params: L1FeeParams = {
+      model: 'ecotone',
+      l1BaseFee: BigInt(transaction.l1GasPrice),
+      l1BlobBaseFee: BigInt(transaction.l1BlobBaseFee ?? 0),
+      baseFeeScalar: BigInt(transaction.l1BaseFeeScalar),
+      blobBaseFeeScalar: BigInt(transaction.l1BlobBaseFeeScalar)
+    };
+
+    // Receipts do not say which formula produced l1Fee, so pick the one that reproduces it
+    if (transaction.l1Fee && transaction.input) {
+      const fjordFee = L1FeeCalculator.calculateFjordFee(transaction.input, params).l1Fee;
+      const ecotoneFee = L1FeeCalculator.calculateEcotoneFee(transaction.input, params).l1Fee;
+      const actualFee = BigInt(transaction.l1Fee);
+      const distance = (fee: bigint) => (fee > actualFee ? fee - actualFee : actualFee - fee);
+      params.model = distance(fjordFee) <= distance(ecotoneFee) ? 'fjord' : 'ecotone';
+    } else {
+      params.model = 'fjord';
+    }
+
+    return params;
+  }
+
+  private calculateL1DataCost(transaction: BaseTransaction, feeParams: L1FeeParams | null): bigint {
+    if (transaction.l1Fee) {
+      return BigInt(transaction.l1Fee);
+    }
+    if (feeParams && transaction.input) {
+      return L1FeeCalculator.calculateL1Fee(transaction.input, feeParams).l1Fee;
+    }
+    return 0n;
+  }
+
   private calculateGasCost(transaction: BaseTransaction): string {
     const gasUsed = BigInt(transaction.gasUsed);
     const gasPrice = BigInt(transaction.gasPrice);
-    const gasCostWei = gasUsed * gasPrice;
+    const l1DataCost = this.calculateL1DataCost(transaction, this.getL1FeeParams(transaction));
+    const gasCostWei = gasUsed * gasPrice + l1DataCost;
     return ethers.formatEther(gasCostWei);
   }
 
-  private calculateGasPriceSavings(transaction: BaseTransaction): string {
-    const currentGasPrice = BigInt(transaction.gasPrice);
-    const optimalGasPrice = ethers.parseUnits(this.BASE_GAS_PRICE_GWEI.toString(), 'gwei');
-    const gasUsed = BigInt(transaction.gasUsed);
-    
-    if (currentGasPrice <= optimalGasPrice) return '0';
-    
-    const savings = (currentGasPrice - optimalGasPrice) * gasUsed;
-    return ethers.formatEther(savings);
+  private addGasLimitBuffer(gasUsed: bigint): bigint {
+    return gasUsed * (100n + this.GAS_LIMIT_BUFFER_PERCENT) / 100n;
   }
 
-  private calculateGasLimitSavings(transaction: BaseTransaction): string {
-    const gasUsed = BigInt(transaction.gasUsed);
-    const gasPrice = BigInt(transaction.gasPrice);
-    const potentialSavings = gasUsed * gasPrice * BigInt(5) / BigInt(100);
-    return ethers.formatEther(potentialSavings);
+  private getMethodKey(transaction: BaseTransaction): string | null {
+    if (!transaction.to || !transaction.input || ethers.dataLength(transaction.input) < 4) {
+      return null;
+    }
+    return `${transaction.to.toLowerCase()}:${transaction.input.slice(0, 10).toLowerCase()}`;
   }
 
-  private calculateBatchingSavings(operationCount: number): string {
+  private calculateBatchingSavings(operationCount: number, transaction: BaseTransaction): string {
     const baseGasCost = 21000;
     const savedTransactions = operationCount - 1;
     const savedGas = savedTransactions * baseGasCost;
-    const gasPrice = ethers.parseUnits(this.BASE_GAS_PRICE_GWEI.toString(), 'gwei');
+    const gasPrice = BigInt(transaction.effectiveGasPrice ?? transaction.gasPrice);
     const savings = BigInt(savedGas) * gasPrice;
     return ethers.formatEther(savings);
   }
@@ -148,24 +564,140 @@ export class GasOptimizer {
 
   getBaseNetworkRecommendations(): string[] {
     return [
-      'Use gas price of 0.1-0.2 Gwei for Base network transactions',
+      'Send EIP-1559 transactions with a priority fee near the lowest one recent blocks included',
       'Set gas limit with 10-15% buffer above estimated usage',
       'Batch multiple operations using multicall patterns',
+      'Minimize calldata size, since the L1 data fee usually dominates cheap Base transactions',
       'Optimize contract storage layout to minimize SSTORE operations'
     ];
   }
 
-  async estimateOptimalGasPrice(provider: ethers.Provider): Promise<string> {
+  /**
+   * Expected gas price in gwei of a standard-tier transaction sent now
+   */
+  async getCurrentGasPrice(provider: ethers.JsonRpcApiProvider): Promise<number> {
+    const estimate = await FeeEstimator.estimate(provider);
+    return parseFloat(ethers.formatUnits(estimate.standard.expectedGasPrice, 'gwei'));
+  }
+
+  /**
+   * Base, priority and L1 fees over the last `hours` in time buckets,
+   * back-filled into this optimizer's gas price store
+   */
+  async getGasPriceHistory(
+    provider: ethers.JsonRpcApiProvider,
+    hours: number,
+    options?: GasPriceHistoryOptions
+  ): Promise<GasPriceHistoryReport> {
+    return new GasPriceHistory(provider, this.gasPriceStore).getHistory(hours, options);
+  }
+
+  /**
+   * Pre-flight cost of calling `to` with `data`: execution gas from
+   * eth_estimateGas, the L1 data fee the GasPriceOracle charges for the
+   * serialized transaction, and a gas limit padded by how volatile the
+   * method's recorded gas usage has been
+   */
+  async estimateGasForTransaction(
+    provider: ethers.JsonRpcApiProvider,
+    to: string,
+    data: string,
+    options: PreflightOptions = {}
+  ): Promise<PreflightGasEstimate> {
+    const { from, value } = options;
+    const [gasEstimate, fees, nonce] = await Promise.all([
+      provider.estimateGas({ to, data, from, value }),
+      FeeEstimator.estimate(provider),
+      from ? provider.getTransactionCount(from, 'pending') : Promise.resolve(0)
+    ]);
+
+    const safetyMargin = this.getSafetyMargin(to, data);
+    const recommendedGasLimit = gasEstimate * BigInt(100 + safetyMargin.percent) / 100n;
+    const maxFeePerGas = BigInt(fees.standard.maxFeePerGas);
+    const maxPriorityFeePerGas = BigInt(fees.standard.maxPriorityFeePerGas);
+    const expectedGasPrice = BigInt(fees.standard.expectedGasPrice);
+
+    // getL1Fee pads for the signature itself, so the unsigned encoding is what it expects
+    const unsigned = ethers.Transaction.from({
+      type: 2,
+      chainId: BASE_CONSTANTS.CHAIN_ID,
+      nonce,
+      to,
+      data,
+      value: value ?? 0n,
+      gasLimit: recommendedGasLimit,
+      maxFeePerGas,
+      maxPriorityFeePerGas
+    }).unsignedSerialized;
+    const oracle = new ethers.Contract(GAS_PRICE_ORACLE_ADDRESS, GAS_PRICE_ORACLE_ABI, provider);
+    const l1DataCost: bigint = await oracle.getL1Fee(unsigned);
+
+    const l2ExecutionCost = gasEstimate * expectedGasPrice;
+    const totalCost = l2ExecutionCost + l1DataCost;
+    const ethPriceUsd = await (options.priceSource ?? new UniswapV3PriceSource(provider)).getPriceUsd(WETH, 'latest');
+
+    return {
+      gasEstimate: gasEstimate.toString(),
+      recommendedGasLimit: recommendedGasLimit.toString(),
+      safetyMargin,
+      maxFeePerGas: maxFeePerGas.toString(),
+      maxPriorityFeePerGas: maxPriorityFeePerGas.toString(),
+      expectedGasPrice: expectedGasPrice.toString(),
+      l2ExecutionCost: ethers.formatEther(l2ExecutionCost),
+      l1DataCost: ethers.formatEther(l1DataCost),
+      totalCost: ethers.formatEther(totalCost),
+      ethPriceUsd,
+      totalCostUsd: ethPriceUsd !== null ? parseFloat(ethers.formatEther(totalCost)) * ethPriceUsd : null
+    };
+  }
+
+  /**
+   * Cover the recorded gas usage of the method `data` calls on `to` to two
+   * standard deviations, never less than the default buffer
+   */
+  getSafetyMargin(to: string, data: string): GasSafetyMargin {
+    const defaultPercent = Number(this.GAS_LIMIT_BUFFER_PERCENT);
+    const executions = this.executions.get(`${to.toLowerCase()}:${data.slice(0, 10).toLowerCase()}`) ?? [];
+    if (executions.length < this.MIN_VOLATILITY_SAMPLES) {
+      return { percent: defaultPercent, basis: 'default', samples: executions.length, volatility: null };
+    }
+
+    const gasUsed = executions.map(execution => Number(execution.gasUsed));
+    const mean = gasUsed.reduce((sum, gas) => sum + gas, 0) / gasUsed.length;
+    const variance = gasUsed.reduce((sum, gas) => sum + (gas - mean) ** 2, 0) / gasUsed.length;
+    const volatility = mean > 0 ? Math.sqrt(variance) / mean : 0;
+
+    return {
+      percent: Math.max(defaultPercent, Math.ceil(volatility * this.VOLATILITY_MARGIN_DEVIATIONS * 100)),
+      basis: 'history',
+      samples: executions.length,
+      volatility
+    };
+  }
+
+  /**
+   * Expected gas price in gwei of a standard-tier transaction, from recent
+   * blocks' priority fees, falling back to a nominal price when the node
+   * cannot be reached
+   */
+  async estimateOptimalGasPrice(provider: ethers.JsonRpcApiProvider): Promise<string> {
     try {
-      const feeData = await provider.getFeeData();
-      const baseFee = feeData.gasPrice || ethers.parseUnits('0.1', 'gwei');
-      const priorityFee = ethers.parseUnits('0.01', 'gwei');
-      const optimalGasPrice = baseFee + priorityFee;
-      return ethers.formatUnits(optimalGasPrice, 'gwei');
+      return (await this.getCurrentGasPrice(provider)).toString();
     } catch (error) {
-      return this.BASE_GAS_PRICE_GWEI.toString();
+      return this.FALLBACK_GAS_PRICE_GWEI.toString();
     }
   }
 }
 
+/**
+ * Nearest-rank percentile of unsorted values, 0 for none
+ */
+function percentile(values: number[], fraction: number): number {
+  if (values.length === 0) {
+    return 0;
+  }
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.max(Math.ceil(fraction * sorted.length), 1) - 1];
+}
+
 export default GasOptimizer;
@@ -0,0 +1,289 @@
+/**
+ * Gas Price History
+ *
+ * Back-fills per-block fee samples for Base into a pluggable store and
+ * aggregates them into time buckets. Base fees, block fullness and priority
+ * fee percentiles come from eth_feeHistory, up to 1024 blocks a call. L1
+ * base and blob fees come from the GasPriceOracle predeploy, one call per
+ * sampled block, so by default they are only sampled every few minutes;
+ * they move once per L1 block anyway. Block times are derived from the
+ * newest block's timestamp, Base producing one block every two seconds.
+ */
+
+import { ethers } from 'ethers';
+import { BASE_CONSTANTS } from './config';
+import { GAS_PRICE_ORACLE_ABI, GAS_PRICE_ORACLE_ADDRESS } from './L1FeeCalculator';
+
+/**
+ * Fees of one block in wei
+ */
+export interface GasPriceSample {
+  blockNumber: number;
+  timestamp: number;
+  baseFeePerGas: string;
+  gasUsedRatio: number;
+  /** Priority fees paid at the 10th, 50th and 90th percentile of the block's gas */
+  priorityFees: { p10: string; p50: string; p90: string };
+  /** Null for blocks the L1 fees were not sampled at */
+  l1BaseFee: string | null;
+  l1BlobBaseFee: string | null;
+}
+
+/**
+ * Where back-filled samples are kept between calls
+ */
+export interface GasPriceStore {
+  /** Stored samples from fromBlock to toBlock inclusive, in block order */
+  getSamples(fromBlock: number, toBlock: number): Promise<GasPriceSample[]>;
+  /** Add samples, replacing any stored for the same blocks */
+  saveSamples(samples: GasPriceSample[]): Promise<void>;
+}
+
+/**
+ * Distribution of a fee across a bucket's blocks, in gwei
+ */
+export interface FeeStats {
+  min: number;
+  median: number;
+  p90: number;
+}
+
+export interface GasPriceBucket {
+  /** Unix time the bucket opens at, a multiple of its length */
+  timestamp: number;
+  blockCount: number;
+  baseFee: FeeStats;
+  /** Of each block's median priority fee */
+  priorityFee: FeeStats;
+  /** Null when no block in the bucket had its L1 fees sampled */
+  l1BaseFee: FeeStats | null;
+  l1BlobBaseFee: FeeStats | null;
+}
+
+export interface GasPriceHistoryReport {
+  fromBlock: number;
+  toBlock: number;
+  bucketSeconds: number;
+  /** Buckets holding at least one block, oldest first */
+  buckets: GasPriceBucket[];
+  /** The bucket with the lowest median base plus priority fee */
+  cheapestBucket: GasPriceBucket | null;
+}
+
+export interface GasPriceHistoryOptions {
+  /** First block, `hours` before toBlock by default */
+  fromBlock?: number;
+  /** Last block, latest by default */
+  toBlock?: number;
+  /** Length of each bucket, an hour by default */
+  bucketSeconds?: number;
+  /** Sample L1 fees at block numbers divisible by this, 150 (five minutes) by default */
+  l1FeeInterval?: number;
+}
+
+const MAX_FEE_HISTORY_BLOCKS = 1024;
+const REWARD_PERCENTILES = [10, 50, 90];
+const DEFAULT_BUCKET_SECONDS = 60 * 60;
+const DEFAULT_L1_FEE_INTERVAL = 150;
+
+/**
+ * Keeps samples in memory for the life of the process
+ */
+export class MemoryGasPriceStore implements GasPriceStore {
+  private samples: Map<number, GasPriceSample> = new Map();
+
+  async getSamples(fromBlock: number, toBlock: number): Promise<GasPriceSample[]> {
+    return [...this.samples.values()]
+      .filter(sample => sample.blockNumber >= fromBlock && sample.blockNumber <= toBlock)
+      .sort((a, b) => a.blockNumber - b.blockNumber);
+  }
+
+  async saveSamples(samples: GasPriceSample[]): Promise<void> {
+    for (const sample of samples) {
+      this.samples.set(sample.blockNumber, sample);
+    }
+  }
+}
+
+export class GasPriceHistory {
+  private provider: ethers.JsonRpcApiProvider;
+  private store: GasPriceStore;
+
+  constructor(provider: ethers.JsonRpcApiProvider, store: GasPriceStore = new MemoryGasPriceStore()) {
+    this.provider = provider;
+    this.store = store;
+  }
+
+  /**
+   * Aggregated fees over the last `hours`, or over options' block range,
+   * back-filling whatever the store is missing first
+   */
+  async getHistory(hours: number, options: GasPriceHistoryOptions = {}): Promise<GasPriceHistoryReport> {
+    const bucketSeconds = options.bucketSeconds ?? DEFAULT_BUCKET_SECONDS;
+    if (!(hours > 0) || !(bucketSeconds > 0)) {
+      throw new Error('Hours and bucket length must be positive');
+    }
+
+    const toBlock = options.toBlock ?? await this.provider.getBlockNumber();
+    const windowBlocks = Math.ceil(hours * 60 * 60 / BASE_CONSTANTS.BLOCK_TIME_SECONDS);
+    const fromBlock = options.fromBlock ?? Math.max(toBlock - windowBlocks + 1, 0);
+    if (fromBlock > toBlock) {
+      throw new Error('fromBlock must not be after toBlock');
+    }
+
+    const samples = await this.backfill(fromBlock, toBlock, options.l1FeeInterval);
+    const buckets = GasPriceHistory.aggregate(samples, bucketSeconds);
+    const totalFee = (bucket: GasPriceBucket) => bucket.baseFee.median + bucket.priorityFee.median;
+
+    return {
+      fromBlock,
+      toBlock,
+      bucketSeconds,
+      buckets,
+      cheapestBucket: buckets.reduce<GasPriceBucket | null>(
+        (cheapest, bucket) => (cheapest && totalFee(cheapest) <= totalFee(bucket) ? cheapest : bucket),
+        null
+      )
+    };
+  }
+
+  /**
+   * Fetch and store samples for the blocks of the range the store lacks,
+   * returning the whole range's samples
+   */
+  async backfill(fromBlock: number, toBlock: number, l1FeeInterval = DEFAULT_L1_FEE_INTERVAL): Promise<GasPriceSample[]> {
+    if (!Number.isInteger(l1FeeInterval) || l1FeeInterval < 1) {
+      throw new Error('L1 fee interval must be a positive whole number of blocks');
+    }
+
+    const stored = await this.store.getSamples(fromBlock, toBlock);
+    const have = new Set(stored.map(sample => sample.blockNumber));
+    const missing = missingRanges(fromBlock, toBlock, have);
+    if (missing.length === 0) {
+      return stored;
+    }
+
+    const anchor = await this.provider.getBlock(toBlock);
+    if (!anchor) {
+      throw new Error(`Block ${toBlock} not found`);
+    }
+    const timestampOf = (blockNumber: number) =>
+      anchor.timestamp - (toBlock - blockNumber) * BASE_CONSTANTS.BLOCK_TIME_SECONDS;
+
+    for (const [start, end] of missing) {
+      for (let chunkEnd = end; chunkEnd >= start; chunkEnd -= MAX_FEE_HISTORY_BLOCKS) {
+        const chunkStart = Math.max(chunkEnd - MAX_FEE_HISTORY_BLOCKS + 1, start);
+        const samples = await this.fetchSamples(chunkStart, chunkEnd, l1FeeInterval, timestampOf);
+        await this.store.saveSamples(samples);
+      }
+    }
+
+    return this.store.getSamples(fromBlock, toBlock);
+  }
+
+  /**
+   * Bucket samples by block time, leaving out buckets without blocks
+   */
+  static aggregate(samples: GasPriceSample[], bucketSeconds: number = DEFAULT_BUCKET_SECONDS): GasPriceBucket[] {
+    const groups = new Map<number, GasPriceSample[]>();
+    for (const sample of samples) {
+      const timestamp = Math.floor(sample.timestamp / bucketSeconds) * bucketSeconds;
+      const group = groups.get(timestamp);
+      if (group) {
+        group.push(sample);
+      } else {
+        groups.set(timestamp, [sample]);
+      }
+    }
+
+    return [...groups]
+      .sort(([a], [b]) => a - b)
+      .map(([timestamp, group]) => ({
+        timestamp,
+        blockCount: group.length,
+        baseFee: feeStats(group.map(sample => sample.baseFeePerGas))!,
+        priorityFee: feeStats(group.map(sample => sample.priorityFees.p50))!,
+        l1BaseFee: feeStats(group.flatMap(sample => sample.l1BaseFee ?? [])),
+        l1BlobBaseFee: feeStats(group.flatMap(sample => sample.l1BlobBaseFee ?? []))
+      }));
+  }
+
+  private async fetchSamples(
+    fromBlock: number,
+    toBlock: number,
+    l1FeeInterval: number,
+    timestampOf: (blockNumber: number) => number
+  ): Promise<GasPriceSample[]> {
+    const history: { oldestBlock: string; baseFeePerGas: string[]; gasUsedRatio: number[]; reward?: string[][] } =
+      await this.provider.send('eth_feeHistory', [
+        ethers.toQuantity(toBlock - fromBlock + 1),
+        ethers.toQuantity(toBlock),
+        REWARD_PERCENTILES
+      ]);
+
+    const oldestBlock = Number(BigInt(history.oldestBlock));
+    const oracle = new ethers.Contract(GAS_PRICE_ORACLE_ADDRESS, GAS_PRICE_ORACLE_ABI, this.provider);
+
+    return Promise.all(history.gasUsedRatio.map(async (gasUsedRatio, i) => {
+      const blockNumber = oldestBlock + i;
+      const [p10, p50, p90] = (history.reward?.[i] ?? ['0x0', '0x0', '0x0']).map(reward => BigInt(reward).toString());
+
+      let l1BaseFee: string | null = null;
+      let l1BlobBaseFee: string | null = null;
+      if (blockNumber % l1FeeInterval === 0) {
+        const overrides = { blockTag: blockNumber };
+        const [baseFee, blobBaseFee]: bigint[] = await Promise.all([
+          oracle.l1BaseFee(overrides),
+          oracle.blobBaseFee(overrides)
+        ]);
+        l1BaseFee = baseFee.toString();
+        l1BlobBaseFee = blobBaseFee.toString();
+      }
+
+      return {
+        blockNumber,
+        timestamp: timestampOf(blockNumber),
+        baseFeePerGas: BigInt(history.baseFeePerGas[i]).toString(),
+        gasUsedRatio,
+        priorityFees: { p10, p50, p90 },
+        l1BaseFee,
+        l1BlobBaseFee
+      };
+    }));
+  }
+}
+
+/**
+ * Contiguous block ranges within [fromBlock, toBlock] missing from `have`
+ */
+function missingRanges(fromBlock: number, toBlock: number, have: Set<number>): [number, number][] {
+  const ranges: [number, number][] = [];
+  for (let block = fromBlock; block <= toBlock; block++) {
+    if (have.has(block)) continue;
+    const last = ranges[ranges.length - 1];
+    if (last && last[1] === block - 1) {
+      last[1] = block;
+    } else {
+      ranges.push([block, block]);
+    }
+  }
+  return ranges;
+}
+
+/**
+ * Min, median and nearest-rank 90th percentile in gwei of wei amounts, null for none
+ */
+function feeStats(values: string[]): FeeStats | null {
+  if (values.length === 0) {
+    return null;
+  }
+  const sorted = values.map(value => BigInt(value)).sort((a, b) => (a < b ? -1 : a > b ? 1 : 0));
+  const toGwei = (value: bigint) => parseFloat(ethers.formatUnits(value, 'gwei'));
+  return {
+    min: toGwei(sorted[0]),
+    median: toGwei(sorted[Math.floor((sorted.length - 1) / 2)]),
+    p90: toGwei(sorted[Math.ceil(0.9 * sorted.length) - 1])
+  };
+}
+
+export default GasPriceHistory;
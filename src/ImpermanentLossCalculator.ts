@@ -0,0 +1,198 @@
+/**
+ * Impermanent Loss Calculator
+ *
+ * Compares a liquidity position against simply holding the tokens it was
+ * opened with. Positions may be concentrated in a price range: inside the
+ * range the position rebalances along the pool curve, and outside it the
+ * position sits entirely in one token. Prices are token0 priced in token1,
+ * in whole tokens.
+ */
+
+import { ethers } from 'ethers';
+import { TokenInfo } from './DeFiProtocolAnalyzer';
+import { PositionState } from './protocols/types';
+import { sqrtPriceX96ToPrice } from './protocols/utils';
+
+/**
+ * Price bounds of a position; 0 and Infinity for a full-range position
+ */
+export interface PriceRange {
+  priceLower: number;
+  priceUpper: number;
+}
+
+export interface ImpermanentLoss {
+  entryPrice: number;
+  currentPrice: number;
+  inRange: boolean;
+  /** Value at the current price of the tokens deposited at entry, in token1 */
+  holdValue: number;
+  /** Value of the position's tokens at the current price, in token1 */
+  positionValue: number;
+  /** Value of fees earned by the position, in token1 */
+  feesValue: number;
+  /** Shortfall of the position against holding, as a percentage of the hold value */
+  impermanentLoss: number;
+  /** Position plus fees against holding, as a percentage; negative when fees do not cover the loss */
+  netReturn: number;
+}
+
+export interface PositionImpermanentLoss extends ImpermanentLoss, PriceRange {
+  positionId: string;
+  pool: string;
+  token0: TokenInfo;
+  token1: TokenInfo;
+  tickLower: number;
+  tickUpper: number;
+  /** Fees earned and not yet collected, in whole tokens */
+  feesOwed: { token0: string; token1: string };
+}
+
+export interface ImpermanentLossPoint {
+  price: number;
+  /** Move from the entry price, as a percentage */
+  priceChange: number;
+  inRange: boolean;
+  impermanentLoss: number;
+}
+
+export interface PriceGridOptions {
+  /** Lowest price simulated, half the entry price by default */
+  minPrice?: number;
+  /** Highest price simulated, twice the entry price by default */
+  maxPrice?: number;
+  /** Number of prices, spaced geometrically, 21 by default */
+  steps?: number;
+}
+
+export const FULL_RANGE: PriceRange = { priceLower: 0, priceUpper: Infinity };
+
+const DEFAULT_GRID_STEPS = 21;
+
+// Each tick moves the price by one basis point
+const TICK_BASE = 1.0001;
+
+export class ImpermanentLossCalculator {
+  /**
+   * Impermanent loss of a full-range position, as a percentage
+   */
+  static fullRange(entryPrice: number, currentPrice: number): number {
+    const priceRatio = currentPrice / entryPrice;
+    const impermanentLoss = (2 * Math.sqrt(priceRatio)) / (1 + priceRatio) - 1;
+    return Math.abs(impermanentLoss) * 100;
+  }
+
+  /**
+   * Compare a position over a price range against holding its entry
+   * tokens. Liquidity only scales the values, so it can be left at 1 when
+   * only the percentages matter.
+   */
+  static calculate(
+    range: PriceRange,
+    entryPrice: number,
+    currentPrice: number,
+    liquidity: number = 1,
+    feesValue: number = 0
+  ): ImpermanentLoss {
+    const [entry0, entry1] = getAmounts(range, entryPrice, liquidity);
+    const [amount0, amount1] = getAmounts(range, currentPrice, liquidity);
+    const holdValue = entry0 * currentPrice + entry1;
+    const positionValue = amount0 * currentPrice + amount1;
+
+    return {
+      entryPrice,
+      currentPrice,
+      inRange: isInRange(range, currentPrice),
+      holdValue,
+      positionValue,
+      feesValue,
+      impermanentLoss: holdValue === 0 ? 0 : Math.max(0, (1 - positionValue / holdValue) * 100),
+      netReturn: holdValue === 0 ? 0 : ((positionValue + feesValue) / holdValue - 1) * 100
+    };
+  }
+
+  /**
+   * Impermanent loss of an open position at its pool's current price, with
+   * its uncollected fees counted toward the net return
+   */
+  static fromPosition(position: PositionState, entryPrice: number): PositionImpermanentLoss {
+    const { token0, token1 } = position;
+    const range = {
+      priceLower: this.tickToPrice(position.tickLower, token0.decimals, token1.decimals),
+      priceUpper: this.tickToPrice(position.tickUpper, token0.decimals, token1.decimals)
+    };
+    const currentPrice = sqrtPriceX96ToPrice(position.sqrtPriceX96, token0.decimals, token1.decimals);
+
+    const fees0 = ethers.formatUnits(position.feesOwed0, token0.decimals);
+    const fees1 = ethers.formatUnits(position.feesOwed1, token1.decimals);
+    const feesValue = parseFloat(fees0) * currentPrice + parseFloat(fees1);
+
+    // Whole-token liquidity, so values come out in whole token1
+    const liquidity = Number(position.liquidity) / 10 ** ((token0.decimals + token1.decimals) / 2);
+
+    return {
+      ...this.calculate(range, entryPrice, currentPrice, liquidity, feesValue),
+      ...range,
+      positionId: position.positionId,
+      pool: position.pool,
+      token0,
+      token1,
+      tickLower: position.tickLower,
+      tickUpper: position.tickUpper,
+      feesOwed: { token0: fees0, token1: fees1 }
+    };
+  }
+
+  /**
+   * Impermanent loss across a grid of hypothetical prices for a position
+   * opened at entryPrice, for sizing a range before committing to it
+   */
+  static simulate(range: PriceRange, entryPrice: number, grid: PriceGridOptions = {}): ImpermanentLossPoint[] {
+    const minPrice = grid.minPrice ?? entryPrice / 2;
+    const maxPrice = grid.maxPrice ?? entryPrice * 2;
+    const steps = grid.steps ?? DEFAULT_GRID_STEPS;
+    if (!(minPrice > 0) || !(maxPrice >= minPrice) || !Number.isInteger(steps) || steps < 1) {
+      throw new Error('Price grid needs 0 < minPrice <= maxPrice and a positive whole number of steps');
+    }
+
+    const ratio = steps === 1 ? 1 : (maxPrice / minPrice) ** (1 / (steps - 1));
+    return Array.from({ length: steps }, (_, i) => {
+      const price = minPrice * ratio ** i;
+      const result = this.calculate(range, entryPrice, price);
+      return {
+        price,
+        priceChange: (price / entryPrice - 1) * 100,
+        inRange: result.inRange,
+        impermanentLoss: result.impermanentLoss
+      };
+    });
+  }
+
+  /**
+   * Whole-token price of token0 in token1 at a tick
+   */
+  static tickToPrice(tick: number, decimals0: number, decimals1: number): number {
+    return TICK_BASE ** tick * 10 ** (decimals0 - decimals1);
+  }
+}
+
+/**
+ * Token amounts held by liquidity over a range at a price. Outside the
+ * range the price is clamped to the nearer bound, leaving one token.
+ */
+function getAmounts(range: PriceRange, price: number, liquidity: number): [number, number] {
+  const sqrtLower = Math.sqrt(range.priceLower);
+  const sqrtUpper = Math.sqrt(range.priceUpper);
+  const sqrtPrice = Math.min(Math.max(Math.sqrt(price), sqrtLower), sqrtUpper);
+
+  return [
+    liquidity * (1 / sqrtPrice - 1 / sqrtUpper),
+    liquidity * (sqrtPrice - sqrtLower)
+  ];
+}
+
+function isInRange(range: PriceRange, price: number): boolean {
+  return range.priceLower <= price && price < range.priceUpper;
+}
+
+export default ImpermanentLossCalculator;
@@ -0,0 +1,205 @@
+/**
+ * L1 Fee Calculator
+ *
+ * OP-stack L1 data fee formulas for Base. Every L2 transaction pays for
+ * posting its data to Ethereum through the GasPriceOracle predeploy; this
+ * module reproduces the Ecotone and Fjord pricing so the data component can
+ * be estimated, attributed and compared without a node round-trip.
+ */
+
+import { ethers } from 'ethers';
+
+export const GAS_PRICE_ORACLE_ADDRESS = '0x420000000000000000000000000000000000000F';
+
+export const GAS_PRICE_ORACLE_ABI = [
+  'function isEcotone() view returns (bool)',
+  'function isFjord() view returns (bool)',
+  'function l1BaseFee() view returns (uint256)',
+  'function blobBaseFee() view returns (uint256)',
+  'function baseFeeScalar() view returns (uint32)',
+  'function blobBaseFeeScalar() view returns (uint32)',
+  'function getL1Fee(bytes _data) view returns (uint256)',
+  'function getL1GasUsed(bytes _data) view returns (uint256)'
+];
+
+export type L1FeeModel = 'ecotone' | 'fjord';
+
+export interface L1FeeParams {
+  model: L1FeeModel;
+  l1BaseFee: bigint;
+  l1BlobBaseFee: bigint;
+  baseFeeScalar: bigint;
+  blobBaseFeeScalar: bigint;
+}
+
+export interface L1FeeBreakdown {
+  model: L1FeeModel;
+  l1Fee: bigint;
+  l1GasUsed: bigint;
+  dataSize: number;
+  zeroBytes: number;
+  compressedSize?: number;
+}
+
+// Bytes the GasPriceOracle adds for the signature and RLP fields of an unsigned payload
+const UNSIGNED_TX_PADDING = 68;
+const SCALAR_DECIMALS = 1_000_000n;
+
+// Fjord linear regression over FastLZ-compressed size (see the Fjord spec)
+const FJORD_MIN_TX_SIZE_SCALED = 100n * SCALAR_DECIMALS;
+const FJORD_INTERCEPT = -42_585_600n;
+const FJORD_FASTLZ_COEF = 836_500n;
+
+export class L1FeeCalculator {
+  /**
+   * Calculate the L1 data fee for a payload using the given fee parameters
+   */
+  static calculateL1Fee(data: string | Uint8Array, params: L1FeeParams): L1FeeBreakdown {
+    return params.model === 'fjord'
+      ? this.calculateFjordFee(data, params)
+      : this.calculateEcotoneFee(data, params);
+  }
+
+  /**
+   * Ecotone: calldata gas weighted by the L1 base fee and blob base fee scalars
+   */
+  static calculateEcotoneFee(data: string | Uint8Array, params: L1FeeParams): L1FeeBreakdown {
+    const bytes = ethers.getBytes(data);
+    const zeroBytes = bytes.filter(byte => byte === 0).length;
+    const l1GasUsed = BigInt(zeroBytes * 4 + (bytes.length - zeroBytes) * 16 + UNSIGNED_TX_PADDING * 16);
+
+    const weightedGasPrice = 16n * params.baseFeeScalar * params.l1BaseFee +
+      params.blobBaseFeeScalar * params.l1BlobBaseFee;
+
+    return {
+      model: 'ecotone',
+      l1Fee: l1GasUsed * weightedGasPrice / (16n * SCALAR_DECIMALS),
+      l1GasUsed,
+      dataSize: bytes.length,
+      zeroBytes
+    };
+  }
+
+  /**
+   * Fjord: estimated size derived from the FastLZ-compressed payload
+   */
+  static calculateFjordFee(data: string | Uint8Array, params: L1FeeParams): L1FeeBreakdown {
+    const bytes = ethers.getBytes(data);
+    const zeroBytes = bytes.filter(byte => byte === 0).length;
+    const compressedSize = this.flzCompressLen(bytes) + UNSIGNED_TX_PADDING;
+
+    const regressedSize = FJORD_INTERCEPT + FJORD_FASTLZ_COEF * BigInt(compressedSize);
+    const estimatedSizeScaled = regressedSize > FJORD_MIN_TX_SIZE_SCALED
+      ? regressedSize
+      : FJORD_MIN_TX_SIZE_SCALED;
+
+    const feeScaled = 16n * params.baseFeeScalar * params.l1BaseFee +
+      params.blobBaseFeeScalar * params.l1BlobBaseFee;
+
+    return {
+      model: 'fjord',
+      l1Fee: estimatedSizeScaled * feeScaled / (SCALAR_DECIMALS * SCALAR_DECIMALS),
+      l1GasUsed: estimatedSizeScaled * 16n / SCALAR_DECIMALS,
+      dataSize: bytes.length,
+      zeroBytes,
+      compressedSize
+    };
+  }
+
+  /**
+   * Read the current fee parameters from the GasPriceOracle predeploy
+   */
+  static async fetchFeeParams(
+    provider: ethers.Provider,
+    blockTag: ethers.BlockTag = 'latest'
+  ): Promise<L1FeeParams> {
+    const oracle = new ethers.Contract(GAS_PRICE_ORACLE_ADDRESS, GAS_PRICE_ORACLE_ABI, provider);
+    const overrides = { blockTag };
+
+    const [isFjord, l1BaseFee, l1BlobBaseFee, baseFeeScalar, blobBaseFeeScalar] = await Promise.all([
+      oracle.isFjord(overrides) as Promise<boolean>,
+      oracle.l1BaseFee(overrides) as Promise<bigint>,
+      oracle.blobBaseFee(overrides) as Promise<bigint>,
+      oracle.baseFeeScalar(overrides) as Promise<bigint>,
+      oracle.blobBaseFeeScalar(overrides) as Promise<bigint>
+    ]);
+
+    return {
+      model: isFjord ? 'fjord' : 'ecotone',
+      l1BaseFee,
+      l1BlobBaseFee,
+      baseFeeScalar: BigInt(baseFeeScalar),
+      blobBaseFeeScalar: BigInt(blobBaseFeeScalar)
+    };
+  }
+
+  /**
+   * Length of the FastLZ (level 1) compression of a payload, as computed
+   * by the Fjord GasPriceOracle. Ported from op-geth's FlzCompressLen.
+   */
+  static flzCompressLen(input: Uint8Array): number {
+    const hashTable = new Uint32Array(8192);
+    let length = 0;
+
+    const u24 = (i: number): number => input[i] | (input[i + 1] << 8) | (input[i + 2] << 16);
+    const hash = (value: number): number => (Math.imul(2654435769, value) >>> 19) & 0x1fff;
+
+    const literals = (run: number): void => {
+      length += 0x21 * Math.floor(run / 0x20);
+      run %= 0x20;
+      if (run !== 0) length += run + 1;
+    };
+
+    const match = (matchLength: number): void => {
+      matchLength--;
+      length += 3 * Math.floor(matchLength / 262);
+      length += matchLength % 262 >= 6 ? 3 : 2;
+    };
+
+    const compare = (p: number, q: number, end: number): number => {
+      let matched = 0;
+      for (end -= q; matched < end; matched++) {
+        if (input[p + matched] !== input[q + matched]) end = 0;
+      }
+      return matched;
+    };
+
+    const setNextHash = (ip: number): number => {
+      hashTable[hash(u24(ip))] = ip;
+      return ip + 1;
+    };
+
+    let anchor = 0;
+    const ipLimit = input.length < 13 ? 0 : input.length - 13;
+
+    for (let ip = anchor + 2; ip < ipLimit;) {
+      let ref = 0;
+      let distance = 0;
+
+      for (;;) {
+        const seq = u24(ip);
+        const h = hash(seq);
+        ref = hashTable[h];
+        hashTable[h] = ip;
+        distance = ip - ref;
+        if (ip >= ipLimit) break;
+        ip++;
+        if (distance <= 0x1fff && seq === u24(ref)) break;
+      }
+
+      if (ip >= ipLimit) break;
+      ip--;
+      if (ip > anchor) literals(ip - anchor);
+
+      const matchLength = compare(ref + 3, ip + 3, ipLimit + 9);
+      match(matchLength);
+      ip = setNextHash(setNextHash(ip + matchLength));
+      anchor = ip;
+    }
+
+    literals(input.length - anchor);
+    return length;
+  }
+}
+
+export default L1FeeCalculator;
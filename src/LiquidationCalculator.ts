@@ -0,0 +1,166 @@
+/**
+ * Liquidation Calculator
+ *
+ * Values decoded lending liquidations in USD: the debt cleared, the
+ * collateral taken from the borrower and what the liquidator made on the
+ * trade. Each liquidation is priced at its own block. Also recognises
+ * liquidation events by topic alone, for coarse transaction categorisation.
+ */
+
+import { ethers } from 'ethers';
+import { SupportedProtocol } from './config';
+import { TokenInfo } from './DeFiProtocolAnalyzer';
+import { PriceSource } from './PriceSource';
+import { LIQUIDATION_CALL_TOPIC } from './protocols/AaveV3Adapter';
+import { COMET_LIQUIDATION_TOPICS } from './protocols/CompoundV3Adapter';
+import { LIQUIDATE_BORROW_TOPIC } from './protocols/MoonwellAdapter';
+import { LiquidationData, LiquidationKind } from './protocols/types';
+
+export interface LiquidatedCollateral {
+  token: TokenInfo;
+  /** Whole tokens taken from the borrower */
+  seized: string;
+  /** Whole tokens passed to the liquidator */
+  received: string;
+  seizedUsd: number | null;
+  receivedUsd: number | null;
+}
+
+export interface Liquidation {
+  protocol: SupportedProtocol;
+  kind: LiquidationKind;
+  market: string;
+  liquidator: string;
+  borrower?: string;
+  blockNumber: number;
+  transactionHash: string;
+  logIndex: number;
+  debtToken: TokenInfo;
+  /** Whole tokens of debt cleared from the borrower */
+  debtRepaid: string;
+  debtRepaidUsd: number | null;
+  collateral: LiquidatedCollateral[];
+  collateralSeizedUsd: number | null;
+  /** Collateral received less debt token paid, before gas; null when a token cannot be priced */
+  liquidatorProfitUsd: number | null;
+}
+
+export interface LiquidationSummary {
+  fromBlock: number;
+  toBlock: number;
+  count: number;
+  /** Totals over the liquidations that could be priced */
+  debtRepaidUsd: number;
+  collateralSeizedUsd: number;
+  liquidatorProfitUsd: number;
+  unpricedLiquidations: number;
+  liquidations: Liquidation[];
+}
+
+export interface LiquidationOptions {
+  /** First block scanned, a day before toBlock by default */
+  fromBlock?: number;
+  /** Last block scanned, latest by default */
+  toBlock?: ethers.BlockTag;
+  /** Protocols scanned, every registered protocol that decodes liquidations by default */
+  protocols?: string[];
+  priceSource?: PriceSource;
+}
+
+// Liquidation events of the built-in lending markets, which is all a topic check can know
+const LIQUIDATION_TOPICS = [LIQUIDATION_CALL_TOPIC, ...COMET_LIQUIDATION_TOPICS, LIQUIDATE_BORROW_TOPIC];
+
+export class LiquidationCalculator {
+  /**
+   * Price each liquidation's tokens at its block, in log order
+   */
+  static async value(
+    protocol: SupportedProtocol,
+    liquidations: LiquidationData[],
+    priceSource: PriceSource
+  ): Promise<Liquidation[]> {
+    const prices = new Map<string, Promise<number | null>>();
+    const getPrice = (token: TokenInfo, blockNumber: number): Promise<number | null> => {
+      const key = `${token.address.toLowerCase()}:${blockNumber}`;
+      let price = prices.get(key);
+      if (!price) {
+        price = priceSource.getPriceUsd(token, blockNumber);
+        prices.set(key, price);
+      }
+      return price;
+    };
+
+    return Promise.all(liquidations.map(async data => {
+      const debtPrice = await getPrice(data.debtToken, data.blockNumber);
+      const collateral = await Promise.all(data.collateral.map(async ({ token, seized, received }) => {
+        const price = await getPrice(token, data.blockNumber);
+        return {
+          token,
+          seized: ethers.formatUnits(seized, token.decimals),
+          received: ethers.formatUnits(received, token.decimals),
+          seizedUsd: toUsd(seized, token, price),
+          receivedUsd: toUsd(received, token, price)
+        };
+      }));
+
+      const collateralSeizedUsd = sumOrNull(collateral.map(c => c.seizedUsd));
+      const receivedUsd = sumOrNull(collateral.map(c => c.receivedUsd));
+      const paidUsd = toUsd(data.liquidatorPaid, data.debtToken, debtPrice);
+
+      return {
+        protocol,
+        kind: data.kind,
+        market: data.market,
+        liquidator: data.liquidator,
+        borrower: data.borrower,
+        blockNumber: data.blockNumber,
+        transactionHash: data.transactionHash,
+        logIndex: data.logIndex,
+        debtToken: data.debtToken,
+        debtRepaid: ethers.formatUnits(data.debtRepaid, data.debtToken.decimals),
+        debtRepaidUsd: toUsd(data.debtRepaid, data.debtToken, debtPrice),
+        collateral,
+        collateralSeizedUsd,
+        liquidatorProfitUsd: receivedUsd === null || paidUsd === null ? null : receivedUsd - paidUsd
+      };
+    }));
+  }
+
+  /**
+   * Totals over a block range, with liquidations sorted oldest first
+   */
+  static summarize(liquidations: Liquidation[], window: { fromBlock: number; toBlock: number }): LiquidationSummary {
+    const sorted = [...liquidations].sort((a, b) => a.blockNumber - b.blockNumber || a.logIndex - b.logIndex);
+    const priced = sorted.filter(l =>
+      l.debtRepaidUsd !== null && l.collateralSeizedUsd !== null && l.liquidatorProfitUsd !== null);
+
+    return {
+      fromBlock: window.fromBlock,
+      toBlock: window.toBlock,
+      count: sorted.length,
+      debtRepaidUsd: priced.reduce((sum, l) => sum + l.debtRepaidUsd!, 0),
+      collateralSeizedUsd: priced.reduce((sum, l) => sum + l.collateralSeizedUsd!, 0),
+      liquidatorProfitUsd: priced.reduce((sum, l) => sum + l.liquidatorProfitUsd!, 0),
+      unpricedLiquidations: sorted.length - priced.length,
+      liquidations: sorted
+    };
+  }
+
+  /**
+   * Whether any log carries a liquidation event of a built-in lending
+   * market. Emitters are not verified, so this only suits categorisation.
+   */
+  static isLiquidation(logs: readonly { topics: readonly string[] }[]): boolean {
+    return logs.some(log => LIQUIDATION_TOPICS.includes(log.topics[0]));
+  }
+}
+
+function toUsd(amount: bigint, token: TokenInfo, price: number | null): number | null {
+  return price === null ? null : parseFloat(ethers.formatUnits(amount, token.decimals)) * price;
+}
+
+function sumOrNull(values: (number | null)[]): number | null {
+  return values.some(value => value === null) ? null : values.reduce<number>((sum, value) => sum + value!, 0);
+}
+
+export default LiquidationCalculator;
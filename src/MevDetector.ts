@@ -0,0 +1,159 @@
+/**
+ * MEV Detector
+ *
+ * Looks for sandwiches and back-runs around an analysed swap among the
+ * other swaps its pools executed in the same block. A sandwich is a swap
+ * in the victim's direction before it and one against it afterwards,
+ * sent by the same account or through the same contract. A back-run is a
+ * swap against the victim's direction in the very next transaction.
+ *
+ * The victim's loss is estimated from how far each front-run moved its
+ * pool's price: without it the swap would have executed at a price better
+ * by that move, a first-order estimate that holds best for small swaps.
+ */
+
+import { SwapHop, TokenAmount } from './DeFiProtocolAnalyzer';
+
+export type MevType = 'sandwich' | 'backrun';
+
+export interface MevTransaction {
+  hash: string;
+  transactionIndex: number;
+  from: string;
+  to: string | null;
+}
+
+/**
+ * A swap decoded from a block's pool logs, with the transaction it belongs to
+ */
+export interface BlockSwap {
+  hop: SwapHop;
+  transactionHash: string;
+  transactionIndex: number;
+}
+
+export interface MevActivity {
+  type: MevType;
+  pool: string;
+  /** Sandwiches only */
+  frontrun?: MevTransaction;
+  backrun: MevTransaction;
+  /** What ties a sandwich's two transactions together */
+  matchedBy?: 'sender' | 'contract';
+  /** Adverse move of the pool's price caused by the front-run, as a percentage */
+  frontrunPriceImpact?: number;
+}
+
+export interface MevAnalysis {
+  sandwiched: boolean;
+  backrun: boolean;
+  activity: MevActivity[];
+  /** Output lost to front-running against executing without it, in whole tokenOut */
+  victimLoss: string;
+  /** The loss as a percentage of the output without front-running */
+  victimLossPercent: number;
+}
+
+export interface MevScan {
+  victim: MevTransaction;
+  route: SwapHop[];
+  tokenOut: TokenAmount;
+  /** Swaps in the same block from the pools on the route, the victim's included */
+  blockSwaps: BlockSwap[];
+  getTransaction(hash: string): Promise<MevTransaction>;
+  getPriceImpact(swap: BlockSwap): Promise<number | null>;
+  /** Whether a contract is public, like a protocol router, so calling it ties two swaps to nobody */
+  isPublicContract(address: string): boolean;
+}
+
+export class MevDetector {
+  /**
+   * Check every pool on the route for a sandwich, falling back to a back-run
+   */
+  static async detect(scan: MevScan): Promise<MevAnalysis> {
+    const transactions = new Map<string, Promise<MevTransaction>>();
+    const getTransaction = (hash: string): Promise<MevTransaction> => {
+      let transaction = transactions.get(hash);
+      if (!transaction) {
+        transaction = scan.getTransaction(hash);
+        transactions.set(hash, transaction);
+      }
+      return transaction;
+    };
+
+    const activity: MevActivity[] = [];
+    let retainedFraction = 1;
+
+    for (const hop of scan.route) {
+      const poolSwaps = scan.blockSwaps
+        .filter(swap => sameAddress(swap.hop.pool, hop.pool) && swap.transactionIndex !== scan.victim.transactionIndex)
+        .sort((a, b) => a.hop.logIndex - b.hop.logIndex);
+      const sameDirection = (swap: BlockSwap) => sameAddress(swap.hop.tokenIn.address, hop.tokenIn.address);
+      const before = poolSwaps.filter(swap => swap.transactionIndex < scan.victim.transactionIndex && sameDirection(swap)).reverse();
+      const after = poolSwaps.filter(swap => swap.transactionIndex > scan.victim.transactionIndex);
+
+      const sandwich = await findSandwich(before, after.filter(swap => !sameDirection(swap)), getTransaction, scan.isPublicContract);
+      if (sandwich) {
+        const priceImpact = await scan.getPriceImpact(sandwich.frontrun);
+        activity.push({
+          type: 'sandwich',
+          pool: hop.pool,
+          frontrun: await getTransaction(sandwich.frontrun.transactionHash),
+          backrun: await getTransaction(sandwich.backrun.transactionHash),
+          matchedBy: sandwich.matchedBy,
+          frontrunPriceImpact: priceImpact ?? undefined
+        });
+        retainedFraction *= 1 - Math.max(priceImpact ?? 0, 0) / 100;
+        continue;
+      }
+
+      const next = after[0];
+      if (next && next.transactionIndex === scan.victim.transactionIndex + 1 && !sameDirection(next)) {
+        activity.push({ type: 'backrun', pool: hop.pool, backrun: await getTransaction(next.transactionHash) });
+      }
+    }
+
+    // Each front-run scaled the output of every later hop by its price move
+    const output = parseFloat(scan.tokenOut.amount);
+    const victimLoss = retainedFraction > 0 ? output / retainedFraction - output : 0;
+
+    return {
+      sandwiched: activity.some(entry => entry.type === 'sandwich'),
+      backrun: activity.some(entry => entry.type === 'backrun'),
+      activity,
+      victimLoss: victimLoss.toFixed(scan.tokenOut.decimals),
+      victimLossPercent: (1 - retainedFraction) * 100
+    };
+  }
+}
+
+/**
+ * The latest front-run and earliest back-run that share a sender or a
+ * called contract
+ */
+async function findSandwich(
+  frontruns: BlockSwap[],
+  backruns: BlockSwap[],
+  getTransaction: (hash: string) => Promise<MevTransaction>,
+  isPublicContract: (address: string) => boolean
+): Promise<{ frontrun: BlockSwap; backrun: BlockSwap; matchedBy: 'sender' | 'contract' } | null> {
+  for (const frontrun of frontruns) {
+    const front = await getTransaction(frontrun.transactionHash);
+    for (const backrun of backruns) {
+      const back = await getTransaction(backrun.transactionHash);
+      if (sameAddress(front.from, back.from)) {
+        return { frontrun, backrun, matchedBy: 'sender' };
+      }
+      if (front.to && back.to && sameAddress(front.to, back.to) && !isPublicContract(front.to)) {
+        return { frontrun, backrun, matchedBy: 'contract' };
+      }
+    }
+  }
+  return null;
+}
+
+function sameAddress(a: string, b: string): boolean {
+  return a.toLowerCase() === b.toLowerCase();
+}
+
+export default MevDetector;
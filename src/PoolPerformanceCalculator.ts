@@ -0,0 +1,285 @@
+/**
+ * Pool Performance Calculator
+ *
+ * Measures what a pool's liquidity earned from a trailing window of swaps.
+ * Fee APR is the window's LP fees annualised over the value of the
+ * liquidity that earned them, which for a full-range pool is its TVL. In a
+ * concentrated pool each swap's fee is shared by the liquidity active at
+ * its tick, so fees are summed per unit of that liquidity and compared
+ * with the value of one unit spread over the ticks the window traded
+ * through, at the pool's current price: the return of a position covering
+ * that range. Swaps are placed at the tick they left the pool at, exact
+ * for swaps that stay within one initialised tick.
+ */
+
+import { SupportedProtocol } from './config';
+import { SwapHop, TokenInfo } from './DeFiProtocolAnalyzer';
+import { ImpermanentLossCalculator } from './ImpermanentLossCalculator';
+import { PriceSource } from './PriceSource';
+import { PoolState } from './protocols/types';
+import { sqrtPriceX96ToPrice } from './protocols/utils';
+import { valueHop, VolumeOptions } from './VolumeCalculator';
+
+export interface PoolPerformance {
+  address: string;
+  tvlUsd: number;
+  /**
+   * Value of the liquidity that earned the window's fees: the TVL of a
+   * full-range pool, the active liquidity across the traded ticks of a
+   * concentrated one. Null when it cannot be priced.
+   */
+  inRangeLiquidityUsd: number | null;
+  volumeUsd: number;
+  feesUsd: number;
+  swapCount: number;
+  /** Window fees annualised over the in-range liquidity, as a percentage */
+  feeApr: number | null;
+  /** Window volume over TVL */
+  volumeTvlRatio: number | null;
+}
+
+export interface TickRangePerformance {
+  tickLower: number;
+  tickUpper: number;
+  /** Whole-token price of token0 in token1 at the range's bounds */
+  priceLower: number;
+  priceUpper: number;
+  swapCount: number;
+  volumeUsd: number;
+  feesUsd: number;
+  /** APR of a position covering just this range, as a percentage */
+  feeApr: number | null;
+}
+
+export interface PoolComparison extends PoolPerformance {
+  /** Swap fee percentage */
+  fee: number;
+  /** Fees earned per dollar of TVL against the pair's best pool, 1 for the best */
+  feeEfficiency: number | null;
+}
+
+export interface PoolPerformanceReport extends PoolPerformance {
+  protocol: SupportedProtocol;
+  token0: TokenInfo;
+  token1: TokenInfo;
+  /** Swap fee percentage */
+  fee: number;
+  concentrated: boolean;
+  fromBlock: number;
+  toBlock: number;
+  windowSeconds: number;
+  /** Concentrated pools only: the window's swaps bucketed by the tick they left the pool at */
+  tickRanges?: TickRangePerformance[];
+  /** The protocol's pools trading the same pair, this one included, by fee APR */
+  peers: PoolComparison[];
+}
+
+export interface PoolPerformanceOptions extends VolumeOptions {
+  /** Ticks per range of a concentrated pool's breakdown, ten tick spacings by default */
+  tickRangeWidth?: number;
+}
+
+export interface PerformanceWindow {
+  fromBlock: number;
+  toBlock: number;
+  windowSeconds: number;
+}
+
+interface ValuedSwap {
+  hop: SwapHop;
+  valueUsd: number;
+  feeUsd: number;
+}
+
+type PriceLookup = (token: TokenInfo) => Promise<number | null>;
+
+const SECONDS_PER_YEAR = 365 * 24 * 60 * 60;
+
+const DEFAULT_RANGE_SPACINGS = 10;
+
+export class PoolPerformanceCalculator {
+  /**
+   * Volume, fees and fee APR of one pool's swaps over the window. Without
+   * a concentrated state the pool is treated as full range.
+   */
+  static async measure(
+    address: string,
+    hops: SwapHop[],
+    tvlUsd: number,
+    window: PerformanceWindow,
+    priceSource: PriceSource,
+    state?: PoolState
+  ): Promise<PoolPerformance> {
+    const getPrice = cachePrices(priceSource, window.toBlock);
+    const swaps = await valueSwaps(hops, getPrice);
+    const volumeUsd = swaps.reduce((sum, swap) => sum + swap.valueUsd, 0);
+    const feesUsd = swaps.reduce((sum, swap) => sum + swap.feeUsd, 0);
+
+    let inRangeLiquidityUsd: number | null = tvlUsd;
+    let feeApr = tvlUsd > 0 ? annualise(feesUsd / tvlUsd, window) : null;
+    if (state?.concentrated) {
+      const { tick, tickSpacing, liquidity } = state.concentrated;
+      let minTick = tick;
+      let maxTick = tick;
+      for (const swap of swaps) {
+        if (swap.hop.tick === undefined) continue;
+        minTick = Math.min(minTick, swap.hop.tick);
+        maxTick = Math.max(maxTick, swap.hop.tick);
+      }
+      const tickLower = Math.floor(minTick / tickSpacing) * tickSpacing;
+      const tickUpper = Math.floor(maxTick / tickSpacing) * tickSpacing + tickSpacing;
+
+      const unitValue = await valueLiquidityUnit(state, tickLower, tickUpper, getPrice);
+      inRangeLiquidityUsd = unitValue !== null ? toWholeLiquidity(liquidity, state) * unitValue : null;
+      feeApr = unitValue ? annualise(feesPerLiquidity(swaps, state) / unitValue, window) : null;
+    }
+
+    return {
+      address,
+      tvlUsd,
+      inRangeLiquidityUsd,
+      volumeUsd,
+      feesUsd,
+      swapCount: hops.length,
+      feeApr,
+      volumeTvlRatio: tvlUsd > 0 ? volumeUsd / tvlUsd : null
+    };
+  }
+
+  /**
+   * A concentrated pool's swaps bucketed into tick ranges of the given
+   * width, lowest first, leaving out ranges nothing traded in
+   */
+  static async tickRanges(
+    state: PoolState,
+    hops: SwapHop[],
+    window: PerformanceWindow,
+    priceSource: PriceSource,
+    width?: number
+  ): Promise<TickRangePerformance[]> {
+    if (!state.concentrated) {
+      return [];
+    }
+    const rangeWidth = width ?? state.concentrated.tickSpacing * DEFAULT_RANGE_SPACINGS;
+    if (!Number.isInteger(rangeWidth) || rangeWidth < 1) {
+      throw new Error('Tick range width must be a positive whole number of ticks');
+    }
+
+    const getPrice = cachePrices(priceSource, window.toBlock);
+    const buckets = new Map<number, ValuedSwap[]>();
+    for (const swap of await valueSwaps(hops, getPrice)) {
+      if (swap.hop.tick === undefined) continue;
+      const tickLower = Math.floor(swap.hop.tick / rangeWidth) * rangeWidth;
+      const bucket = buckets.get(tickLower);
+      if (bucket) {
+        bucket.push(swap);
+      } else {
+        buckets.set(tickLower, [swap]);
+      }
+    }
+
+    const { token0, token1 } = state;
+    const ranges: TickRangePerformance[] = [];
+    for (const [tickLower, swaps] of [...buckets].sort(([a], [b]) => a - b)) {
+      const tickUpper = tickLower + rangeWidth;
+      const unitValue = await valueLiquidityUnit(state, tickLower, tickUpper, getPrice);
+      ranges.push({
+        tickLower,
+        tickUpper,
+        priceLower: ImpermanentLossCalculator.tickToPrice(tickLower, token0.decimals, token1.decimals),
+        priceUpper: ImpermanentLossCalculator.tickToPrice(tickUpper, token0.decimals, token1.decimals),
+        swapCount: swaps.length,
+        volumeUsd: swaps.reduce((sum, swap) => sum + swap.valueUsd, 0),
+        feesUsd: swaps.reduce((sum, swap) => sum + swap.feeUsd, 0),
+        feeApr: unitValue ? annualise(feesPerLiquidity(swaps, state) / unitValue, window) : null
+      });
+    }
+
+    return ranges;
+  }
+
+  /**
+   * Rate pools of the same pair against each other, best fee APR first
+   */
+  static compare(pools: (PoolPerformance & { fee: number })[]): PoolComparison[] {
+    const feeYield = (pool: PoolPerformance) => pool.tvlUsd > 0 ? pool.feesUsd / pool.tvlUsd : null;
+    const bestYield = Math.max(0, ...pools.map(pool => feeYield(pool) ?? 0));
+
+    return pools
+      .map(pool => {
+        const poolYield = feeYield(pool);
+        return { ...pool, feeEfficiency: poolYield !== null && bestYield > 0 ? poolYield / bestYield : null };
+      })
+      .sort((a, b) => (b.feeApr ?? -Infinity) - (a.feeApr ?? -Infinity) || b.tvlUsd - a.tvlUsd);
+  }
+}
+
+function cachePrices(priceSource: PriceSource, blockNumber: number): PriceLookup {
+  const prices = new Map<string, Promise<number | null>>();
+  return (token: TokenInfo) => {
+    const key = token.address.toLowerCase();
+    let price = prices.get(key);
+    if (!price) {
+      price = priceSource.getPriceUsd(token, blockNumber);
+      prices.set(key, price);
+    }
+    return price;
+  };
+}
+
+/**
+ * Value each hop like VolumeCalculator does, unpriced hops at zero
+ */
+async function valueSwaps(hops: SwapHop[], getPrice: PriceLookup): Promise<ValuedSwap[]> {
+  const swaps: ValuedSwap[] = [];
+  for (const hop of hops) {
+    const valueUsd = await valueHop(hop, getPrice) ?? 0;
+    swaps.push({ hop, valueUsd, feeUsd: valueUsd * hop.fee / 100 });
+  }
+  return swaps;
+}
+
+/**
+ * USD fees earned by one whole-token unit of liquidity in range of every swap
+ */
+function feesPerLiquidity(swaps: ValuedSwap[], state: PoolState): number {
+  return swaps.reduce((sum, swap) => {
+    const liquidity = swap.hop.liquidity ? toWholeLiquidity(BigInt(swap.hop.liquidity), state) : 0;
+    return liquidity > 0 ? sum + swap.feeUsd / liquidity : sum;
+  }, 0);
+}
+
+/**
+ * USD value of one whole-token unit of liquidity between two ticks at the
+ * pool's current price, or null when neither token can be priced
+ */
+async function valueLiquidityUnit(
+  state: PoolState,
+  tickLower: number,
+  tickUpper: number,
+  getPrice: PriceLookup
+): Promise<number | null> {
+  const { token0, token1 } = state;
+  const price = sqrtPriceX96ToPrice(state.concentrated!.sqrtPriceX96, token0.decimals, token1.decimals);
+  const token0Price = await getPrice(token0);
+  const token1Price = await getPrice(token1) ?? (token0Price !== null && price > 0 ? token0Price / price : null);
+  if (token1Price === null) {
+    return null;
+  }
+
+  const range = {
+    priceLower: ImpermanentLossCalculator.tickToPrice(tickLower, token0.decimals, token1.decimals),
+    priceUpper: ImpermanentLossCalculator.tickToPrice(tickUpper, token0.decimals, token1.decimals)
+  };
+  return ImpermanentLossCalculator.calculate(range, price, price).positionValue * token1Price;
+}
+
+function toWholeLiquidity(liquidity: bigint, state: PoolState): number {
+  return Number(liquidity) / 10 ** ((state.token0.decimals + state.token1.decimals) / 2);
+}
+
+function annualise(windowReturn: number, window: PerformanceWindow): number {
+  return windowReturn * SECONDS_PER_YEAR / window.windowSeconds * 100;
+}
+
+export default PoolPerformanceCalculator;
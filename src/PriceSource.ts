@@ -0,0 +1,133 @@
+/**
+ * Price Source
+ *
+ * Pluggable USD price sources for DeFi analytics. The default source reads
+ * Uniswap V3 pool prices on Base at the requested block, so values
+ * computed for a historical block are reproducible.
+ */
+
+import { ethers } from 'ethers';
+import { TokenInfo } from './DeFiProtocolAnalyzer';
+import { sqrtPriceX96ToPrice } from './protocols/utils';
+
+export interface PriceSource {
+  /**
+   * USD price of one whole token at a block, or null when it cannot be priced
+   */
+  getPriceUsd(token: TokenInfo, blockTag: ethers.BlockTag): Promise<number | null>;
+}
+
+const UNISWAP_V3_FACTORY = '0x33128a8fC17869897dcE68Ed026d694621f6FDfD';
+
+const WETH: TokenInfo = { address: '0x4200000000000000000000000000000000000006', symbol: 'WETH', decimals: 18 };
+const USDC: TokenInfo = { address: '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913', symbol: 'USDC', decimals: 6 };
+
+// Treated as $1; depegs are out of scope for this source
+const STABLECOINS = [
+  USDC.address,
+  '0xd9aAEc86B65D86f6A7B5B1b0c42FFA531710b6CA', // USDbC
+  '0x50c5725949A6F0c72E6C4a641F24049A917DB0Cb' // DAI
+].map(address => address.toLowerCase());
+
+const FEE_TIERS = [100, 500, 3000, 10000];
+
+// Quote-side balance a pool needs before its price is trusted
+const MIN_QUOTE_DEPTH: Record<string, bigint> = {
+  [USDC.address.toLowerCase()]: 1_000n * 10n ** 6n,
+  [WETH.address.toLowerCase()]: 10n ** 18n / 2n
+};
+
+const UNISWAP_V3_FACTORY_ABI = [
+  'function getPool(address tokenA, address tokenB, uint24 fee) view returns (address)'
+];
+
+const POOL_PRICE_ABI = [
+  'function slot0() view returns (uint160 sqrtPriceX96, int24 tick, uint16 observationIndex, uint16 observationCardinality, uint16 observationCardinalityNext, uint8 feeProtocol, bool unlocked)'
+];
+
+const ERC20_BALANCE_ABI = [
+  'function balanceOf(address account) view returns (uint256)'
+];
+
+/**
+ * Prices tokens against USDC, or against WETH and then USDC, using the
+ * deepest Uniswap V3 pool pairing them
+ */
+export class UniswapV3PriceSource implements PriceSource {
+  private provider: ethers.Provider;
+  private cache: Map<string, Promise<number | null>> = new Map();
+
+  constructor(provider: ethers.Provider) {
+    this.provider = provider;
+  }
+
+  async getPriceUsd(token: TokenInfo, blockTag: ethers.BlockTag): Promise<number | null> {
+    const address = token.address.toLowerCase();
+    if (STABLECOINS.includes(address)) {
+      return 1;
+    }
+
+    // Only pinned blocks are cacheable; 'latest' moves
+    if (typeof blockTag !== 'number') {
+      return this.fetchPriceUsd(token, blockTag).catch(() => null);
+    }
+
+    const cacheKey = `${address}:${blockTag}`;
+    let price = this.cache.get(cacheKey);
+    if (!price) {
+      price = this.fetchPriceUsd(token, blockTag).catch(() => null);
+      this.cache.set(cacheKey, price);
+    }
+    return price;
+  }
+
+  private async fetchPriceUsd(token: TokenInfo, blockTag: ethers.BlockTag): Promise<number | null> {
+    const inUsdc = await this.getPoolPrice(token, USDC, blockTag);
+    if (inUsdc !== null || token.address.toLowerCase() === WETH.address.toLowerCase()) {
+      return inUsdc;
+    }
+
+    const inWeth = await this.getPoolPrice(token, WETH, blockTag);
+    if (inWeth === null) {
+      return null;
+    }
+    const wethUsd = await this.getPriceUsd(WETH, blockTag);
+    return wethUsd === null ? null : inWeth * wethUsd;
+  }
+
+  /**
+   * Quote tokens per whole token, from the fee tier holding the most quote liquidity
+   */
+  private async getPoolPrice(token: TokenInfo, quote: TokenInfo, blockTag: ethers.BlockTag): Promise<number | null> {
+    const overrides = { blockTag };
+    const factory = new ethers.Contract(UNISWAP_V3_FACTORY, UNISWAP_V3_FACTORY_ABI, this.provider);
+    const quoteToken = new ethers.Contract(quote.address, ERC20_BALANCE_ABI, this.provider);
+
+    const pools: string[] = await Promise.all(
+      FEE_TIERS.map(fee => factory.getPool(token.address, quote.address, fee, overrides))
+    );
+
+    let deepest: { address: string; depth: bigint } | null = null;
+    for (const pool of pools) {
+      if (pool === ethers.ZeroAddress) continue;
+      const depth: bigint = await quoteToken.balanceOf(pool, overrides);
+      if (!deepest || depth > deepest.depth) {
+        deepest = { address: pool, depth };
+      }
+    }
+
+    if (!deepest || deepest.depth < MIN_QUOTE_DEPTH[quote.address.toLowerCase()]) {
+      return null;
+    }
+
+    const pool = new ethers.Contract(deepest.address, POOL_PRICE_ABI, this.provider);
+    const { sqrtPriceX96 } = await pool.slot0(overrides);
+    const tokenIsToken0 = token.address.toLowerCase() < quote.address.toLowerCase();
+
+    return tokenIsToken0
+      ? sqrtPriceX96ToPrice(sqrtPriceX96, token.decimals, quote.decimals)
+      : 1 / sqrtPriceX96ToPrice(sqrtPriceX96, quote.decimals, token.decimals);
+  }
+}
+
+export default UniswapV3PriceSource;
@@ -0,0 +1,162 @@
+/**
+ * Swap Router
+ *
+ * Finds exact-input routes across the registered DEX adapters that can
+ * quote, over the direct pair and two-hop paths through WETH or USDC, and
+ * ranks them by output net of the swap's gas cost.
+ */
+
+import { ethers } from 'ethers';
+import { SupportedProtocol } from './config';
+import { TokenInfo } from './DeFiProtocolAnalyzer';
+import { PriceSource } from './PriceSource';
+import { ProtocolAdapter, ProtocolAdapterContext, SwapQuote } from './protocols/types';
+
+export interface SwapRoute {
+  protocol: SupportedProtocol;
+  /** Token addresses from tokenIn to tokenOut */
+  route: string[];
+  pools: string[];
+  fees: number[];
+  amountIn: string;
+  expectedOutput: string;
+  /** Shortfall of the execution price against the marginal price, as a percentage */
+  priceImpact: number;
+  gasEstimate: number;
+  gasCostUsd: number | null;
+  /** Expected output less gas converted to tokenOut; unchanged when either cannot be priced */
+  netOutput: string;
+}
+
+export interface SwapRouteOptions {
+  blockTag?: ethers.BlockTag;
+  priceSource?: PriceSource;
+  /** Tip on top of the block's base fee, 0.001 gwei by default */
+  priorityFeePerGas?: bigint;
+}
+
+const WETH: TokenInfo = { address: '0x4200000000000000000000000000000000000006', symbol: 'WETH', decimals: 18 };
+const USDC: TokenInfo = { address: '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913', symbol: 'USDC', decimals: 6 };
+
+const INTERMEDIATE_TOKENS = [WETH.address, USDC.address];
+
+// The marginal price is approximated by quoting this fraction of the input
+const REFERENCE_AMOUNT_DIVISOR = 10_000n;
+const DEFAULT_PRIORITY_FEE = 1_000_000n; // 0.001 gwei
+
+interface Candidate {
+  adapter: ProtocolAdapter;
+  path: string[];
+  quote: SwapQuote;
+  reference?: SwapQuote;
+}
+
+export class SwapRouter {
+  /**
+   * Quote every path on every quoting adapter at the context's block, best
+   * net output first. Paths no adapter can fill are left out.
+   */
+  static async findRoutes(
+    adapters: ProtocolAdapter[],
+    tokenIn: TokenInfo,
+    tokenOut: TokenInfo,
+    amountIn: bigint,
+    context: ProtocolAdapterContext & { blockTag: number },
+    priceSource: PriceSource,
+    priorityFeePerGas: bigint = DEFAULT_PRIORITY_FEE
+  ): Promise<SwapRoute[]> {
+    const paths = buildPaths(tokenIn.address, tokenOut.address);
+    const referenceAmount = amountIn / REFERENCE_AMOUNT_DIVISOR;
+
+    const quoted = await Promise.all(adapters.flatMap(adapter => paths.map(async (path): Promise<Candidate[]> => {
+      if (!adapter.quoteExactInput) return [];
+
+      const [quotes, references] = await Promise.all([
+        adapter.quoteExactInput(path, amountIn, context).catch(() => []),
+        referenceAmount > 0n ? adapter.quoteExactInput(path, referenceAmount, context).catch(() => []) : []
+      ]);
+      return quotes.map(quote => ({
+        adapter,
+        path,
+        quote,
+        reference: references.find(reference => reference.pools.join() === quote.pools.join())
+      }));
+    })));
+    const candidates = quoted.flat();
+    if (candidates.length === 0) {
+      return [];
+    }
+
+    // Gas is priced at the quoted block too, so a ranking can be reproduced
+    const [block, ethUsd, tokenOutUsd] = await Promise.all([
+      context.provider.getBlock(context.blockTag),
+      priceSource.getPriceUsd(WETH, context.blockTag),
+      priceSource.getPriceUsd(tokenOut, context.blockTag)
+    ]);
+    const gasPrice = (block?.baseFeePerGas ?? 0n) + priorityFeePerGas;
+
+    const routes = candidates.map(({ adapter, path, quote, reference }) => {
+      const gasCostUsd = ethUsd === null
+        ? null
+        : parseFloat(ethers.formatEther(quote.gasEstimate * gasPrice)) * ethUsd;
+      const gasInTokenOut = gasCostUsd !== null && tokenOutUsd
+        ? ethers.parseUnits((gasCostUsd / tokenOutUsd).toFixed(tokenOut.decimals), tokenOut.decimals)
+        : 0n;
+
+      return {
+        netAmount: quote.amountOut - gasInTokenOut,
+        route: {
+          protocol: adapter.key,
+          route: path,
+          pools: quote.pools,
+          fees: quote.fees,
+          amountIn: ethers.formatUnits(amountIn, tokenIn.decimals),
+          expectedOutput: ethers.formatUnits(quote.amountOut, tokenOut.decimals),
+          priceImpact: calculatePriceImpact(quote, amountIn, reference, referenceAmount),
+          gasEstimate: Number(quote.gasEstimate),
+          gasCostUsd,
+          netOutput: ethers.formatUnits(quote.amountOut - gasInTokenOut, tokenOut.decimals)
+        }
+      };
+    });
+
+    return routes
+      .sort((a, b) => (b.netAmount > a.netAmount ? 1 : b.netAmount < a.netAmount ? -1 : 0))
+      .map(({ route }) => route);
+  }
+}
+
+function buildPaths(tokenIn: string, tokenOut: string): string[][] {
+  const endpoints = [tokenIn.toLowerCase(), tokenOut.toLowerCase()];
+  const paths = [[tokenIn, tokenOut]];
+  for (const middle of INTERMEDIATE_TOKENS) {
+    if (!endpoints.includes(middle.toLowerCase())) {
+      paths.push([tokenIn, middle, tokenOut]);
+    }
+  }
+  return paths;
+}
+
+/**
+ * Output per unit input against a small reference quote through the same
+ * pools; fees apply to both, so only the price movement remains
+ */
+function calculatePriceImpact(
+  quote: SwapQuote,
+  amountIn: bigint,
+  reference: SwapQuote | undefined,
+  referenceAmount: bigint
+): number {
+  if (!reference || reference.amountOut === 0n) {
+    return 0;
+  }
+
+  const actual = quote.amountOut * referenceAmount;
+  const marginal = reference.amountOut * amountIn;
+  if (actual >= marginal) {
+    return 0;
+  }
+  return Number((marginal - actual) * 1_000_000n / marginal) / 10_000;
+}
+
+export default SwapRouter;
@@ -0,0 +1,116 @@
+/**
+ * TVL Calculator
+ *
+ * Values protocol holdings from chain state: the token balances of each
+ * pool or market are read at a pinned block and priced through a
+ * pluggable PriceSource, so a snapshot can be reproduced later.
+ */
+
+import { ethers } from 'ethers';
+import { SupportedProtocol } from './config';
+import { TokenAmount, TokenInfo } from './DeFiProtocolAnalyzer';
+import { PriceSource } from './PriceSource';
+import { ProtocolAdapterContext, TVLHolding } from './protocols/types';
+
+export interface TokenValue extends TokenAmount {
+  priceUsd: number | null;
+  valueUsd: number;
+}
+
+export interface PoolTVL {
+  address: string;
+  label?: string;
+  tokens: TokenValue[];
+  valueUsd: number;
+}
+
+export interface ProtocolTVL {
+  protocol: SupportedProtocol;
+  blockNumber: number;
+  totalValueUsd: number;
+  pools: PoolTVL[];
+  unpricedTokens: string[];
+}
+
+export interface TVLOptions {
+  blockTag?: ethers.BlockTag;
+  priceSource?: PriceSource;
+}
+
+const ERC20_BALANCE_ABI = [
+  'function balanceOf(address account) view returns (uint256)'
+];
+
+// Concurrent calls per batch; ethers coalesces each batch into JSON-RPC batches
+const CALL_BATCH_SIZE = 200;
+
+export class TVLCalculator {
+  /**
+   * Value every holding at the context's block. Holdings with no balance
+   * are left out of the breakdown, which is sorted by value.
+   */
+  static async calculate(
+    protocol: SupportedProtocol,
+    holdings: TVLHolding[],
+    context: ProtocolAdapterContext & { blockTag: number },
+    priceSource: PriceSource
+  ): Promise<ProtocolTVL> {
+    const positions = holdings.flatMap(holding =>
+      holding.tokens.map(token => ({ holding, token: token.toLowerCase() }))
+    );
+
+    const balances = await mapInBatches(positions, ({ holding, token }) => {
+      const contract = new ethers.Contract(token, ERC20_BALANCE_ABI, context.provider);
+      return (contract.balanceOf(holding.address, { blockTag: context.blockTag }) as Promise<bigint>)
+        .catch(() => 0n);
+    });
+
+    const heldTokens = [...new Set(positions.filter((_, i) => balances[i] > 0n).map(({ token }) => token))];
+    const valuations = await mapInBatches(heldTokens, async address => {
+      const token = await context.getTokenInfo(address);
+      return { token, priceUsd: await priceSource.getPriceUsd(token, context.blockTag) };
+    });
+    const tokens = new Map<string, { token: TokenInfo; priceUsd: number | null }>(
+      heldTokens.map((address, i) => [address, valuations[i]])
+    );
+
+    const pools = new Map<TVLHolding, PoolTVL>();
+    positions.forEach(({ holding, token: address }, i) => {
+      if (balances[i] === 0n) return;
+
+      const { token, priceUsd } = tokens.get(address)!;
+      const amount = ethers.formatUnits(balances[i], token.decimals);
+      const valueUsd = priceUsd === null ? 0 : parseFloat(amount) * priceUsd;
+
+      let pool = pools.get(holding);
+      if (!pool) {
+        pool = { address: holding.address, label: holding.label, tokens: [], valueUsd: 0 };
+        pools.set(holding, pool);
+      }
+      pool.tokens.push({ ...token, amount, priceUsd, valueUsd });
+      pool.valueUsd += valueUsd;
+    });
+
+    const breakdown = [...pools.values()].sort((a, b) => b.valueUsd - a.valueUsd);
+
+    return {
+      protocol,
+      blockNumber: context.blockTag,
+      totalValueUsd: breakdown.reduce((sum, pool) => sum + pool.valueUsd, 0),
+      pools: breakdown,
+      unpricedTokens: [...tokens.values()]
+        .filter(({ priceUsd }) => priceUsd === null)
+        .map(({ token }) => token.address)
+    };
+  }
+}
+
+async function mapInBatches<T, R>(items: T[], fn: (item: T) => Promise<R>): Promise<R[]> {
+  const results: R[] = [];
+  for (let i = 0; i < items.length; i += CALL_BATCH_SIZE) {
+    results.push(...await Promise.all(items.slice(i, i + CALL_BATCH_SIZE).map(fn)));
+  }
+  return results;
+}
+
+export default TVLCalculator;
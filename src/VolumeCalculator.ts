@@ -0,0 +1,113 @@
+/**
+ * Volume Calculator
+ *
+ * Aggregates decoded swap hops into USD volume and LP fees per pool. Each
+ * hop is valued on its input side, falling back to its output side when
+ * the input token cannot be priced, at the closing block of the window.
+ */
+
+import { ethers } from 'ethers';
+import { SupportedProtocol } from './config';
+import { SwapHop, TokenInfo } from './DeFiProtocolAnalyzer';
+import { PriceSource } from './PriceSource';
+
+export interface PoolVolume {
+  address: string;
+  volumeUsd: number;
+  feesUsd: number;
+  swapCount: number;
+}
+
+export interface ProtocolVolume {
+  protocol: SupportedProtocol;
+  fromBlock: number;
+  toBlock: number;
+  volumeUsd: number;
+  feesUsd: number;
+  swapCount: number;
+  unpricedSwaps: number;
+  pools: PoolVolume[];
+}
+
+export interface VolumeOptions {
+  /** Last block of the window, latest by default */
+  blockTag?: ethers.BlockTag;
+  /** Window length, 24 hours by default */
+  windowSeconds?: number;
+  priceSource?: PriceSource;
+}
+
+export class VolumeCalculator {
+  /**
+   * Sum swap hops over a block window. Swaps where neither token can be
+   * priced are counted but add no volume; pools are sorted by volume.
+   */
+  static async calculate(
+    protocol: SupportedProtocol,
+    hops: SwapHop[],
+    window: { fromBlock: number; toBlock: number },
+    priceSource: PriceSource
+  ): Promise<ProtocolVolume> {
+    const prices = new Map<string, Promise<number | null>>();
+    const getPrice = (token: TokenInfo): Promise<number | null> => {
+      const key = token.address.toLowerCase();
+      let price = prices.get(key);
+      if (!price) {
+        price = priceSource.getPriceUsd(token, window.toBlock);
+        prices.set(key, price);
+      }
+      return price;
+    };
+
+    const pools = new Map<string, PoolVolume>();
+    let unpricedSwaps = 0;
+
+    for (const hop of hops) {
+      const valueUsd = await valueHop(hop, getPrice);
+      if (valueUsd === null) {
+        unpricedSwaps++;
+      }
+
+      const key = hop.pool.toLowerCase();
+      let pool = pools.get(key);
+      if (!pool) {
+        pool = { address: hop.pool, volumeUsd: 0, feesUsd: 0, swapCount: 0 };
+        pools.set(key, pool);
+      }
+      pool.swapCount++;
+      pool.volumeUsd += valueUsd ?? 0;
+      pool.feesUsd += (valueUsd ?? 0) * hop.fee / 100;
+    }
+
+    const breakdown = [...pools.values()].sort((a, b) => b.volumeUsd - a.volumeUsd);
+
+    return {
+      protocol,
+      fromBlock: window.fromBlock,
+      toBlock: window.toBlock,
+      volumeUsd: breakdown.reduce((sum, pool) => sum + pool.volumeUsd, 0),
+      feesUsd: breakdown.reduce((sum, pool) => sum + pool.feesUsd, 0),
+      swapCount: hops.length,
+      unpricedSwaps,
+      pools: breakdown
+    };
+  }
+}
+
+/**
+ * USD value of a hop on its input side, falling back to its output side
+ */
+export async function valueHop(
+  hop: SwapHop,
+  getPrice: (token: TokenInfo) => Promise<number | null>
+): Promise<number | null> {
+  for (const side of [hop.tokenIn, hop.tokenOut]) {
+    const price = await getPrice(side);
+    if (price !== null) {
+      return parseFloat(side.amount) * price;
+    }
+  }
+  return null;
+}
+
+export default VolumeCalculator;
@@ -6,6 +6,8 @@
  */
 
 import { ethers, BigNumber } from 'ethers';
+import { FlashLoanDetector } from '../FlashLoanDetector';
+import { LiquidationCalculator } from '../LiquidationCalculator';
 
 export interface TransactionMetrics {
   hash: string;
@@ -36,6 +38,8 @@ export enum TransactionCategory {
   TRANSFER = 'transfer',
   DEFI_SWAP = 'defi_swap',
   DEFI_LIQUIDITY = 'defi_liquidity',
+  FLASH_LOAN = 'flash_loan',
+  LIQUIDATION = 'liquidation',
   NFT_TRADE = 'nft_trade',
   CONTRACT_DEPLOYMENT = 'contract_deployment',
   CONTRACT_INTERACTION = 'contract_interaction',
@@ -223,6 +227,16 @@ export class BaseMetricsCollector {
       return TransactionCategory.CONTRACT_DEPLOYMENT;
     }
 
+    // Flash-loan-funded transactions come first, whatever they did with the loan
+    if (FlashLoanDetector.isFlashLoan(receipt.logs)) {
+      return TransactionCategory.FLASH_LOAN;
+    }
+
+    // Liquidations move several tokens, so check before the transfer heuristics
+    if (LiquidationCalculator.isLiquidation(receipt.logs)) {
+      return TransactionCategory.LIQUIDATION;
+    }
+
     // Token transfers suggest DeFi activity
     if (tokenTransfers.length > 1) {
       return TransactionCategory.DEFI_SWAP;
@@ -292,6 +306,8 @@ export class BaseMetricsCollector {
       [TransactionCategory.TRANSFER]: 0,
       [TransactionCategory.DEFI_SWAP]: 0,
       [TransactionCategory.DEFI_LIQUIDITY]: 0,
+      [TransactionCategory.FLASH_LOAN]: 0,
+      [TransactionCategory.LIQUIDATION]: 0,
       [TransactionCategory.NFT_TRADE]: 0,
       [TransactionCategory.CONTRACT_DEPLOYMENT]: 0,
       [TransactionCategory.CONTRACT_INTERACTION]: 0,
@@ -33,6 +33,15 @@ export const BASE_NETWORKS: Record<string, NetworkConfig> = {
   }
 };
 
+// Base network constants
+export const BASE_CONSTANTS = {
+  CHAIN_ID: 8453,
+  RPC_URL: 'https://mainnet.base.org',
+  TYPICAL_GAS_PRICE_GWEI: 0.1,
+  BLOCK_TIME_SECONDS: 2,
+  NATIVE_TOKEN: 'ETH'
+} as const;
+
 export const DEFAULT_ANALYZER_CONFIG: AnalyzerConfig = {
   batchSize: 100,
   maxRetries: 3,
@@ -43,10 +52,25 @@ export const DEFAULT_ANALYZER_CONFIG: AnalyzerConfig = {
 
 export const SUPPORTED_PROTOCOLS = [
   'uniswap-v3',
+  'aerodrome',
   'aave-v3',
   'compound-v3',
+  'moonwell',
+  'morpho-blue',
   'curve',
   'balancer-v2'
 ] as const;
 
-export type SupportedProtocol = typeof SUPPORTED_PROTOCOLS[number];
+export type BuiltinProtocol = typeof SUPPORTED_PROTOCOLS[number];
+
+/**
+ * Keys of custom protocol adapters. Extend through declaration merging so
+ * registered protocols type-check wherever a SupportedProtocol is expected:
+ *
+ *   declare module 'base-transaction-analyzer/dist/config' {
+ *     interface CustomProtocols { 'my-dex': true }
+ *   }
+ */
+export interface CustomProtocols {}
+
+export type SupportedProtocol = BuiltinProtocol | Extract<keyof CustomProtocols, string>;
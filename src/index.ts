@@ -1,4 +1,4 @@
-src/index.ts  /**
+/**
  * BaseTransactionAnalyzer - A comprehensive TypeScript library for analyzing Base blockchain transactions
  * 
  * @author wearedood
@@ -6,31 +6,227 @@ src/index.ts  /**
  * @license MIT
  */
 
+import { ethers } from 'ethers';
+import { BaseTransactionAnalyzer } from './BaseTransactionAnalyzer';
+
 // Main analyzer class
-export { BaseTransactionAnalyzer, BaseTransaction, ERC20Transfer } from './BaseTransactionAnalyzer';
+export {
+  BaseTransactionAnalyzer,
+  BaseTransaction,
+  ERC20Transfer,
+  AnalyzerOptions,
+  GasAnalysis,
+  GasEfficiencyMetrics,
+  GasLimitReport
+} from './BaseTransactionAnalyzer';
 
 // Gas optimization utilities
 export { 
   GasOptimizer, 
   GasOptimizationSuggestion, 
-  OptimizationReport 
+  OptimizationReport,
+  GasCostBreakdown,
+  GasLimitUtilization,
+  MethodGasLimit,
+  BlockFeeContext,
+  FeeOverpayment,
+  GasSafetyMargin,
+  PreflightGasEstimate,
+  PreflightOptions
 } from './GasOptimizer';
 
+// OP-stack L1 data fee utilities
+export {
+  L1FeeCalculator,
+  L1FeeModel,
+  L1FeeParams,
+  L1FeeBreakdown,
+  GAS_PRICE_ORACLE_ADDRESS
+} from './L1FeeCalculator';
+
+// eth_feeHistory fee estimation
+export {
+  FeeEstimator,
+  FeeEstimate,
+  FeeEstimateOptions,
+  FeeTier
+} from './FeeEstimator';
+
+// Gas price history
+export {
+  GasPriceHistory,
+  GasPriceSample,
+  GasPriceStore,
+  MemoryGasPriceStore,
+  FeeStats,
+  GasPriceBucket,
+  GasPriceHistoryReport,
+  GasPriceHistoryOptions
+} from './GasPriceHistory';
+
+// DeFi protocol analysis
+export {
+  DeFiProtocolAnalyzer,
+  ProtocolConfig,
+  ProtocolDetection,
+  AccountHistoryOptions,
+  AccountPositionOptions,
+  DetectionSignal,
+  RegisterProtocolOptions,
+  PoolRankingMetric,
+  PoolSummary,
+  PositionImpermanentLossOptions,
+  TopPoolsOptions,
+  TransactionClassification,
+  SwapAnalysis,
+  SwapAnalysisOptions,
+  SwapHop,
+  SlippageLimit,
+  LiquidityAnalysis,
+  ConcentratedLiquidityPosition,
+  YieldAnalysis,
+  PoolInfo,
+  TokenInfo,
+  TokenAmount
+} from './DeFiProtocolAnalyzer';
+
+// Protocol adapters and the registry contract for custom protocols
+export {
+  AaveV3Adapter,
+  AerodromeAdapter,
+  BalancerV2Adapter,
+  CompoundV3Adapter,
+  CurveAdapter,
+  MoonwellAdapter,
+  MorphoBlueAdapter,
+  UniswapV3Adapter,
+  CollateralPosition,
+  ConcentratedPoolState,
+  FlashLoanData,
+  LendingEvent,
+  LendingEventType,
+  LendingPosition,
+  LiquidationData,
+  LiquidationKind,
+  LiquidityData,
+  ProtocolAction,
+  ProtocolAdapter,
+  ProtocolAdapterContext,
+  ProtocolCategory,
+  PoolReserves,
+  PoolState,
+  PositionState,
+  SeizedCollateral,
+  SwapLimit,
+  SwapQuote,
+  TVLHolding,
+  YieldData,
+  createBuiltinAdapters,
+  validateProtocolAdapter
+} from './protocols';
+
+// On-chain valuation
+export {
+  TVLCalculator,
+  ProtocolTVL,
+  PoolTVL,
+  TokenValue,
+  TVLOptions
+} from './TVLCalculator';
+
+export {
+  VolumeCalculator,
+  ProtocolVolume,
+  PoolVolume,
+  VolumeOptions
+} from './VolumeCalculator';
+
+export {
+  PoolPerformanceCalculator,
+  PerformanceWindow,
+  PoolComparison,
+  PoolPerformance,
+  PoolPerformanceOptions,
+  PoolPerformanceReport,
+  TickRangePerformance
+} from './PoolPerformanceCalculator';
+
+export {
+  ArbitrageScanner,
+  ArbitrageOpportunity,
+  ArbitrageLeg,
+  ArbitrageOptions,
+  DEFAULT_ARBITRAGE_TOKENS
+} from './ArbitrageScanner';
+
+export {
+  SwapRouter,
+  SwapRoute,
+  SwapRouteOptions
+} from './SwapRouter';
+
+export {
+  ImpermanentLossCalculator,
+  ImpermanentLoss,
+  ImpermanentLossPoint,
+  PositionImpermanentLoss,
+  PriceGridOptions,
+  PriceRange,
+  FULL_RANGE
+} from './ImpermanentLossCalculator';
+
+export {
+  LiquidationCalculator,
+  Liquidation,
+  LiquidatedCollateral,
+  LiquidationOptions,
+  LiquidationSummary
+} from './LiquidationCalculator';
+
+export {
+  CandleCalculator,
+  Candle,
+  CandleInterval,
+  CandleOptions,
+  CandleSeries,
+  PoolSwap,
+  CANDLE_INTERVAL_SECONDS
+} from './CandleCalculator';
+
+export {
+  FlashLoanDetector,
+  FlashLoan
+} from './FlashLoanDetector';
+
+export {
+  MevDetector,
+  MevAnalysis,
+  MevActivity,
+  MevScan,
+  MevTransaction,
+  MevType,
+  BlockSwap
+} from './MevDetector';
+
+export {
+  PriceSource,
+  UniswapV3PriceSource
+} from './PriceSource';
+
+export {
+  BASE_CONSTANTS,
+  SUPPORTED_PROTOCOLS,
+  BuiltinProtocol,
+  CustomProtocols,
+  SupportedProtocol
+} from './config';
+
 // Re-export ethers for convenience
 export { ethers } from 'ethers';
 
 // Library version
 export const VERSION = '1.0.0';
 
-// Base network constants
-export const BASE_CONSTANTS = {
-  CHAIN_ID: 8453,
-  RPC_URL: 'https://mainnet.base.org',
-  TYPICAL_GAS_PRICE_GWEI: 0.1,
-  BLOCK_TIME_SECONDS: 2,
-  NATIVE_TOKEN: 'ETH'
-} as const;
-
 // Common contract addresses on Base
 export const BASE_CONTRACTS = {
   // Base native bridge
@@ -40,6 +236,7 @@ export const BASE_CONTRACTS = {
   // Base system contracts
   L2_TO_L1_MESSAGE_PASSER: '0x4200000000000000000000000000000000000016',
   L1_BLOCK_ATTRIBUTES: '0x4200000000000000000000000000000000000015',
+  GAS_PRICE_ORACLE: '0x420000000000000000000000000000000000000F',
   
   // Common tokens (examples)
   WETH: '0x4200000000000000000000000000000000000006',
@@ -0,0 +1,179 @@
+/**
+ * Aave V3 adapter
+ *
+ * Decodes Aave V3 Pool supply, withdraw, borrow, repay and liquidation
+ * events and reads the reserve's current rates for APR. Liquidations are
+ * also decoded on their own, with the collateral the liquidator received,
+ * and so are flash loans.
+ */
+
+import { ethers } from 'ethers';
+import { ProtocolConfig } from '../DeFiProtocolAnalyzer';
+import { FlashLoanData, LiquidationData, ProtocolAction, ProtocolAdapter, ProtocolAdapterContext, YieldData } from './types';
+
+const AAVE_V3_POOL_ABI = [
+  'event Supply(address indexed reserve, address user, address indexed onBehalfOf, uint256 amount, uint16 indexed referralCode)',
+  'event Withdraw(address indexed reserve, address indexed user, address indexed to, uint256 amount)',
+  'event Borrow(address indexed reserve, address user, address indexed onBehalfOf, uint256 amount, uint8 interestRateMode, uint256 borrowRate, uint16 indexed referralCode)',
+  'event Repay(address indexed reserve, address indexed user, address indexed repayer, uint256 amount, bool useATokens)',
+  'event LiquidationCall(address indexed collateralAsset, address indexed debtAsset, address indexed user, uint256 debtToCover, uint256 liquidatedCollateralAmount, address liquidator, bool receiveAToken)',
+  'event FlashLoan(address indexed target, address initiator, address indexed asset, uint256 amount, uint8 interestRateMode, uint256 premium, uint16 indexed referralCode)',
+  'function getReserveData(address asset) view returns (tuple(tuple(uint256 data) configuration, uint128 liquidityIndex, uint128 currentLiquidityRate, uint128 variableBorrowIndex, uint128 currentVariableBorrowRate, uint128 currentStableBorrowRate, uint40 lastUpdateTimestamp, uint16 id, address aTokenAddress, address stableDebtTokenAddress, address variableDebtTokenAddress, address interestRateStrategyAddress, uint128 accruedToTreasury, uint128 unbacked, uint128 isolationModeTotalDebt))'
+];
+
+export const LIQUIDATION_CALL_TOPIC = '0xe413a321e8681d831f4dbccbca790d2952b56f977908e45be37335533e005286';
+
+// FlashLoan(address indexed target, address initiator, address indexed asset, uint256 amount, uint8 interestRateMode, uint256 premium, uint16 indexed referralCode)
+export const AAVE_FLASH_LOAN_TOPIC = '0xefefaba5e921573100900a3ad9cf29f222d995fb3b6045797eaea7521bd8d6f0';
+
+// Aave rates are APRs expressed in ray (1e27); dividing by 1e25 yields a percentage
+const RAY_TO_PERCENT = 10n ** 25n;
+
+const ACTIONS: Record<string, YieldData['action']> = {
+  Supply: 'stake',
+  Withdraw: 'unstake',
+  Borrow: 'borrow',
+  Repay: 'repay',
+  LiquidationCall: 'liquidate'
+};
+
+export class AaveV3Adapter implements ProtocolAdapter {
+  readonly key = 'aave-v3';
+  readonly category = 'lending';
+
+  readonly config: ProtocolConfig = {
+    name: 'Aave V3',
+    version: '3.0',
+    contractAddresses: {
+      pool: '0xA238Dd80C259a72e81d7e4664a9801593F98d1c5'
+    },
+    abi: AAVE_V3_POOL_ABI
+  };
+
+  private poolInterface = new ethers.Interface(AAVE_V3_POOL_ABI);
+
+  classify(logs: readonly ethers.Log[]): ProtocolAction | null {
+    return logs.some(log => this.parsePoolLog(log)) ? 'yield' : null;
+  }
+
+  async decodeYield(logs: readonly ethers.Log[], context: ProtocolAdapterContext): Promise<YieldData | null> {
+    for (const log of logs) {
+      const parsed = this.parsePoolLog(log);
+      if (!parsed) continue;
+      const action = ACTIONS[parsed.name];
+
+      // Liquidations are reported in terms of the debt the liquidator repaid
+      const asset: string = parsed.name === 'LiquidationCall' ? parsed.args.debtAsset : parsed.args.reserve;
+      const amount: bigint = parsed.name === 'LiquidationCall' ? parsed.args.debtToCover : parsed.args.amount;
+      const token = await context.getTokenInfo(asset);
+
+      return {
+        action,
+        token: {
+          address: token.address,
+          symbol: token.symbol,
+          amount: ethers.formatUnits(amount, token.decimals)
+        },
+        apr: await this.getReserveApr(asset, action, context)
+      };
+    }
+
+    return null;
+  }
+
+  /**
+   * LiquidationCall reports the collateral sent to the liquidator, after the
+   * protocol's liquidation fee, so seized and received are the same amount
+   */
+  async decodeLiquidations(logs: readonly ethers.Log[], context: ProtocolAdapterContext): Promise<LiquidationData[]> {
+    const liquidations: LiquidationData[] = [];
+
+    for (const log of logs) {
+      const parsed = this.parsePoolLog(log);
+      if (parsed?.name !== 'LiquidationCall') continue;
+
+      const { args } = parsed;
+      const [debtToken, collateralToken] = await Promise.all([
+        context.getTokenInfo(args.debtAsset),
+        context.getTokenInfo(args.collateralAsset)
+      ]);
+      liquidations.push({
+        kind: 'liquidate',
+        market: log.address,
+        liquidator: args.liquidator,
+        borrower: args.user,
+        debtToken,
+        debtRepaid: args.debtToCover,
+        liquidatorPaid: args.debtToCover,
+        collateral: [{ token: collateralToken, seized: args.liquidatedCollateralAmount, received: args.liquidatedCollateralAmount }],
+        blockNumber: log.blockNumber,
+        transactionHash: log.transactionHash,
+        logIndex: log.index
+      });
+    }
+
+    return liquidations;
+  }
+
+  async getLiquidationLogs(context: ProtocolAdapterContext, fromBlock: number, toBlock: number): Promise<ethers.Log[]> {
+    return context.getLogs({ address: this.config.contractAddresses.pool!, topics: [LIQUIDATION_CALL_TOPIC] }, fromBlock, toBlock);
+  }
+
+  /**
+   * flashLoan emits one FlashLoan per asset and flashLoanSimple a single
+   * one. A loan left open as variable debt owes no premium.
+   */
+  async decodeFlashLoans(logs: readonly ethers.Log[], context: ProtocolAdapterContext): Promise<FlashLoanData[]> {
+    const pool = this.config.contractAddresses.pool!.toLowerCase();
+    const loans: FlashLoanData[] = [];
+
+    for (const log of logs) {
+      if (log.topics[0] !== AAVE_FLASH_LOAN_TOPIC || log.address.toLowerCase() !== pool) continue;
+
+      const { args } = this.poolInterface.parseLog(log)!;
+      loans.push({
+        lender: log.address,
+        receiver: args.target,
+        token: await context.getTokenInfo(args.asset),
+        amount: args.amount,
+        fee: args.premium,
+        logIndex: log.index
+      });
+    }
+
+    return loans;
+  }
+
+  /**
+   * Parse a Pool log carrying one of the user actions this adapter reports
+   */
+  private parsePoolLog(log: ethers.Log): ethers.LogDescription | null {
+    if (log.address.toLowerCase() !== this.config.contractAddresses.pool!.toLowerCase()) {
+      return null;
+    }
+    try {
+      const parsed = this.poolInterface.parseLog(log);
+      return parsed && ACTIONS[parsed.name] ? parsed : null;
+    } catch {
+      return null;
+    }
+  }
+
+  private async getReserveApr(
+    asset: string,
+    action: YieldData['action'],
+    context: ProtocolAdapterContext
+  ): Promise<number | undefined> {
+    try {
+      const pool = new ethers.Contract(this.config.contractAddresses.pool!, AAVE_V3_POOL_ABI, context.provider);
+      const reserve = await pool.getReserveData(asset, { blockTag: context.blockTag });
+      const isDebtSide = action === 'borrow' || action === 'repay' || action === 'liquidate';
+      const rate: bigint = isDebtSide ? reserve.currentVariableBorrowRate : reserve.currentLiquidityRate;
+      return Number(rate * 10_000n / RAY_TO_PERCENT) / 10_000;
+    } catch {
+      return undefined;
+    }
+  }
+}
+
+export default AaveV3Adapter;
@@ -0,0 +1,533 @@
+/**
+ * Aerodrome adapter
+ *
+ * Decodes swaps from Aerodrome volatile and stable pools (the Velodrome V2
+ * design) and Slipstream concentrated liquidity pools (the Uniswap V3
+ * design). Pools are verified against the Aerodrome pool factory, which
+ * also supplies each volatile or stable pool's current fee, or the
+ * Slipstream factory. Liquidity covers the volatile and stable pools and
+ * Slipstream positions. Yield covers gauge staking,
+ * veAERO locks and fee and bribe claims, verified through the Voter.
+ */
+
+import { ethers } from 'ethers';
+import { PoolInfo, ProtocolConfig, SwapHop } from '../DeFiProtocolAnalyzer';
+import { decodeVoterYield, GAUGE_TOPICS, isVoterContract, VOTING_ESCROW_TOPICS } from './gauges';
+import { decodePositionChange, POSITION_MANAGER_TOPICS, readPosition, SLIPSTREAM_POSITION_LAYOUT } from './positions';
+import {
+  LiquidityData,
+  PoolReserves,
+  PoolState,
+  PositionState,
+  ProtocolAction,
+  ProtocolAdapter,
+  ProtocolAdapterContext,
+  SwapLimit,
+  SwapQuote,
+  TVLHolding,
+  YieldData
+} from './types';
+import {
+  buildSwapHop,
+  cartesianProduct,
+  FactoryPoolIndex,
+  findPreviousLog,
+  getConcentratedPriceImpact,
+  getLpTokenDelta,
+  resolveBlockNumber,
+  toPoolShare,
+  topicToAddress
+} from './utils';
+
+const AERODROME_POOL_ABI = [
+  'event Swap(address indexed sender, address indexed to, uint256 amount0In, uint256 amount1In, uint256 amount0Out, uint256 amount1Out)',
+  'event Sync(uint256 reserve0, uint256 reserve1)',
+  'event Mint(address indexed sender, uint256 amount0, uint256 amount1)',
+  'event Burn(address indexed sender, address indexed to, uint256 amount0, uint256 amount1)',
+  'function token0() view returns (address)',
+  'function token1() view returns (address)',
+  'function stable() view returns (bool)',
+  'function factory() view returns (address)',
+  'function getReserves() view returns (uint256 reserve0, uint256 reserve1, uint256 blockTimestampLast)',
+  'function totalSupply() view returns (uint256)'
+];
+
+const AERODROME_FACTORY_ABI = [
+  'function getFee(address pool, bool _stable) view returns (uint256)',
+  'function getPool(address tokenA, address tokenB, bool stable) view returns (address)'
+];
+
+const SLIPSTREAM_POOL_ABI = [
+  'event Swap(address indexed sender, address indexed recipient, int256 amount0, int256 amount1, uint160 sqrtPriceX96, uint128 liquidity, int24 tick)',
+  'function token0() view returns (address)',
+  'function token1() view returns (address)',
+  'function fee() view returns (uint24)',
+  'function tickSpacing() view returns (int24)',
+  'function slot0() view returns (uint160 sqrtPriceX96, int24 tick, uint16 observationIndex, uint16 observationCardinality, uint16 observationCardinalityNext, bool unlocked)',
+  'function liquidity() view returns (uint128)'
+];
+
+const SLIPSTREAM_FACTORY_ABI = [
+  'function getPool(address tokenA, address tokenB, int24 tickSpacing) view returns (address)'
+];
+
+const AERODROME_ROUTER_ABI = [
+  'function getAmountsOut(uint256 amountIn, tuple(address from, address to, bool stable, address factory)[] routes) view returns (uint256[] amounts)',
+  'function swapExactTokensForTokens(uint256 amountIn, uint256 amountOutMin, tuple(address from, address to, bool stable, address factory)[] routes, address to, uint256 deadline)',
+  'function swapExactETHForTokens(uint256 amountOutMin, tuple(address from, address to, bool stable, address factory)[] routes, address to, uint256 deadline)',
+  'function swapExactTokensForETH(uint256 amountIn, uint256 amountOutMin, tuple(address from, address to, bool stable, address factory)[] routes, address to, uint256 deadline)'
+];
+
+// Router swaps cost a fixed overhead plus roughly this much per pool
+const ROUTER_GAS_OVERHEAD = 60_000n;
+const GAS_PER_HOP = 80_000n;
+
+const SWAP_TOPIC = '0xb3e2773606abfd36b5bd91394b3a54d1398336c65005baf7bf7a05efeffaf75b';
+// Emitted with the updated reserves just before each Swap
+const SYNC_TOPIC = '0xcf2aa50876cdfbb541206f89af0ee78d44a2abf8d328e37fa4917f982149848a';
+const MINT_TOPIC = '0x4c209b5fc8ad50758f13e2e1088ba56a560dff690a1c6fef26394f4c03821c4f';
+const BURN_TOPIC = '0x5d624aa9c148153ab3446c1b154f660ee7701e549fe9b62dab7171b1c80e6fa2';
+// Slipstream pools emit the Uniswap V3 Swap event
+const CL_SWAP_TOPIC = '0xc42079f94a6350d7e6235f29174924f928cc2ac818eb64fed8004e115fbcca67';
+
+const SLIPSTREAM_FACTORY = '0x5e7BB104d84c7CB9B682AaC2F3d509f5F406809A';
+
+// PoolCreated(address indexed token0, address indexed token1, bool indexed stable, address pool, uint256)
+const POOL_CREATED_TOPIC = '0x2128d88d14c80cb081c1252a5acff7a264671bf199ce226b53788fb26065005e';
+// First block scanned for PoolCreated, at or before the factory deployment
+const FACTORY_DEPLOYMENT_BLOCK = 3_200_000;
+
+// Factory fees are in basis points; dividing by 100 yields a percentage
+const FEE_TO_PERCENT = 100;
+// Slipstream fees are in hundredths of a bip; dividing by 1e4 yields a percentage
+const CL_FEE_TO_PERCENT = 10000;
+
+export class AerodromeAdapter implements ProtocolAdapter {
+  readonly key = 'aerodrome';
+  readonly category = 'dex';
+
+  readonly config: ProtocolConfig = {
+    name: 'Aerodrome',
+    version: '1.0',
+    contractAddresses: {
+      router: '0xcF77a3Ba9A5CA399B7c97c74d54e5b1Beb874E43',
+      factory: '0x420DD381b31aEf6683db6B902084cB0FFECe40Da',
+      positionManager: '0x827922686190790b37229fd06084350E74485b72', // Slipstream
+      voter: '0x16613524e02ad97eDfeF371bC883F2F5d6C480A5',
+      votingEscrow: '0xeBf418Fe2512e7E6bd9b87a8F0f294aCDC67e6B4'
+    },
+    abi: AERODROME_POOL_ABI
+  };
+
+  private poolInterface = new ethers.Interface(AERODROME_POOL_ABI);
+  private clPoolInterface = new ethers.Interface(SLIPSTREAM_POOL_ABI);
+  private routerInterface = new ethers.Interface(AERODROME_ROUTER_ABI);
+  private poolCache: Map<string, PoolInfo> = new Map();
+  // Settled verifications only, so a failed RPC call is retried next time
+  private verifiedPools: Map<string, boolean> = new Map();
+  private poolIndex = new FactoryPoolIndex(
+    this.config.contractAddresses.factory!,
+    POOL_CREATED_TOPIC,
+    FACTORY_DEPLOYMENT_BLOCK,
+    log => {
+      const [pool] = ethers.AbiCoder.defaultAbiCoder().decode(['address', 'uint256'], log.data);
+      return {
+        address: pool,
+        tokens: [topicToAddress(log.topics[1]), topicToAddress(log.topics[2])],
+        createdAtBlock: log.blockNumber
+      };
+    }
+  );
+
+  isPoolLog(log: ethers.Log): boolean {
+    return [SWAP_TOPIC, CL_SWAP_TOPIC, MINT_TOPIC, BURN_TOPIC, ...GAUGE_TOPICS].includes(log.topics[0]);
+  }
+
+  /**
+   * Pools are verified against the factory, and gauges and reward
+   * contracts against the Voter
+   */
+  async verifyPool(address: string, context: ProtocolAdapterContext): Promise<boolean> {
+    if (await this.isFactoryPool(address, context).catch(() => false)) {
+      return true;
+    }
+    return isVoterContract(address, this.config.contractAddresses.voter!, context);
+  }
+
+  private async isFactoryPool(address: string, context: ProtocolAdapterContext): Promise<boolean> {
+    const cacheKey = address.toLowerCase();
+    let verified = this.verifiedPools.get(cacheKey);
+    if (verified === undefined) {
+      verified = await this.verifyPoolFactory(address, context);
+      this.verifiedPools.set(cacheKey, verified);
+    }
+    return verified;
+  }
+
+  /**
+   * A pool is Aerodrome's when it names the pool or Slipstream factory and
+   * that factory resolves its tokens and stability, or tick spacing, back to it
+   */
+  private async verifyPoolFactory(address: string, context: ProtocolAdapterContext): Promise<boolean> {
+    const poolContract = new ethers.Contract(address, AERODROME_POOL_ABI, context.provider);
+    const factoryAddress: string = await poolContract.factory();
+
+    let resolved: string;
+    if (isSlipstreamFactory(factoryAddress)) {
+      const clPool = new ethers.Contract(address, SLIPSTREAM_POOL_ABI, context.provider);
+      const [token0, token1, tickSpacing] = await Promise.all([
+        clPool.token0() as Promise<string>,
+        clPool.token1() as Promise<string>,
+        clPool.tickSpacing() as Promise<bigint>
+      ]);
+      const factory = new ethers.Contract(factoryAddress, SLIPSTREAM_FACTORY_ABI, context.provider);
+      resolved = await factory.getPool(token0, token1, tickSpacing);
+    } else if (factoryAddress.toLowerCase() === this.config.contractAddresses.factory!.toLowerCase()) {
+      const pool = await this.getPool(address, context);
+      const factory = new ethers.Contract(factoryAddress, AERODROME_FACTORY_ABI, context.provider);
+      resolved = await factory.getPool(pool.token0.address, pool.token1.address, pool.stable ?? false);
+    } else {
+      return false;
+    }
+    return resolved.toLowerCase() === address.toLowerCase();
+  }
+
+  classify(logs: readonly ethers.Log[]): ProtocolAction | null {
+    const topics = logs.map(log => log.topics[0]);
+    if (topics.includes(SWAP_TOPIC) || topics.includes(CL_SWAP_TOPIC)) return 'swap';
+    if (topics.some(topic => [MINT_TOPIC, BURN_TOPIC, ...POSITION_MANAGER_TOPICS].includes(topic))) return 'liquidity';
+    if (topics.some(topic => [...GAUGE_TOPICS, ...VOTING_ESCROW_TOPICS].includes(topic))) return 'yield';
+    return null;
+  }
+
+  /**
+   * Swaps from pools the pool or Slipstream factory deployed; Velodrome
+   * forks emit the volatile and stable pools' event, and Uniswap V3 and
+   * lookalike pools Slipstream's
+   */
+  async decodeSwaps(logs: readonly ethers.Log[], context: ProtocolAdapterContext): Promise<SwapHop[]> {
+    const hops: SwapHop[] = [];
+
+    for (const log of logs) {
+      if (log.topics[0] !== SWAP_TOPIC && log.topics[0] !== CL_SWAP_TOPIC) continue;
+      if (!await this.isFactoryPool(log.address, context).catch(() => false)) continue;
+
+      const pool = await this.getPool(log.address, context);
+      if (log.topics[0] === CL_SWAP_TOPIC) {
+        const { args } = this.clPoolInterface.parseLog(log)!;
+        const amount0: bigint = args.amount0;
+        const amount1: bigint = args.amount1;
+
+        // Amounts are signed from the pool's perspective: positive flows in
+        const zeroForOne = amount0 > 0n;
+        hops.push({
+          ...buildSwapHop(log, pool, zeroForOne, zeroForOne ? amount0 : amount1, zeroForOne ? -amount1 : -amount0),
+          tick: Number(args.tick),
+          liquidity: args.liquidity.toString()
+        });
+        continue;
+      }
+
+      const { args } = this.poolInterface.parseLog(log)!;
+      const amount0In: bigint = args.amount0In;
+      const amount1In: bigint = args.amount1In;
+
+      const zeroForOne = amount0In > 0n;
+      hops.push(buildSwapHop(
+        log,
+        pool,
+        zeroForOne,
+        zeroForOne ? amount0In : amount1In,
+        zeroForOne ? args.amount1Out : args.amount0Out
+      ));
+    }
+
+    return hops;
+  }
+
+  /**
+   * Compare the pool's marginal price at the reserves the hop's Sync event
+   * reports with the reserves before it: the previous Sync from that pool in
+   * the receipt, or getReserves at the end of the previous block. Slipstream
+   * hops compare sqrtPriceX96 instead.
+   */
+  async getHopPriceImpact(hop: SwapHop, logs: readonly ethers.Log[], context: ProtocolAdapterContext): Promise<number | null> {
+    const log = logs.find(candidate => candidate.index === hop.logIndex);
+    if (log?.topics[0] === CL_SWAP_TOPIC) {
+      return getConcentratedPriceImpact(log, logs, context);
+    }
+    const sync = log && findPreviousLog(logs, log, SYNC_TOPIC);
+    if (!log || !sync) {
+      return null;
+    }
+
+    const pool = await this.getPool(log.address, context);
+    const after = this.poolInterface.parseLog(sync)!.args;
+    const previous = findPreviousLog(logs, sync, SYNC_TOPIC);
+    const before = previous
+      ? this.poolInterface.parseLog(previous)!.args
+      : await new ethers.Contract(log.address, AERODROME_POOL_ABI, context.provider)
+        .getReserves({ blockTag: await resolveBlockNumber(context) - 1 });
+
+    const priceBefore = marginalPrice(pool, before.reserve0, before.reserve1);
+    const priceAfter = marginalPrice(pool, after.reserve0, after.reserve1);
+    if (priceBefore === 0 || priceAfter === 0) {
+      return null;
+    }
+
+    // Selling token0 pushes its price in token1 down
+    const zeroForOne = this.poolInterface.parseLog(log)!.args.amount0In > 0n;
+    return (1 - (zeroForOne ? priceAfter / priceBefore : priceBefore / priceAfter)) * 100;
+  }
+
+  /**
+   * Minimum output of a router swap; the router only offers exact-input swaps
+   */
+  decodeSwapLimit(data: string): SwapLimit | null {
+    const call = this.routerInterface.parseTransaction({ data });
+    if (!call || call.name === 'getAmountsOut') {
+      return null;
+    }
+    return { kind: 'exactInput', amount: call.args.amountOutMin };
+  }
+
+  /**
+   * Quote through the router's getAmountsOut over every combination of
+   * deployed volatile and stable pools
+   */
+  async quoteExactInput(path: string[], amountIn: bigint, context: ProtocolAdapterContext): Promise<SwapQuote[]> {
+    const overrides = { blockTag: context.blockTag };
+    const factoryAddress = this.config.contractAddresses.factory!;
+    const factory = new ethers.Contract(factoryAddress, AERODROME_FACTORY_ABI, context.provider);
+    const router = new ethers.Contract(this.config.contractAddresses.router!, AERODROME_ROUTER_ABI, context.provider);
+
+    const hopPools = await Promise.all(path.slice(1).map(async (tokenOut, i) => {
+      const pools = await Promise.all([false, true].map(async stable => ({
+        stable,
+        address: await factory.getPool(path[i], tokenOut, stable, overrides) as string
+      })));
+      return pools.filter(pool => pool.address !== ethers.ZeroAddress);
+    }));
+
+    const quotes = await Promise.all(cartesianProduct(hopPools).map(async pools => {
+      const routes = pools.map((pool, i) => ({ from: path[i], to: path[i + 1], stable: pool.stable, factory: factoryAddress }));
+      try {
+        const [amounts, poolInfos] = await Promise.all([
+          router.getAmountsOut(amountIn, routes, overrides) as Promise<bigint[]>,
+          Promise.all(pools.map(pool => this.getPool(pool.address, context)))
+        ]);
+        const amountOut = amounts[amounts.length - 1];
+        if (amountOut === 0n) return null;
+
+        return {
+          pools: pools.map(pool => pool.address),
+          fees: poolInfos.map(pool => pool.fee),
+          amountOut,
+          gasEstimate: ROUTER_GAS_OVERHEAD + GAS_PER_HOP * BigInt(pools.length)
+        };
+      } catch {
+        return null;
+      }
+    }));
+
+    return quotes.filter((quote): quote is SwapQuote => quote !== null);
+  }
+
+  /**
+   * Reserves of the volatile pool; stable pools follow x³y + y³x and are
+   * not constant-product, so they are left out
+   */
+  async getPoolReserves(tokenA: string, tokenB: string, context: ProtocolAdapterContext): Promise<PoolReserves[]> {
+    const overrides = { blockTag: context.blockTag };
+    const factory = new ethers.Contract(this.config.contractAddresses.factory!, AERODROME_FACTORY_ABI, context.provider);
+    const address: string = await factory.getPool(tokenA, tokenB, false, overrides);
+    if (address === ethers.ZeroAddress) {
+      return [];
+    }
+
+    const contract = new ethers.Contract(address, AERODROME_POOL_ABI, context.provider);
+    const [pool, { reserve0, reserve1 }] = await Promise.all([
+      this.getPool(address, context),
+      contract.getReserves(overrides)
+    ]);
+    if (reserve0 === 0n || reserve1 === 0n) {
+      return [];
+    }
+
+    return [{
+      address,
+      token0: pool.token0.address,
+      token1: pool.token1.address,
+      reserve0,
+      reserve1,
+      fee: pool.fee
+    }];
+  }
+
+  /**
+   * Volatile and stable pools hold liquidity across the full price range,
+   * so this is just the pool; Slipstream pools add their price, active
+   * liquidity and tick spacing
+   */
+  async getPoolState(address: string, context: ProtocolAdapterContext): Promise<PoolState> {
+    const pool = await this.getPool(address, context);
+    if (pool.stable !== undefined) {
+      return pool;
+    }
+
+    const overrides = { blockTag: context.blockTag };
+    const contract = new ethers.Contract(address, SLIPSTREAM_POOL_ABI, context.provider);
+    const [{ sqrtPriceX96, tick }, liquidity, tickSpacing] = await Promise.all([
+      contract.slot0(overrides),
+      contract.liquidity(overrides) as Promise<bigint>,
+      contract.tickSpacing(overrides) as Promise<bigint>
+    ]);
+
+    return {
+      ...pool,
+      concentrated: { sqrtPriceX96, tick: Number(tick), liquidity, tickSpacing: Number(tickSpacing) }
+    };
+  }
+
+  /**
+   * Swap events from the factory's pools, ignoring lookalike pools of other deployments
+   */
+  async getSwapLogs(context: ProtocolAdapterContext, fromBlock: number, toBlock: number): Promise<ethers.Log[]> {
+    return this.poolIndex.getPoolLogs(context, SWAP_TOPIC, fromBlock, toBlock);
+  }
+
+  async getPoolSwapLogs(pool: string, context: ProtocolAdapterContext, fromBlock: number, toBlock: number): Promise<ethers.Log[]> {
+    return context.getLogs({ address: pool, topics: [[SWAP_TOPIC, CL_SWAP_TOPIC]] }, fromBlock, toBlock);
+  }
+
+  /**
+   * Slipstream position changes, otherwise a volatile or stable pool Mint or Burn
+   */
+  async decodeLiquidity(logs: readonly ethers.Log[], context: ProtocolAdapterContext): Promise<LiquidityData | null> {
+    const position = await decodePositionChange(logs, this.config.contractAddresses.positionManager!, context);
+    if (position) {
+      return position;
+    }
+
+    const log = logs.find(candidate => candidate.topics[0] === MINT_TOPIC || candidate.topics[0] === BURN_TOPIC);
+    if (!log) {
+      return null;
+    }
+
+    const pool = await this.getPool(log.address, context);
+    const { args } = this.poolInterface.parseLog(log)!;
+    const contract = new ethers.Contract(log.address, AERODROME_POOL_ABI, context.provider);
+    const totalSupply: bigint = await contract.totalSupply({ blockTag: context.blockTag });
+    const lpDelta = getLpTokenDelta(logs, log.address);
+
+    return {
+      action: log.topics[0] === MINT_TOPIC ? 'add' : 'remove',
+      pool: {
+        address: pool.address,
+        token0: { address: pool.token0.address, symbol: pool.token0.symbol, amount: ethers.formatUnits(args.amount0, pool.token0.decimals) },
+        token1: { address: pool.token1.address, symbol: pool.token1.symbol, amount: ethers.formatUnits(args.amount1, pool.token1.decimals) },
+        fee: pool.fee
+      },
+      lpTokens: ethers.formatUnits(lpDelta < 0n ? -lpDelta : lpDelta, 18),
+      poolShare: toPoolShare(lpDelta, totalSupply)
+    };
+  }
+
+  /**
+   * veAERO locks, gauge staking, and emission, fee and bribe claims. APR
+   * comes from the gauge's reward rate against its staked value at the block.
+   */
+  async decodeYield(logs: readonly ethers.Log[], context: ProtocolAdapterContext): Promise<YieldData | null> {
+    const { voter, votingEscrow } = this.config.contractAddresses;
+    return decodeVoterYield(logs, { voter: voter!, votingEscrow: votingEscrow! }, context);
+  }
+
+  /**
+   * A Slipstream position NFT
+   */
+  async getPosition(positionId: string, context: ProtocolAdapterContext): Promise<PositionState | null> {
+    return readPosition(this.config.contractAddresses.positionManager!, positionId, SLIPSTREAM_POSITION_LAYOUT, context);
+  }
+
+  /**
+   * Every pool the factory had deployed by the context's block
+   */
+  async getTVLHoldings(context: ProtocolAdapterContext): Promise<TVLHolding[]> {
+    const pools = await this.poolIndex.getPools(context, await resolveBlockNumber(context));
+    return pools.map(({ address, tokens }) => ({ address, tokens }));
+  }
+
+  /**
+   * Resolve pool tokens and fee, with stability for volatile and stable
+   * pools, cached per pool address
+   */
+  async getPool(address: string, context: ProtocolAdapterContext): Promise<PoolInfo> {
+    const cacheKey = address.toLowerCase();
+    const cached = this.poolCache.get(cacheKey);
+    if (cached) {
+      return cached;
+    }
+
+    const contract = new ethers.Contract(address, AERODROME_POOL_ABI, context.provider);
+    const [token0, token1, factoryAddress] = await Promise.all([
+      contract.token0() as Promise<string>,
+      contract.token1() as Promise<string>,
+      contract.factory() as Promise<string>
+    ]);
+
+    const pool: PoolInfo = {
+      address,
+      type: this.key,
+      token0: await context.getTokenInfo(token0),
+      token1: await context.getTokenInfo(token1),
+      ...await this.getPoolFee(address, factoryAddress, context)
+    };
+
+    this.poolCache.set(cacheKey, pool);
+    return pool;
+  }
+
+  /**
+   * A Slipstream pool reports its own fee; the pool factory sets volatile
+   * and stable pools' fees
+   */
+  private async getPoolFee(
+    address: string,
+    factoryAddress: string,
+    context: ProtocolAdapterContext
+  ): Promise<{ fee: number; stable?: boolean }> {
+    if (isSlipstreamFactory(factoryAddress)) {
+      const clPool = new ethers.Contract(address, SLIPSTREAM_POOL_ABI, context.provider);
+      const fee: bigint = await clPool.fee();
+      return { fee: Number(fee) / CL_FEE_TO_PERCENT };
+    }
+
+    const contract = new ethers.Contract(address, AERODROME_POOL_ABI, context.provider);
+    const stable: boolean = await contract.stable();
+    const factory = new ethers.Contract(factoryAddress, AERODROME_FACTORY_ABI, context.provider);
+    const fee: bigint = await factory.getFee(address, stable);
+    return { fee: Number(fee) / FEE_TO_PERCENT, stable };
+  }
+}
+
+function isSlipstreamFactory(address: string): boolean {
+  return address.toLowerCase() === SLIPSTREAM_FACTORY.toLowerCase();
+}
+
+/**
+ * Token1 per token0 at the margin, in whole units. Stable pools trade on
+ * x³y + xy³ = k over decimal-normalised reserves, whose slope is
+ * (3x²y + y³) / (x³ + 3xy²); volatile pools are x·y = k.
+ */
+function marginalPrice(pool: PoolInfo, reserve0: bigint, reserve1: bigint): number {
+  const x = parseFloat(ethers.formatUnits(reserve0, pool.token0.decimals));
+  const y = parseFloat(ethers.formatUnits(reserve1, pool.token1.decimals));
+  if (x === 0) {
+    return 0;
+  }
+  return pool.stable
+    ? (3 * x * x * y + y ** 3) / (x ** 3 + 3 * x * y * y)
+    : y / x;
+}
+
+export default AerodromeAdapter;
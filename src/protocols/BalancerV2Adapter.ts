@@ -0,0 +1,204 @@
+/**
+ * Balancer V2 adapter
+ *
+ * All Balancer V2 pools settle through the Vault, so swaps and joins/exits
+ * are decoded from the Vault's Swap and PoolBalanceChanged events. The
+ * Vault also lends its whole balance of any token as flash loans.
+ */
+
+import { ethers } from 'ethers';
+import { LiquidityAnalysis, ProtocolConfig, SwapHop } from '../DeFiProtocolAnalyzer';
+import { FlashLoanData, LiquidityData, ProtocolAction, ProtocolAdapter, ProtocolAdapterContext } from './types';
+import { getLpTokenDelta, toPoolShare } from './utils';
+
+const BALANCER_VAULT_ABI = [
+  'event Swap(bytes32 indexed poolId, address indexed tokenIn, address indexed tokenOut, uint256 amountIn, uint256 amountOut)',
+  'event PoolBalanceChanged(bytes32 indexed poolId, address indexed liquidityProvider, address[] tokens, int256[] deltas, uint256[] protocolFeeAmounts)',
+  'event FlashLoan(address indexed recipient, address indexed token, uint256 amount, uint256 feeAmount)'
+];
+
+const BALANCER_POOL_ABI = [
+  'function getPoolId() view returns (bytes32)',
+  'function getSwapFeePercentage() view returns (uint256)',
+  'function totalSupply() view returns (uint256)'
+];
+
+// Swap(bytes32 indexed poolId, address indexed tokenIn, address indexed tokenOut, uint256 amountIn, uint256 amountOut)
+const SWAP_TOPIC = '0x2170c741c41531aec20e7c107c24eecfdd15e69c9bb0a8dd37b1840b9e0b207b';
+
+// FlashLoan(address indexed recipient, address indexed token, uint256 amount, uint256 feeAmount)
+export const BALANCER_FLASH_LOAN_TOPIC = '0x0d7d75e01ab95780d3cd1c8ec0dd6c2ce19e3a20427eec8bf53283b6fb8e95f0';
+
+// Swap fee percentages are 18-decimal fractions; dividing by 1e16 yields a percentage
+const FEE_TO_PERCENT = 10n ** 16n;
+
+export class BalancerV2Adapter implements ProtocolAdapter {
+  readonly key = 'balancer-v2';
+  readonly category = 'dex';
+
+  readonly config: ProtocolConfig = {
+    name: 'Balancer V2',
+    version: '2.0',
+    contractAddresses: {
+      vault: '0xBA12222222228d8Ba445958a75a0704d566BF2C8'
+    },
+    abi: BALANCER_VAULT_ABI
+  };
+
+  private vaultInterface = new ethers.Interface(BALANCER_VAULT_ABI);
+
+  classify(logs: readonly ethers.Log[]): ProtocolAction | null {
+    const names = logs.map(log => this.parseVaultLog(log)?.name);
+    if (names.includes('Swap')) return 'swap';
+    if (names.includes('PoolBalanceChanged')) return 'liquidity';
+    return null;
+  }
+
+  async decodeSwaps(logs: readonly ethers.Log[], context: ProtocolAdapterContext): Promise<SwapHop[]> {
+    const hops: SwapHop[] = [];
+
+    for (const log of logs) {
+      const parsed = this.parseVaultLog(log);
+      if (!parsed || parsed.name !== 'Swap') continue;
+
+      const pool = this.poolAddressFromId(parsed.args.poolId);
+      const [tokenIn, tokenOut, fee] = await Promise.all([
+        context.getTokenInfo(parsed.args.tokenIn),
+        context.getTokenInfo(parsed.args.tokenOut),
+        this.getSwapFee(pool, context)
+      ]);
+
+      hops.push({
+        pool,
+        poolType: this.key,
+        tokenIn: { ...tokenIn, amount: ethers.formatUnits(parsed.args.amountIn, tokenIn.decimals) },
+        tokenOut: { ...tokenOut, amount: ethers.formatUnits(parsed.args.amountOut, tokenOut.decimals) },
+        fee,
+        logIndex: log.index
+      });
+    }
+
+    return hops;
+  }
+
+  /**
+   * Every swap settles through the Vault, so its Swap events cover all pools
+   */
+  async getSwapLogs(context: ProtocolAdapterContext, fromBlock: number, toBlock: number): Promise<ethers.Log[]> {
+    return context.getLogs(
+      { address: this.config.contractAddresses.vault, topics: [SWAP_TOPIC] },
+      fromBlock,
+      toBlock
+    );
+  }
+
+  /**
+   * The Vault's Swap events for the pool, selected by its indexed pool ID
+   */
+  async getPoolSwapLogs(pool: string, context: ProtocolAdapterContext, fromBlock: number, toBlock: number): Promise<ethers.Log[]> {
+    const poolId: string = await new ethers.Contract(pool, BALANCER_POOL_ABI, context.provider).getPoolId();
+    return context.getLogs(
+      { address: this.config.contractAddresses.vault, topics: [SWAP_TOPIC, poolId] },
+      fromBlock,
+      toBlock
+    );
+  }
+
+  async decodeLiquidity(logs: readonly ethers.Log[], context: ProtocolAdapterContext): Promise<LiquidityData | null> {
+    for (const log of logs) {
+      const parsed = this.parseVaultLog(log);
+      if (!parsed || parsed.name !== 'PoolBalanceChanged') continue;
+
+      const pool = this.poolAddressFromId(parsed.args.poolId);
+      const deltas: bigint[] = [...parsed.args.deltas];
+      const tokens: LiquidityAnalysis['pool']['token0'][] = [];
+      let netDelta = 0n;
+
+      for (let i = 0; i < parsed.args.tokens.length; i++) {
+        const address: string = parsed.args.tokens[i];
+        // Composable pools list their own BPT among the pool tokens
+        if (address.toLowerCase() === pool.toLowerCase()) continue;
+
+        const token = await context.getTokenInfo(address);
+        const delta = deltas[i] < 0n ? -deltas[i] : deltas[i];
+        netDelta += deltas[i];
+        tokens.push({
+          address: token.address,
+          symbol: token.symbol,
+          amount: ethers.formatUnits(delta, token.decimals)
+        });
+      }
+
+      const lpDelta = getLpTokenDelta(logs, pool);
+      const poolContract = new ethers.Contract(pool, BALANCER_POOL_ABI, context.provider);
+      const [totalSupply, fee] = await Promise.all([
+        poolContract.totalSupply({ blockTag: context.blockTag }) as Promise<bigint>,
+        this.getSwapFee(pool, context)
+      ]);
+
+      return {
+        action: netDelta >= 0n ? 'add' : 'remove',
+        pool: {
+          address: pool,
+          token0: tokens[0],
+          token1: tokens[1],
+          tokens,
+          fee
+        },
+        lpTokens: ethers.formatUnits(lpDelta < 0n ? -lpDelta : lpDelta, 18),
+        poolShare: toPoolShare(lpDelta, totalSupply)
+      };
+    }
+
+    return null;
+  }
+
+  /**
+   * One FlashLoan per token, all emitted once the loan has been repaid
+   */
+  async decodeFlashLoans(logs: readonly ethers.Log[], context: ProtocolAdapterContext): Promise<FlashLoanData[]> {
+    const loans: FlashLoanData[] = [];
+
+    for (const log of logs) {
+      const parsed = this.parseVaultLog(log);
+      if (!parsed || parsed.name !== 'FlashLoan') continue;
+
+      loans.push({
+        lender: log.address,
+        receiver: parsed.args.recipient,
+        token: await context.getTokenInfo(parsed.args.token),
+        amount: parsed.args.amount,
+        fee: parsed.args.feeAmount,
+        logIndex: log.index
+      });
+    }
+
+    return loans;
+  }
+
+  private parseVaultLog(log: ethers.Log): ethers.LogDescription | null {
+    if (log.address.toLowerCase() !== this.config.contractAddresses.vault!.toLowerCase()) {
+      return null;
+    }
+    try {
+      return this.vaultInterface.parseLog(log);
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Balancer pool IDs embed the pool address in their first 20 bytes
+   */
+  private poolAddressFromId(poolId: string): string {
+    return ethers.getAddress(ethers.dataSlice(poolId, 0, 20));
+  }
+
+  private async getSwapFee(pool: string, context: ProtocolAdapterContext): Promise<number> {
+    const contract = new ethers.Contract(pool, BALANCER_POOL_ABI, context.provider);
+    const fee: bigint = await contract.getSwapFeePercentage({ blockTag: context.blockTag });
+    return Number(fee * 10_000n / FEE_TO_PERCENT) / 10_000;
+  }
+}
+
+export default BalancerV2Adapter;
@@ -0,0 +1,345 @@
+/**
+ * Compound V3 adapter
+ *
+ * Describes the Compound V3 (Comet) USDC market on Base and recognises
+ * its supply, withdraw, collateral and absorb events. TVL is the base and
+ * collateral assets held by the market contract. Account positions are
+ * read from the market and valued with its own price feeds, so health
+ * matches what Comet itself uses to decide absorption. Liquidations are
+ * the absorptions themselves and the later purchases of absorbed collateral.
+ */
+
+import { ethers } from 'ethers';
+import { ProtocolConfig } from '../DeFiProtocolAnalyzer';
+import {
+  CollateralPosition,
+  LendingEvent,
+  LendingEventType,
+  LendingPosition,
+  LiquidationData,
+  ProtocolAction,
+  ProtocolAdapter,
+  ProtocolAdapterContext,
+  TVLHolding
+} from './types';
+import { resolveBlockNumber } from './utils';
+
+const COMET_ABI = [
+  'event Supply(address indexed from, address indexed dst, uint256 amount)',
+  'event Withdraw(address indexed src, address indexed to, uint256 amount)',
+  'event SupplyCollateral(address indexed from, address indexed dst, address indexed asset, uint256 amount)',
+  'event WithdrawCollateral(address indexed src, address indexed to, address indexed asset, uint256 amount)',
+  'event AbsorbDebt(address indexed absorber, address indexed borrower, uint256 basePaidOut, uint256 usdValue)',
+  'event AbsorbCollateral(address indexed absorber, address indexed borrower, address indexed asset, uint256 collateralAbsorbed, uint256 usdValue)',
+  'event BuyCollateral(address indexed buyer, address indexed asset, uint256 baseAmount, uint256 collateralAmount)',
+  'function baseToken() view returns (address)',
+  'function numAssets() view returns (uint8)',
+  'function getAssetInfo(uint8 i) view returns (tuple(uint8 offset, address asset, address priceFeed, uint64 scale, uint64 borrowCollateralFactor, uint64 liquidateCollateralFactor, uint64 liquidationFactor, uint128 supplyCap))',
+  'function baseTokenPriceFeed() view returns (address)',
+  'function getPrice(address priceFeed) view returns (uint256)',
+  'function balanceOf(address account) view returns (uint256)',
+  'function borrowBalanceOf(address account) view returns (uint256)',
+  'function collateralBalanceOf(address account, address asset) view returns (uint128)',
+  'function isLiquidatable(address account) view returns (bool)'
+];
+
+const SUPPLY_TOPIC = '0xd1cf3d156d5f8f0d50f6c122ed609cec09d35c9b9fb3fff6ea0959134dae424e';
+const WITHDRAW_TOPIC = '0x9b1bfa7fa9ee420a16e124f794c35ac9f90472acc99140eb2f6447c714cad8eb';
+const SUPPLY_COLLATERAL_TOPIC = '0xfa56f7b24f17183d81894d3ac2ee654e3c26388d17a28dbd9549b8114304e1f4';
+const WITHDRAW_COLLATERAL_TOPIC = '0xd6d480d5b3068db003533b170d67561494d72e3bf9fa40a266471351ebba9e16';
+const ABSORB_DEBT_TOPIC = '0x1547a878dc89ad3c367b6338b4be6a65a5dd74fb77ae044da1e8747ef1f4f62f';
+const ABSORB_COLLATERAL_TOPIC = '0x9850ab1af75177e4a9201c65a2cf7976d5d28e40ef63494b44366f86b2f9412e';
+const BUY_COLLATERAL_TOPIC = '0xf891b2a411b0e66a5f0a6ff1368670fefa287a13f541eb633a386a1a9cc7046b';
+
+export const COMET_LIQUIDATION_TOPICS = [ABSORB_DEBT_TOPIC, ABSORB_COLLATERAL_TOPIC, BUY_COLLATERAL_TOPIC];
+
+// Events index the account whose position changes as the first or second topic argument
+const TOPIC1_ACCOUNT_EVENTS = [WITHDRAW_TOPIC, WITHDRAW_COLLATERAL_TOPIC];
+const TOPIC2_ACCOUNT_EVENTS = [SUPPLY_TOPIC, SUPPLY_COLLATERAL_TOPIC, ABSORB_DEBT_TOPIC, ABSORB_COLLATERAL_TOPIC];
+
+const EVENT_TYPES: Record<string, LendingEventType> = {
+  Supply: 'supply',
+  Withdraw: 'withdraw',
+  SupplyCollateral: 'supplyCollateral',
+  WithdrawCollateral: 'withdrawCollateral',
+  AbsorbDebt: 'absorbDebt',
+  AbsorbCollateral: 'absorbCollateral'
+};
+
+// First block scanned for account events, at or before the market deployment
+const MARKET_DEPLOYMENT_BLOCK = 2_500_000;
+
+// Price feeds report USD with 8 decimals; collateral factors are 18-decimal fractions
+const PRICE_DECIMALS = 8;
+const FACTOR_DECIMALS = 18;
+
+export class CompoundV3Adapter implements ProtocolAdapter {
+  readonly key = 'compound-v3';
+  readonly category = 'lending';
+
+  readonly config: ProtocolConfig = {
+    name: 'Compound V3',
+    version: '3.0',
+    contractAddresses: {
+      pool: '0x9c4ec768c28520B50860ea7a15bd7213a9fF58bf' // USDC market
+    },
+    abi: COMET_ABI
+  };
+
+  private cometInterface = new ethers.Interface(COMET_ABI);
+
+  classify(logs: readonly ethers.Log[]): ProtocolAction | null {
+    const comet = this.config.contractAddresses.pool!.toLowerCase();
+    const isCometEvent = (log: ethers.Log): boolean => {
+      if (log.address.toLowerCase() !== comet) return false;
+      try {
+        return this.cometInterface.parseLog(log) !== null;
+      } catch {
+        return false;
+      }
+    };
+    return logs.some(isCometEvent) ? 'yield' : null;
+  }
+
+  /**
+   * The market's base token and every listed collateral asset
+   */
+  async getTVLHoldings(context: ProtocolAdapterContext): Promise<TVLHolding[]> {
+    const cometAddress = this.config.contractAddresses.pool!;
+    const comet = new ethers.Contract(cometAddress, COMET_ABI, context.provider);
+    const overrides = { blockTag: context.blockTag };
+
+    const [baseToken, assets] = await Promise.all([
+      comet.baseToken(overrides) as Promise<string>,
+      this.getAssets(comet, overrides)
+    ]);
+
+    return [{
+      address: cometAddress,
+      tokens: [baseToken, ...assets.map(info => info.asset as string)],
+      label: 'cUSDCv3'
+    }];
+  }
+
+  /**
+   * Base balance, every collateral asset the account holds and the health
+   * Comet's absorb check would see. Collateral counts toward liquidation at
+   * its liquidateCollateralFactor.
+   */
+  async getAccountPosition(account: string, context: ProtocolAdapterContext): Promise<LendingPosition> {
+    const cometAddress = this.config.contractAddresses.pool!;
+    const comet = new ethers.Contract(cometAddress, COMET_ABI, context.provider);
+    const overrides = { blockTag: context.blockTag };
+
+    const [blockNumber, baseTokenAddress, basePriceFeed, supplied, borrowed, isLiquidatable, assets] = await Promise.all([
+      resolveBlockNumber(context),
+      comet.baseToken(overrides) as Promise<string>,
+      comet.baseTokenPriceFeed(overrides) as Promise<string>,
+      comet.balanceOf(account, overrides) as Promise<bigint>,
+      comet.borrowBalanceOf(account, overrides) as Promise<bigint>,
+      comet.isLiquidatable(account, overrides) as Promise<boolean>,
+      this.getAssets(comet, overrides)
+    ]);
+    const [baseToken, basePrice] = await Promise.all([
+      context.getTokenInfo(baseTokenAddress),
+      comet.getPrice(basePriceFeed, overrides) as Promise<bigint>
+    ]);
+    const basePriceUsd = toNumber(basePrice, PRICE_DECIMALS);
+    const suppliedUsd = parseFloat(ethers.formatUnits(supplied, baseToken.decimals)) * basePriceUsd;
+    const borrowedUsd = parseFloat(ethers.formatUnits(borrowed, baseToken.decimals)) * basePriceUsd;
+
+    const held = await Promise.all(assets.map(async (info): Promise<CollateralPosition | null> => {
+      const balance: bigint = await comet.collateralBalanceOf(account, info.asset, overrides);
+      if (balance === 0n) return null;
+
+      const [token, price] = await Promise.all([
+        context.getTokenInfo(info.asset),
+        comet.getPrice(info.priceFeed, overrides) as Promise<bigint>
+      ]);
+      const amount = ethers.formatUnits(balance, token.decimals);
+      const priceUsd = toNumber(price, PRICE_DECIMALS);
+      return {
+        token,
+        balance: amount,
+        priceUsd,
+        valueUsd: parseFloat(amount) * priceUsd,
+        borrowCollateralFactor: toNumber(info.borrowCollateralFactor, FACTOR_DECIMALS),
+        liquidateCollateralFactor: toNumber(info.liquidateCollateralFactor, FACTOR_DECIMALS),
+        liquidationPrice: null
+      };
+    }));
+    const collateral = held.filter((position): position is CollateralPosition => position !== null);
+
+    const liquidationThresholdUsd = collateral.reduce((sum, c) => sum + c.valueUsd * c.liquidateCollateralFactor, 0);
+    for (const position of collateral) {
+      position.liquidationPrice = calculateLiquidationPrice(position, liquidationThresholdUsd, borrowedUsd);
+    }
+
+    return {
+      market: cometAddress,
+      account,
+      blockNumber,
+      baseToken,
+      basePriceUsd,
+      supplied: ethers.formatUnits(supplied, baseToken.decimals),
+      borrowed: ethers.formatUnits(borrowed, baseToken.decimals),
+      suppliedUsd,
+      borrowedUsd,
+      collateral,
+      collateralValueUsd: collateral.reduce((sum, c) => sum + c.valueUsd, 0),
+      borrowCapacityUsd: collateral.reduce((sum, c) => sum + c.valueUsd * c.borrowCollateralFactor, 0),
+      liquidationThresholdUsd,
+      healthFactor: borrowed > 0n ? liquidationThresholdUsd / borrowedUsd : null,
+      isLiquidatable
+    };
+  }
+
+  /**
+   * Supply and Withdraw move the base balance, so they also record repaying
+   * and borrowing; absorptions record the account being liquidated
+   */
+  async getAccountHistory(
+    account: string,
+    context: ProtocolAdapterContext,
+    fromBlock: number,
+    toBlock: number
+  ): Promise<LendingEvent[]> {
+    const cometAddress = this.config.contractAddresses.pool!;
+    const accountTopic = ethers.zeroPadValue(account, 32);
+    const start = Math.max(fromBlock, MARKET_DEPLOYMENT_BLOCK);
+    if (start > toBlock) {
+      return [];
+    }
+
+    const [asFirst, asSecond] = await Promise.all([
+      context.getLogs({ address: cometAddress, topics: [TOPIC1_ACCOUNT_EVENTS, accountTopic] }, start, toBlock),
+      context.getLogs({ address: cometAddress, topics: [TOPIC2_ACCOUNT_EVENTS, null, accountTopic] }, start, toBlock)
+    ]);
+    const logs = [...asFirst, ...asSecond]
+      .sort((a, b) => a.blockNumber - b.blockNumber || a.index - b.index);
+
+    const comet = new ethers.Contract(cometAddress, COMET_ABI, context.provider);
+    const baseToken = await context.getTokenInfo(await comet.baseToken({ blockTag: toBlock }));
+
+    return Promise.all(logs.map(async log => {
+      const { name, args } = this.cometInterface.parseLog(log)!;
+      const token = args.asset ? await context.getTokenInfo(args.asset) : baseToken;
+      const amount: bigint = name === 'AbsorbDebt'
+        ? args.basePaidOut
+        : name === 'AbsorbCollateral' ? args.collateralAbsorbed : args.amount;
+      const counterparty: string = name.startsWith('Absorb')
+        ? args.absorber
+        : name.startsWith('Supply') ? args.from : args.to;
+
+      return {
+        type: EVENT_TYPES[name],
+        blockNumber: log.blockNumber,
+        transactionHash: log.transactionHash,
+        logIndex: log.index,
+        token,
+        amount: ethers.formatUnits(amount, token.decimals),
+        counterparty,
+        valueUsd: name.startsWith('Absorb') ? toNumber(args.usdValue, PRICE_DECIMALS) : undefined
+      };
+    }));
+  }
+
+  /**
+   * Absorbing an account clears its debt against the market's reserves, so
+   * the absorber pays nothing and receives nothing; Comet emits the
+   * account's AbsorbCollateral events before its AbsorbDebt. Buying
+   * absorbed collateral is where a liquidator pays in base and profits.
+   */
+  async decodeLiquidations(logs: readonly ethers.Log[], context: ProtocolAdapterContext): Promise<LiquidationData[]> {
+    const cometAddress = this.config.contractAddresses.pool!;
+    const cometLogs = logs.filter(log =>
+      log.address.toLowerCase() === cometAddress.toLowerCase() && COMET_LIQUIDATION_TOPICS.includes(log.topics[0]));
+    if (cometLogs.length === 0) {
+      return [];
+    }
+
+    const comet = new ethers.Contract(cometAddress, COMET_ABI, context.provider);
+    const baseToken = await context.getTokenInfo(await comet.baseToken({ blockTag: context.blockTag }));
+    const absorbed = new Map<string, LiquidationData['collateral']>();
+    const liquidations: LiquidationData[] = [];
+
+    for (const log of cometLogs) {
+      const { name, args } = this.cometInterface.parseLog(log)!;
+      const event = { blockNumber: log.blockNumber, transactionHash: log.transactionHash, logIndex: log.index };
+      const accountKey = `${log.transactionHash}:${(args.borrower as string | undefined)?.toLowerCase()}`;
+
+      if (name === 'AbsorbCollateral') {
+        const collateral = absorbed.get(accountKey) ?? [];
+        collateral.push({ token: await context.getTokenInfo(args.asset), seized: args.collateralAbsorbed, received: 0n });
+        absorbed.set(accountKey, collateral);
+      } else if (name === 'AbsorbDebt') {
+        liquidations.push({
+          kind: 'absorb',
+          market: cometAddress,
+          liquidator: args.absorber,
+          borrower: args.borrower,
+          debtToken: baseToken,
+          debtRepaid: args.basePaidOut,
+          liquidatorPaid: 0n,
+          collateral: absorbed.get(accountKey) ?? [],
+          ...event
+        });
+        absorbed.delete(accountKey);
+      } else {
+        const token = await context.getTokenInfo(args.asset);
+        liquidations.push({
+          kind: 'buyCollateral',
+          market: cometAddress,
+          liquidator: args.buyer,
+          debtToken: baseToken,
+          debtRepaid: 0n,
+          liquidatorPaid: args.baseAmount,
+          collateral: [{ token, seized: args.collateralAmount, received: args.collateralAmount }],
+          ...event
+        });
+      }
+    }
+
+    return liquidations;
+  }
+
+  async getLiquidationLogs(context: ProtocolAdapterContext, fromBlock: number, toBlock: number): Promise<ethers.Log[]> {
+    const start = Math.max(fromBlock, MARKET_DEPLOYMENT_BLOCK);
+    if (start > toBlock) {
+      return [];
+    }
+    return context.getLogs({ address: this.config.contractAddresses.pool!, topics: [COMET_LIQUIDATION_TOPICS] }, start, toBlock);
+  }
+
+  private async getAssets(comet: ethers.Contract, overrides: { blockTag?: ethers.BlockTag }): Promise<ethers.Result[]> {
+    const numAssets: bigint = await comet.numAssets(overrides);
+    return Promise.all(
+      Array.from({ length: Number(numAssets) }, (_, i) => comet.getAssetInfo(i, overrides))
+    );
+  }
+}
+
+/**
+ * The collateral price at which the liquidation threshold falls to the
+ * debt. Null without debt, or when the rest of the collateral covers it.
+ */
+function calculateLiquidationPrice(
+  position: CollateralPosition,
+  liquidationThresholdUsd: number,
+  borrowedUsd: number
+): number | null {
+  const units = parseFloat(position.balance) * position.liquidateCollateralFactor;
+  if (borrowedUsd === 0 || units === 0) {
+    return null;
+  }
+
+  const otherCollateralUsd = liquidationThresholdUsd - position.valueUsd * position.liquidateCollateralFactor;
+  const price = (borrowedUsd - otherCollateralUsd) / units;
+  return price > 0 ? price : null;
+}
+
+function toNumber(value: bigint, decimals: number): number {
+  return parseFloat(ethers.formatUnits(value, decimals));
+}
+
+export default CompoundV3Adapter;
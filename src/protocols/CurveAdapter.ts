@@ -0,0 +1,219 @@
+/**
+ * Curve adapter
+ *
+ * Decodes Curve stableswap, stableswap-ng and crypto pool TokenExchange,
+ * AddLiquidity and RemoveLiquidity events. Pools are verified against the
+ * Curve factories deployed on Base.
+ */
+
+import { ethers } from 'ethers';
+import { LiquidityAnalysis, ProtocolConfig, SwapHop } from '../DeFiProtocolAnalyzer';
+import { LiquidityData, ProtocolAction, ProtocolAdapter, ProtocolAdapterContext } from './types';
+import { getLpTokenDelta, toPoolShare } from './utils';
+
+const CURVE_POOL_ABI = [
+  'event TokenExchange(address indexed buyer, int128 sold_id, uint256 tokens_sold, int128 bought_id, uint256 tokens_bought)',
+  'event TokenExchange(address indexed buyer, uint256 sold_id, uint256 tokens_sold, uint256 bought_id, uint256 tokens_bought)',
+  'event AddLiquidity(address indexed provider, uint256[2] token_amounts, uint256[2] fees, uint256 invariant, uint256 token_supply)',
+  'event AddLiquidity(address indexed provider, uint256[3] token_amounts, uint256[3] fees, uint256 invariant, uint256 token_supply)',
+  'event AddLiquidity(address indexed provider, uint256[4] token_amounts, uint256[4] fees, uint256 invariant, uint256 token_supply)',
+  'event AddLiquidity(address indexed provider, uint256[] token_amounts, uint256[] fees, uint256 invariant, uint256 token_supply)',
+  'event RemoveLiquidity(address indexed provider, uint256[2] token_amounts, uint256[2] fees, uint256 token_supply)',
+  'event RemoveLiquidity(address indexed provider, uint256[3] token_amounts, uint256[3] fees, uint256 token_supply)',
+  'event RemoveLiquidity(address indexed provider, uint256[4] token_amounts, uint256[4] fees, uint256 token_supply)',
+  'event RemoveLiquidity(address indexed provider, uint256[] token_amounts, uint256[] fees, uint256 token_supply)',
+  'function coins(uint256 i) view returns (address)',
+  'function fee() view returns (uint256)',
+  'function lp_token() view returns (address)'
+];
+
+const CURVE_FACTORY_ABI = [
+  'function find_pool_for_coins(address _from, address _to, uint256 i) view returns (address)'
+];
+
+// Stableswap-NG, Twocrypto-NG and Tricrypto-NG factories on Base
+const CURVE_FACTORIES = [
+  '0xd2002373543Ce3527023C75e7518C274A51ce712',
+  '0xc9Fe0C63Af9A39402e8a5514f9c43Af0322b665F',
+  '0xA5961898870943c68037F6848d2D866Ed2016bcB'
+];
+
+// TokenExchange of stableswap pools (int128 coin ids) and of crypto pools (uint256 coin ids)
+const TOKEN_EXCHANGE_TOPICS = [
+  '0x8b3e96f2b889fa771c53c981b40daf005f63f637f1869f707052d15a3dd97140',
+  '0xb2e76ae99761dc136e598d4a629bb347eccb9532a5f8bbd72e18467c3c34cc98'
+];
+
+// Curve fees use a 1e10 denominator; dividing by 1e8 yields a percentage
+const FEE_TO_PERCENT = 1e8;
+const MAX_FACTORY_LOOKUPS = 8;
+
+export class CurveAdapter implements ProtocolAdapter {
+  readonly key = 'curve';
+  readonly category = 'dex';
+
+  readonly config: ProtocolConfig = {
+    name: 'Curve',
+    version: 'ng',
+    contractAddresses: {
+      router: '0x4f37A9d177470499A2dD084621020b023fcffc1F',
+      factory: CURVE_FACTORIES[0]
+    },
+    abi: CURVE_POOL_ABI
+  };
+
+  private poolInterface = new ethers.Interface(CURVE_POOL_ABI);
+  private coinCache: Map<string, string> = new Map();
+  // Settled verifications only, so a failed RPC call is retried next time
+  private verifiedPools: Map<string, boolean> = new Map();
+
+  isPoolLog(log: ethers.Log): boolean {
+    return this.parse(log) !== null;
+  }
+
+  async verifyPool(address: string, context: ProtocolAdapterContext): Promise<boolean> {
+    const cacheKey = address.toLowerCase();
+    let verified = this.verifiedPools.get(cacheKey);
+    if (verified === undefined) {
+      verified = await this.verifyPoolFactory(address, context);
+      this.verifiedPools.set(cacheKey, verified);
+    }
+    return verified;
+  }
+
+  /**
+   * A pool is Curve's when one of the factories lists it for its first two coins
+   */
+  private async verifyPoolFactory(address: string, context: ProtocolAdapterContext): Promise<boolean> {
+    const [coin0, coin1] = await Promise.all([
+      this.getCoin(address, 0, context),
+      this.getCoin(address, 1, context)
+    ]);
+
+    for (const factoryAddress of CURVE_FACTORIES) {
+      const factory = new ethers.Contract(factoryAddress, CURVE_FACTORY_ABI, context.provider);
+      for (let i = 0; i < MAX_FACTORY_LOOKUPS; i++) {
+        const pool: string = await factory.find_pool_for_coins(coin0, coin1, i).catch(() => ethers.ZeroAddress);
+        if (pool === ethers.ZeroAddress) break;
+        if (pool.toLowerCase() === address.toLowerCase()) return true;
+      }
+    }
+
+    return false;
+  }
+
+  classify(logs: readonly ethers.Log[]): ProtocolAction | null {
+    const names = logs.map(log => this.parse(log)?.name);
+    if (names.includes('TokenExchange')) return 'swap';
+    if (names.includes('AddLiquidity') || names.includes('RemoveLiquidity')) return 'liquidity';
+    return null;
+  }
+
+  /**
+   * Swaps from factory-verified pools; anyone can emit a TokenExchange
+   */
+  async decodeSwaps(logs: readonly ethers.Log[], context: ProtocolAdapterContext): Promise<SwapHop[]> {
+    const hops: SwapHop[] = [];
+
+    for (const log of logs) {
+      const parsed = this.parse(log);
+      if (!parsed || parsed.name !== 'TokenExchange') continue;
+      if (!await this.verifyPool(log.address, context).catch(() => false)) continue;
+
+      const [tokenIn, tokenOut, fee] = await Promise.all([
+        this.getCoin(log.address, Number(parsed.args.sold_id), context).then(coin => context.getTokenInfo(coin)),
+        this.getCoin(log.address, Number(parsed.args.bought_id), context).then(coin => context.getTokenInfo(coin)),
+        this.getFee(log.address, context)
+      ]);
+
+      hops.push({
+        pool: log.address,
+        poolType: this.key,
+        tokenIn: { ...tokenIn, amount: ethers.formatUnits(parsed.args.tokens_sold, tokenIn.decimals) },
+        tokenOut: { ...tokenOut, amount: ethers.formatUnits(parsed.args.tokens_bought, tokenOut.decimals) },
+        fee,
+        logIndex: log.index
+      });
+    }
+
+    return hops;
+  }
+
+  async getPoolSwapLogs(pool: string, context: ProtocolAdapterContext, fromBlock: number, toBlock: number): Promise<ethers.Log[]> {
+    return context.getLogs({ address: pool, topics: [TOKEN_EXCHANGE_TOPICS] }, fromBlock, toBlock);
+  }
+
+  async decodeLiquidity(logs: readonly ethers.Log[], context: ProtocolAdapterContext): Promise<LiquidityData | null> {
+    for (const log of logs) {
+      const parsed = this.parse(log);
+      if (!parsed || (parsed.name !== 'AddLiquidity' && parsed.name !== 'RemoveLiquidity')) continue;
+
+      const amounts: bigint[] = [...parsed.args.token_amounts];
+      const tokens: LiquidityAnalysis['pool']['token0'][] = [];
+      for (let i = 0; i < amounts.length; i++) {
+        const token = await context.getTokenInfo(await this.getCoin(log.address, i, context));
+        tokens.push({
+          address: token.address,
+          symbol: token.symbol,
+          amount: ethers.formatUnits(amounts[i], token.decimals)
+        });
+      }
+
+      const lpToken = await this.getLpToken(log.address, logs, context);
+      const lpDelta = getLpTokenDelta(logs, lpToken);
+      const tokenSupply: bigint = parsed.args.token_supply;
+
+      return {
+        action: parsed.name === 'AddLiquidity' ? 'add' : 'remove',
+        pool: {
+          address: log.address,
+          token0: tokens[0],
+          token1: tokens[1],
+          tokens,
+          fee: await this.getFee(log.address, context)
+        },
+        lpTokens: ethers.formatUnits(lpDelta < 0n ? -lpDelta : lpDelta, 18),
+        poolShare: toPoolShare(lpDelta, tokenSupply)
+      };
+    }
+
+    return null;
+  }
+
+  private parse(log: ethers.Log): ethers.LogDescription | null {
+    try {
+      return this.poolInterface.parseLog(log);
+    } catch {
+      return null;
+    }
+  }
+
+  private async getCoin(pool: string, index: number, context: ProtocolAdapterContext): Promise<string> {
+    const cacheKey = `${pool.toLowerCase()}:${index}`;
+    const cached = this.coinCache.get(cacheKey);
+    if (cached) return cached;
+
+    const contract = new ethers.Contract(pool, CURVE_POOL_ABI, context.provider);
+    const coin: string = await contract.coins(index);
+    this.coinCache.set(cacheKey, coin);
+    return coin;
+  }
+
+  private async getFee(pool: string, context: ProtocolAdapterContext): Promise<number> {
+    const contract = new ethers.Contract(pool, CURVE_POOL_ABI, context.provider);
+    const fee: bigint = await contract.fee({ blockTag: context.blockTag });
+    return Number(fee) / FEE_TO_PERCENT;
+  }
+
+  /**
+   * NG pools are their own LP token; legacy pools expose it via lp_token()
+   */
+  private async getLpToken(pool: string, logs: readonly ethers.Log[], context: ProtocolAdapterContext): Promise<string> {
+    if (getLpTokenDelta(logs, pool) !== 0n) return pool;
+
+    const contract = new ethers.Contract(pool, CURVE_POOL_ABI, context.provider);
+    return contract.lp_token().catch(() => pool);
+  }
+}
+
+export default CurveAdapter;
@@ -0,0 +1,136 @@
+/**
+ * Moonwell adapter
+ *
+ * Describes Moonwell's money market on Base, a Compound V2 fork in which
+ * each listed mToken market holds one underlying asset. Liquidations are
+ * LiquidateBorrow events from the comptroller's markets, emitted by the
+ * market whose debt was repaid and naming the market whose mTokens were
+ * seized. Other Compound V2 forks only differ in their comptroller.
+ */
+
+import { ethers } from 'ethers';
+import { ProtocolConfig } from '../DeFiProtocolAnalyzer';
+import { LiquidationData, ProtocolAdapter, ProtocolAdapterContext } from './types';
+
+const MTOKEN_ABI = [
+  'event LiquidateBorrow(address liquidator, address borrower, uint256 repayAmount, address mTokenCollateral, uint256 seizeTokens)',
+  'function underlying() view returns (address)',
+  'function exchangeRateStored() view returns (uint256)',
+  'function protocolSeizeShareMantissa() view returns (uint256)'
+];
+
+const COMPTROLLER_ABI = [
+  'function getAllMarkets() view returns (address[])'
+];
+
+export const LIQUIDATE_BORROW_TOPIC = '0x298637f684da70674f26509b10f07ec2fbc77a335ab1e7d6215a4b2484d8bb52';
+
+// First block scanned for liquidations, at or before the comptroller deployment
+const COMPTROLLER_DEPLOYMENT_BLOCK = 1_500_000;
+
+// Exchange rates and the protocol seize share are 18-decimal mantissas
+const MANTISSA = 10n ** 18n;
+
+export class MoonwellAdapter implements ProtocolAdapter {
+  readonly key = 'moonwell';
+  readonly category = 'lending';
+
+  readonly config: ProtocolConfig = {
+    name: 'Moonwell',
+    version: '2.0',
+    contractAddresses: {
+      comptroller: '0xfBb21d0380beE3312B33c4353c8936a0F13EF26C'
+    },
+    abi: MTOKEN_ABI
+  };
+
+  private mTokenInterface = new ethers.Interface(MTOKEN_ABI);
+  private underlyingCache: Map<string, string> = new Map();
+
+  /**
+   * Seized mTokens are converted to underlying at the collateral market's
+   * exchange rate; the protocol keeps its seize share and the liquidator
+   * receives the rest
+   */
+  async decodeLiquidations(logs: readonly ethers.Log[], context: ProtocolAdapterContext): Promise<LiquidationData[]> {
+    const candidates = logs.filter(log => log.topics[0] === LIQUIDATE_BORROW_TOPIC);
+    if (candidates.length === 0) {
+      return [];
+    }
+
+    const markets = await this.getMarkets(context);
+    const liquidations: LiquidationData[] = [];
+
+    for (const log of candidates) {
+      if (!markets.includes(log.address.toLowerCase())) continue;
+
+      const { args } = this.mTokenInterface.parseLog(log)!;
+      const overrides = { blockTag: log.blockNumber };
+      const collateralMarket = new ethers.Contract(args.mTokenCollateral, MTOKEN_ABI, context.provider);
+      const [debtToken, collateralToken, exchangeRate, seizeShare] = await Promise.all([
+        this.getUnderlying(log.address, context).then(address => context.getTokenInfo(address)),
+        this.getUnderlying(args.mTokenCollateral, context).then(address => context.getTokenInfo(address)),
+        collateralMarket.exchangeRateStored(overrides) as Promise<bigint>,
+        (collateralMarket.protocolSeizeShareMantissa(overrides) as Promise<bigint>).catch(() => 0n)
+      ]);
+
+      const seizeTokens: bigint = args.seizeTokens;
+      const liquidatorTokens = seizeTokens - seizeTokens * seizeShare / MANTISSA;
+      liquidations.push({
+        kind: 'liquidate',
+        market: log.address,
+        liquidator: args.liquidator,
+        borrower: args.borrower,
+        debtToken,
+        debtRepaid: args.repayAmount,
+        liquidatorPaid: args.repayAmount,
+        collateral: [{
+          token: collateralToken,
+          seized: seizeTokens * exchangeRate / MANTISSA,
+          received: liquidatorTokens * exchangeRate / MANTISSA
+        }],
+        blockNumber: log.blockNumber,
+        transactionHash: log.transactionHash,
+        logIndex: log.index
+      });
+    }
+
+    return liquidations;
+  }
+
+  /**
+   * LiquidateBorrow events from every market listed at the end of the range
+   */
+  async getLiquidationLogs(context: ProtocolAdapterContext, fromBlock: number, toBlock: number): Promise<ethers.Log[]> {
+    const start = Math.max(fromBlock, COMPTROLLER_DEPLOYMENT_BLOCK);
+    if (start > toBlock) {
+      return [];
+    }
+
+    const markets = await this.getMarkets({ ...context, blockTag: toBlock });
+    return context.getLogs({ address: markets, topics: [LIQUIDATE_BORROW_TOPIC] }, start, toBlock);
+  }
+
+  /**
+   * Lowercased addresses of the markets the comptroller lists at the context's block
+   */
+  private async getMarkets(context: ProtocolAdapterContext): Promise<string[]> {
+    const comptroller = new ethers.Contract(this.config.contractAddresses.comptroller!, COMPTROLLER_ABI, context.provider);
+    const markets: string[] = await comptroller.getAllMarkets({ blockTag: context.blockTag });
+    return markets.map(market => market.toLowerCase());
+  }
+
+  private async getUnderlying(market: string, context: ProtocolAdapterContext): Promise<string> {
+    const cacheKey = market.toLowerCase();
+    const cached = this.underlyingCache.get(cacheKey);
+    if (cached) {
+      return cached;
+    }
+
+    const underlying: string = await new ethers.Contract(market, MTOKEN_ABI, context.provider).underlying();
+    this.underlyingCache.set(cacheKey, underlying);
+    return underlying;
+  }
+}
+
+export default MoonwellAdapter;
@@ -0,0 +1,62 @@
+/**
+ * Morpho Blue adapter
+ *
+ * Describes Morpho Blue on Base, a singleton lending contract holding
+ * every isolated market. Its balance of any token can be flash-borrowed
+ * for free; unlike other lenders it emits FlashLoan before the callback
+ * runs, so the loan's activity follows the event.
+ */
+
+import { ethers } from 'ethers';
+import { ProtocolConfig } from '../DeFiProtocolAnalyzer';
+import { FlashLoanData, ProtocolAdapter, ProtocolAdapterContext } from './types';
+
+const MORPHO_ABI = [
+  'event FlashLoan(address indexed caller, address indexed token, uint256 assets)'
+];
+
+// FlashLoan(address indexed caller, address indexed token, uint256 assets)
+export const MORPHO_FLASH_LOAN_TOPIC = '0xc76f1b4fe4396ac07a9fa55a415d4ca430e72651d37d3401f3bed7cb13fc4f12';
+
+export class MorphoBlueAdapter implements ProtocolAdapter {
+  readonly key = 'morpho-blue';
+  readonly category = 'lending';
+
+  readonly config: ProtocolConfig = {
+    name: 'Morpho Blue',
+    version: '1.0',
+    contractAddresses: {
+      morpho: '0xBBBBBbbBBb9cC5e90e3b3Af64bdAF62C37EEFFCb'
+    },
+    abi: MORPHO_ABI
+  };
+
+  private morphoInterface = new ethers.Interface(MORPHO_ABI);
+
+  /**
+   * The caller receives the tokens and pays them back without a fee
+   */
+  async decodeFlashLoans(logs: readonly ethers.Log[], context: ProtocolAdapterContext): Promise<FlashLoanData[]> {
+    const morpho = this.config.contractAddresses.morpho!.toLowerCase();
+    const loans: FlashLoanData[] = [];
+
+    for (const log of logs) {
+      if (log.topics[0] !== MORPHO_FLASH_LOAN_TOPIC || log.address.toLowerCase() !== morpho) continue;
+
+      const { args } = this.morphoInterface.parseLog(log)!;
+      loans.push({
+        lender: log.address,
+        receiver: args.caller,
+        token: await context.getTokenInfo(args.token),
+        amount: args.assets,
+        fee: 0n,
+        logIndex: log.index,
+        emittedBeforeLending: true
+      });
+    }
+
+    return loans;
+  }
+}
+
+export default MorphoBlueAdapter;
@@ -0,0 +1,436 @@
+/**
+ * Uniswap V3 adapter
+ *
+ * Decodes swaps from Uniswap V3 pool events and position NFT changes from
+ * the NonfungiblePositionManager. Pools are verified by asking
+ * the Uniswap V3 factory to resolve the pool's tokens and fee tier back to
+ * the same address, so aggregator-routed trades are still attributed.
+ * Slippage bounds are decoded from SwapRouter02 and Universal Router calls.
+ * Flash loans are decoded from verified pools' Flash events.
+ */
+
+import { ethers } from 'ethers';
+import { PoolInfo, ProtocolConfig, SwapHop, TokenInfo } from '../DeFiProtocolAnalyzer';
+import { decodePositionChange, POSITION_MANAGER_TOPICS, readPosition, UNISWAP_V3_POSITION_LAYOUT } from './positions';
+import {
+  FlashLoanData,
+  LiquidityData,
+  PoolReserves,
+  PoolState,
+  PositionState,
+  ProtocolAction,
+  ProtocolAdapter,
+  ProtocolAdapterContext,
+  SwapLimit,
+  SwapQuote,
+  TVLHolding
+} from './types';
+import {
+  buildSwapHop,
+  cartesianProduct,
+  FactoryPoolIndex,
+  getConcentratedPriceImpact,
+  resolveBlockNumber,
+  sumSwapLimits,
+  topicToAddress
+} from './utils';
+
+const UNISWAP_V3_POOL_ABI = [
+  'event Swap(address indexed sender, address indexed recipient, int256 amount0, int256 amount1, uint160 sqrtPriceX96, uint128 liquidity, int24 tick)',
+  'event Mint(address sender, address indexed owner, int24 indexed tickLower, int24 indexed tickUpper, uint128 amount, uint256 amount0, uint256 amount1)',
+  'event Burn(address indexed owner, int24 indexed tickLower, int24 indexed tickUpper, uint128 amount, uint256 amount0, uint256 amount1)',
+  'event Flash(address indexed sender, address indexed recipient, uint256 amount0, uint256 amount1, uint256 paid0, uint256 paid1)',
+  'function token0() view returns (address)',
+  'function token1() view returns (address)',
+  'function fee() view returns (uint24)',
+  'function factory() view returns (address)',
+  'function slot0() view returns (uint160 sqrtPriceX96, int24 tick, uint16 observationIndex, uint16 observationCardinality, uint16 observationCardinalityNext, uint8 feeProtocol, bool unlocked)',
+  'function liquidity() view returns (uint128)',
+  'function tickSpacing() view returns (int24)'
+];
+
+// SwapRouter02 swaps, bare or batched through multicall
+const SWAP_ROUTER_ABI = [
+  'function exactInputSingle(tuple(address tokenIn, address tokenOut, uint24 fee, address recipient, uint256 amountIn, uint256 amountOutMinimum, uint160 sqrtPriceLimitX96) params)',
+  'function exactInput(tuple(bytes path, address recipient, uint256 amountIn, uint256 amountOutMinimum) params)',
+  'function exactOutputSingle(tuple(address tokenIn, address tokenOut, uint24 fee, address recipient, uint256 amountOut, uint256 amountInMaximum, uint160 sqrtPriceLimitX96) params)',
+  'function exactOutput(tuple(bytes path, address recipient, uint256 amountOut, uint256 amountInMaximum) params)',
+  'function swapExactTokensForTokens(uint256 amountIn, uint256 amountOutMin, address[] path, address to)',
+  'function swapTokensForExactTokens(uint256 amountOut, uint256 amountInMax, address[] path, address to)',
+  'function multicall(bytes[] data)',
+  'function multicall(uint256 deadline, bytes[] data)',
+  'function multicall(bytes32 previousBlockhash, bytes[] data)'
+];
+
+const UNIVERSAL_ROUTER_ABI = [
+  'function execute(bytes commands, bytes[] inputs)',
+  'function execute(bytes commands, bytes[] inputs, uint256 deadline)'
+];
+
+// Universal Router swap commands; each input starts (recipient, amount, limit, ...)
+const UNIVERSAL_ROUTER_SWAPS: Record<number, { kind: SwapLimit['kind']; types: string[] }> = {
+  0x00: { kind: 'exactInput', types: ['address', 'uint256', 'uint256', 'bytes', 'bool'] },
+  0x01: { kind: 'exactOutput', types: ['address', 'uint256', 'uint256', 'bytes', 'bool'] },
+  0x08: { kind: 'exactInput', types: ['address', 'uint256', 'uint256', 'address[]', 'bool'] },
+  0x09: { kind: 'exactOutput', types: ['address', 'uint256', 'uint256', 'address[]', 'bool'] }
+};
+const COMMAND_TYPE_MASK = 0x3f;
+
+const UNISWAP_V3_FACTORY_ABI = [
+  'function getPool(address tokenA, address tokenB, uint24 fee) view returns (address)'
+];
+
+// QuoterV2 simulates the swap and reverts internally, so it is called statically
+const QUOTER_V2_ABI = [
+  'function quoteExactInput(bytes path, uint256 amountIn) returns (uint256 amountOut, uint160[] sqrtPriceX96AfterList, uint32[] initializedTicksCrossedList, uint256 gasEstimate)'
+];
+
+const FEE_TIERS = [100, 500, 3000, 10000];
+
+// The quoter's gas estimate covers the pools only; the router call adds this
+const ROUTER_GAS_OVERHEAD = 60_000n;
+
+const SWAP_TOPIC = '0xc42079f94a6350d7e6235f29174924f928cc2ac818eb64fed8004e115fbcca67';
+const MINT_TOPIC = '0x7a53080ba414158be7ec69b987b5fb7d07dee101fe85488f0853ae16239d0bde';
+const BURN_TOPIC = '0x0c396cd989a39f4459b5fa1aed6a9a8dcdbc45908acfd67e028cd568da98982c';
+// Flash(address indexed sender, address indexed recipient, uint256 amount0, uint256 amount1, uint256 paid0, uint256 paid1)
+export const UNISWAP_V3_FLASH_TOPIC = '0xbdbdb71d7860376ba52b25a5028beea23581364a40522f6bcfb86bb1f2dca633';
+
+// PoolCreated(address indexed token0, address indexed token1, uint24 indexed fee, int24 tickSpacing, address pool)
+const POOL_CREATED_TOPIC = '0x783cca1c0412dd0d695e784568c96da2e9c22ff989357a2e8b1d9b2b4e6b7118';
+// First block scanned for PoolCreated, at or before the factory deployment
+const FACTORY_DEPLOYMENT_BLOCK = 1_371_680;
+
+const Q96 = 2n ** 96n;
+
+// Fee tiers are in hundredths of a bip; dividing by 1e4 yields a percentage
+const FEE_TO_PERCENT = 10000;
+
+export class UniswapV3Adapter implements ProtocolAdapter {
+  readonly key = 'uniswap-v3';
+  readonly category = 'dex';
+
+  readonly config: ProtocolConfig = {
+    name: 'Uniswap V3',
+    version: '3.0',
+    contractAddresses: {
+      router: '0x2626664c2603336E57B271c5C0b26F421741e481',
+      universalRouter: '0x3fC91A3afd70395Cd496C647d5a6CC9D4B2b7FAD',
+      factory: '0x33128a8fC17869897dcE68Ed026d694621f6FDfD',
+      quoter: '0x3d4e44Eb1374240CE5F1B871ab261CD16335B76a',
+      positionManager: '0x03a520b32C04BF3bEEf7BEb72E919cf822Ed34f1'
+    },
+    abi: UNISWAP_V3_POOL_ABI
+  };
+
+  private poolInterface = new ethers.Interface(UNISWAP_V3_POOL_ABI);
+  private routerInterface = new ethers.Interface(SWAP_ROUTER_ABI);
+  private universalRouterInterface = new ethers.Interface(UNIVERSAL_ROUTER_ABI);
+  private poolCache: Map<string, PoolInfo> = new Map();
+  // Settled verifications only, so a failed RPC call is retried next time
+  private verifiedPools: Map<string, boolean> = new Map();
+  private poolIndex = new FactoryPoolIndex(
+    this.config.contractAddresses.factory!,
+    POOL_CREATED_TOPIC,
+    FACTORY_DEPLOYMENT_BLOCK,
+    log => {
+      const [, pool] = ethers.AbiCoder.defaultAbiCoder().decode(['int24', 'address'], log.data);
+      return {
+        address: pool,
+        tokens: [topicToAddress(log.topics[1]), topicToAddress(log.topics[2])],
+        createdAtBlock: log.blockNumber
+      };
+    }
+  );
+
+  isPoolLog(log: ethers.Log): boolean {
+    return [SWAP_TOPIC, MINT_TOPIC, BURN_TOPIC, UNISWAP_V3_FLASH_TOPIC].includes(log.topics[0]);
+  }
+
+  async verifyPool(address: string, context: ProtocolAdapterContext): Promise<boolean> {
+    const cacheKey = address.toLowerCase();
+    let verified = this.verifiedPools.get(cacheKey);
+    if (verified === undefined) {
+      verified = await this.verifyPoolFactory(address, context);
+      this.verifiedPools.set(cacheKey, verified);
+    }
+    return verified;
+  }
+
+  /**
+   * A pool is Uniswap's when it names the factory and the factory resolves
+   * its tokens and fee tier back to it
+   */
+  private async verifyPoolFactory(address: string, context: ProtocolAdapterContext): Promise<boolean> {
+    const poolContract = new ethers.Contract(address, UNISWAP_V3_POOL_ABI, context.provider);
+    const factoryAddress: string = await poolContract.factory();
+    if (factoryAddress.toLowerCase() !== this.config.contractAddresses.factory!.toLowerCase()) {
+      return false;
+    }
+
+    const pool = await this.getPool(address, context);
+    const factory = new ethers.Contract(factoryAddress, UNISWAP_V3_FACTORY_ABI, context.provider);
+    const resolved: string = await factory.getPool(
+      pool.token0.address,
+      pool.token1.address,
+      Math.round(pool.fee * FEE_TO_PERCENT)
+    );
+    return resolved.toLowerCase() === address.toLowerCase();
+  }
+
+  classify(logs: readonly ethers.Log[]): ProtocolAction | null {
+    const topics = logs.map(log => log.topics[0]);
+    if (topics.includes(SWAP_TOPIC)) return 'swap';
+    if (topics.some(topic => [MINT_TOPIC, BURN_TOPIC, ...POSITION_MANAGER_TOPICS].includes(topic))) return 'liquidity';
+    return null;
+  }
+
+  /**
+   * Swaps from pools the Uniswap factory deployed; Slipstream, SushiSwap V3
+   * and lookalike pools emit the same event
+   */
+  async decodeSwaps(logs: readonly ethers.Log[], context: ProtocolAdapterContext): Promise<SwapHop[]> {
+    const hops: SwapHop[] = [];
+
+    for (const log of logs) {
+      if (log.topics[0] !== SWAP_TOPIC) continue;
+      if (!await this.verifyPool(log.address, context).catch(() => false)) continue;
+
+      const pool = await this.getPool(log.address, context);
+      const { args } = this.poolInterface.parseLog(log)!;
+      const amount0: bigint = args.amount0;
+      const amount1: bigint = args.amount1;
+
+      // Amounts are signed from the pool's perspective: positive flows in
+      const zeroForOne = amount0 > 0n;
+      hops.push({
+        ...buildSwapHop(log, pool, zeroForOne, zeroForOne ? amount0 : amount1, zeroForOne ? -amount1 : -amount0),
+        tick: Number(args.tick),
+        liquidity: args.liquidity.toString()
+      });
+    }
+
+    return hops;
+  }
+
+  async getHopPriceImpact(hop: SwapHop, logs: readonly ethers.Log[], context: ProtocolAdapterContext): Promise<number | null> {
+    const log = logs.find(candidate => candidate.index === hop.logIndex);
+    if (!log || log.topics[0] !== SWAP_TOPIC) {
+      return null;
+    }
+    return getConcentratedPriceImpact(log, logs, context);
+  }
+
+  /**
+   * Amount limits of SwapRouter02 and Universal Router swaps
+   */
+  decodeSwapLimit(data: string): SwapLimit | null {
+    const call = this.routerInterface.parseTransaction({ data })
+      ?? this.universalRouterInterface.parseTransaction({ data });
+    if (!call) {
+      return null;
+    }
+
+    switch (call.name) {
+      case 'multicall':
+        return sumSwapLimits((call.args.data as string[]).map(inner => this.decodeSwapLimit(inner)));
+      case 'execute':
+        return sumSwapLimits(decodeUniversalRouterCommands(call.args.commands, call.args.inputs));
+      case 'exactInputSingle':
+      case 'exactInput':
+        return { kind: 'exactInput', amount: call.args.params.amountOutMinimum };
+      case 'exactOutputSingle':
+      case 'exactOutput':
+        return { kind: 'exactOutput', amount: call.args.params.amountInMaximum };
+      case 'swapExactTokensForTokens':
+        return { kind: 'exactInput', amount: call.args.amountOutMin };
+      case 'swapTokensForExactTokens':
+        return { kind: 'exactOutput', amount: call.args.amountInMax };
+      default:
+        return null;
+    }
+  }
+
+  /**
+   * Quote through QuoterV2 over every combination of deployed fee tiers
+   */
+  async quoteExactInput(path: string[], amountIn: bigint, context: ProtocolAdapterContext): Promise<SwapQuote[]> {
+    const overrides = { blockTag: context.blockTag };
+    const factory = new ethers.Contract(this.config.contractAddresses.factory!, UNISWAP_V3_FACTORY_ABI, context.provider);
+    const quoter = new ethers.Contract(this.config.contractAddresses.quoter!, QUOTER_V2_ABI, context.provider);
+
+    const hopPools = await Promise.all(path.slice(1).map(async (tokenOut, i) => {
+      const pools = await Promise.all(FEE_TIERS.map(async fee => ({
+        fee,
+        address: await factory.getPool(path[i], tokenOut, fee, overrides) as string
+      })));
+      return pools.filter(pool => pool.address !== ethers.ZeroAddress);
+    }));
+
+    const quotes = await Promise.all(cartesianProduct(hopPools).map(async pools => {
+      const types = path.flatMap((_, i) => i === 0 ? ['address'] : ['uint24', 'address']);
+      const values = path.flatMap((token, i) => i === 0 ? [token] : [pools[i - 1].fee, token]);
+      try {
+        const quote = await quoter.quoteExactInput.staticCall(ethers.solidityPacked(types, values), amountIn, overrides);
+        return {
+          pools: pools.map(pool => pool.address),
+          fees: pools.map(pool => pool.fee / FEE_TO_PERCENT),
+          amountOut: quote.amountOut as bigint,
+          gasEstimate: (quote.gasEstimate as bigint) + ROUTER_GAS_OVERHEAD
+        };
+      } catch {
+        // Pools without enough liquidity for the amount revert
+        return null;
+      }
+    }));
+
+    return quotes.filter((quote): quote is SwapQuote => quote !== null);
+  }
+
+  /**
+   * Virtual reserves of the active tick, L / sqrtP and L * sqrtP, for each
+   * fee tier with in-range liquidity
+   */
+  async getPoolReserves(tokenA: string, tokenB: string, context: ProtocolAdapterContext): Promise<PoolReserves[]> {
+    const overrides = { blockTag: context.blockTag };
+    const factory = new ethers.Contract(this.config.contractAddresses.factory!, UNISWAP_V3_FACTORY_ABI, context.provider);
+    const [token0, token1] = tokenA.toLowerCase() < tokenB.toLowerCase() ? [tokenA, tokenB] : [tokenB, tokenA];
+
+    const reserves = await Promise.all(FEE_TIERS.map(async fee => {
+      const address: string = await factory.getPool(token0, token1, fee, overrides);
+      if (address === ethers.ZeroAddress) return null;
+
+      const pool = new ethers.Contract(address, UNISWAP_V3_POOL_ABI, context.provider);
+      const [{ sqrtPriceX96 }, liquidity] = await Promise.all([
+        pool.slot0(overrides),
+        pool.liquidity(overrides) as Promise<bigint>
+      ]);
+      if (liquidity === 0n || sqrtPriceX96 === 0n) return null;
+
+      return {
+        address,
+        token0,
+        token1,
+        reserve0: liquidity * Q96 / sqrtPriceX96,
+        reserve1: liquidity * sqrtPriceX96 / Q96,
+        fee: fee / FEE_TO_PERCENT
+      };
+    }));
+
+    return reserves.filter((pool): pool is PoolReserves => pool !== null);
+  }
+
+  async getPoolState(address: string, context: ProtocolAdapterContext): Promise<PoolState> {
+    const overrides = { blockTag: context.blockTag };
+    const contract = new ethers.Contract(address, UNISWAP_V3_POOL_ABI, context.provider);
+    const [pool, { sqrtPriceX96, tick }, liquidity, tickSpacing] = await Promise.all([
+      this.getPool(address, context),
+      contract.slot0(overrides),
+      contract.liquidity(overrides) as Promise<bigint>,
+      contract.tickSpacing(overrides) as Promise<bigint>
+    ]);
+
+    return {
+      ...pool,
+      concentrated: { sqrtPriceX96, tick: Number(tick), liquidity, tickSpacing: Number(tickSpacing) }
+    };
+  }
+
+  /**
+   * Swap events from the factory's pools, ignoring lookalike pools of other deployments
+   */
+  async getSwapLogs(context: ProtocolAdapterContext, fromBlock: number, toBlock: number): Promise<ethers.Log[]> {
+    return this.poolIndex.getPoolLogs(context, SWAP_TOPIC, fromBlock, toBlock);
+  }
+
+  async getPoolSwapLogs(pool: string, context: ProtocolAdapterContext, fromBlock: number, toBlock: number): Promise<ethers.Log[]> {
+    return context.getLogs({ address: pool, topics: [SWAP_TOPIC] }, fromBlock, toBlock);
+  }
+
+  /**
+   * A Flash can lend both pool tokens at once, so it yields a loan per
+   * token borrowed. The fee is what was paid back above the amount, which
+   * may exceed the pool's fee. Pools are verified since anyone can emit a
+   * lookalike Flash.
+   */
+  async decodeFlashLoans(logs: readonly ethers.Log[], context: ProtocolAdapterContext): Promise<FlashLoanData[]> {
+    const loans: FlashLoanData[] = [];
+
+    for (const log of logs) {
+      if (log.topics[0] !== UNISWAP_V3_FLASH_TOPIC) continue;
+      if (!await this.verifyPool(log.address, context).catch(() => false)) continue;
+
+      const pool = await this.getPool(log.address, context);
+      const { args } = this.poolInterface.parseLog(log)!;
+      const borrowed: [TokenInfo, bigint, bigint][] = [
+        [pool.token0, args.amount0, args.paid0],
+        [pool.token1, args.amount1, args.paid1]
+      ];
+      for (const [token, amount, fee] of borrowed) {
+        if (amount === 0n) continue;
+        loans.push({ lender: log.address, receiver: args.recipient, token, amount, fee, logIndex: log.index });
+      }
+    }
+
+    return loans;
+  }
+
+  /**
+   * Position NFT changes made through the NonfungiblePositionManager
+   */
+  async decodeLiquidity(logs: readonly ethers.Log[], context: ProtocolAdapterContext): Promise<LiquidityData | null> {
+    return decodePositionChange(logs, this.config.contractAddresses.positionManager!, context);
+  }
+
+  async getPosition(positionId: string, context: ProtocolAdapterContext): Promise<PositionState | null> {
+    return readPosition(this.config.contractAddresses.positionManager!, positionId, UNISWAP_V3_POSITION_LAYOUT, context);
+  }
+
+  /**
+   * Every pool the factory had deployed by the context's block
+   */
+  async getTVLHoldings(context: ProtocolAdapterContext): Promise<TVLHolding[]> {
+    const pools = await this.poolIndex.getPools(context, await resolveBlockNumber(context));
+    return pools.map(({ address, tokens }) => ({ address, tokens }));
+  }
+
+  /**
+   * Resolve pool tokens and fee tier, cached per pool address
+   */
+  async getPool(address: string, context: ProtocolAdapterContext): Promise<PoolInfo> {
+    const cacheKey = address.toLowerCase();
+    const cached = this.poolCache.get(cacheKey);
+    if (cached) {
+      return cached;
+    }
+
+    const contract = new ethers.Contract(address, UNISWAP_V3_POOL_ABI, context.provider);
+    const [token0, token1, fee] = await Promise.all([
+      contract.token0() as Promise<string>,
+      contract.token1() as Promise<string>,
+      contract.fee() as Promise<bigint>
+    ]);
+
+    const pool: PoolInfo = {
+      address,
+      type: this.key,
+      token0: await context.getTokenInfo(token0),
+      token1: await context.getTokenInfo(token1),
+      fee: Number(fee) / FEE_TO_PERCENT
+    };
+
+    this.poolCache.set(cacheKey, pool);
+    return pool;
+  }
+}
+
+function decodeUniversalRouterCommands(commands: string, inputs: string[]): (SwapLimit | null)[] {
+  return Array.from(ethers.getBytes(commands), (command, i) => {
+    const swap = UNIVERSAL_ROUTER_SWAPS[command & COMMAND_TYPE_MASK];
+    if (!swap) return null;
+    const [, , amount] = ethers.AbiCoder.defaultAbiCoder().decode(swap.types, inputs[i]);
+    return { kind: swap.kind, amount };
+  });
+}
+
+export default UniswapV3Adapter;
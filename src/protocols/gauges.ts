@@ -0,0 +1,266 @@
+/**
+ * Aerodrome gauges and vote escrow
+ *
+ * Decodes reward activity around Aerodrome's Voter (the Velodrome V2
+ * design). LP tokens staked in a pool's gauge earn AERO emissions, AERO
+ * locked in the VotingEscrow mints a veAERO NFT, and veAERO voters claim
+ * the trading fees and bribes paid into each pool's reward contracts.
+ *
+ * Gauges and reward contracts are deployed per pool, so they are only
+ * trusted once the Voter vouches for them: gauges through isGauge, and
+ * reward contracts through the voter they were deployed with.
+ */
+
+import { ethers } from 'ethers';
+import { TokenInfo } from '../DeFiProtocolAnalyzer';
+import { ProtocolAdapterContext, YieldData } from './types';
+
+const GAUGE_ABI = [
+  'event Deposit(address indexed from, address indexed to, uint256 amount)',
+  'event Withdraw(address indexed from, uint256 amount)',
+  'event ClaimRewards(address indexed from, uint256 amount)',
+  'function stakingToken() view returns (address)',
+  'function rewardToken() view returns (address)',
+  'function rewardRate() view returns (uint256)',
+  'function totalSupply() view returns (uint256)',
+  'function periodFinish() view returns (uint256)'
+];
+
+const VOTING_ESCROW_ABI = [
+  'event Deposit(address indexed provider, uint256 indexed tokenId, uint8 indexed depositType, uint256 value, uint256 locktime, uint256 ts)',
+  'event Withdraw(address indexed provider, uint256 indexed tokenId, uint256 value, uint256 ts)',
+  'function token() view returns (address)'
+];
+
+// Fee and bribe reward contracts share this interface
+const VOTING_REWARD_ABI = [
+  'event ClaimRewards(address indexed from, address indexed reward, uint256 amount)',
+  'function voter() view returns (address)'
+];
+
+const VOTER_ABI = [
+  'function isGauge(address gauge) view returns (bool)'
+];
+
+const STAKING_POOL_ABI = [
+  'function token0() view returns (address)',
+  'function token1() view returns (address)',
+  'function getReserves() view returns (uint256 reserve0, uint256 reserve1, uint256 blockTimestampLast)',
+  'function totalSupply() view returns (uint256)'
+];
+
+const GAUGE_DEPOSIT_TOPIC = '0x5548c837ab068cf56a2c2479df0882a4922fd203edb7517321831d95078c5f62';
+const GAUGE_WITHDRAW_TOPIC = '0x884edad9ce6fa2440d8a54cc123490eb96d2768479d49ff9c7366125a9424364';
+const GAUGE_CLAIM_TOPIC = '0x1f89f96333d3133000ee447473151fa9606543368f02271c9d95ae14f13bcc67';
+const REWARD_CLAIM_TOPIC = '0x9aa05b3d70a9e3e2f004f039648839560576334fb45c81f91b6db03ad9e2efc9';
+const LOCK_DEPOSIT_TOPIC = '0x8835c22a0c751188de86681e15904223c054bedd5c68ec8858945b7831290273';
+const LOCK_WITHDRAW_TOPIC = '0x02f25270a4d87bea75db541cdfe559334a275b4a233520ed6c0a2429667cca94';
+
+// Topics emitted by gauges and reward contracts, whose emitters need verifying
+export const GAUGE_TOPICS = [GAUGE_DEPOSIT_TOPIC, GAUGE_WITHDRAW_TOPIC, GAUGE_CLAIM_TOPIC, REWARD_CLAIM_TOPIC];
+
+export const VOTING_ESCROW_TOPICS = [LOCK_DEPOSIT_TOPIC, LOCK_WITHDRAW_TOPIC];
+
+const SECONDS_PER_YEAR = 31_536_000n;
+
+const gaugeInterface = new ethers.Interface(GAUGE_ABI);
+const votingEscrowInterface = new ethers.Interface(VOTING_ESCROW_ABI);
+const votingRewardInterface = new ethers.Interface(VOTING_REWARD_ABI);
+
+export interface VoterAddresses {
+  voter: string;
+  votingEscrow: string;
+}
+
+/**
+ * Whether a contract is a gauge or a fee or bribe reward contract of the Voter
+ */
+export async function isVoterContract(address: string, voter: string, context: ProtocolAdapterContext): Promise<boolean> {
+  const voterContract = new ethers.Contract(voter, VOTER_ABI, context.provider);
+  if (await voterContract.isGauge(address)) {
+    return true;
+  }
+
+  const reward = new ethers.Contract(address, VOTING_REWARD_ABI, context.provider);
+  const rewardVoter: string = await reward.voter().catch(() => ethers.ZeroAddress);
+  return sameAddress(rewardVoter, voter);
+}
+
+/**
+ * A veAERO lock or release, otherwise a gauge stake or unstake, otherwise
+ * the emissions, fees and bribes claimed in the receipt
+ */
+export async function decodeVoterYield(
+  logs: readonly ethers.Log[],
+  addresses: VoterAddresses,
+  context: ProtocolAdapterContext
+): Promise<YieldData | null> {
+  const lock = logs.find(log => sameAddress(log.address, addresses.votingEscrow) && VOTING_ESCROW_TOPICS.includes(log.topics[0]));
+  if (lock) {
+    return decodeLock(lock, context);
+  }
+
+  const verified = new Map<string, boolean>();
+  const voterLogs: ethers.Log[] = [];
+  for (const log of logs) {
+    if (!GAUGE_TOPICS.includes(log.topics[0])) continue;
+
+    const key = log.address.toLowerCase();
+    if (!verified.has(key)) {
+      verified.set(key, await isVoterContract(log.address, addresses.voter, context).catch(() => false));
+    }
+    if (verified.get(key)) {
+      voterLogs.push(log);
+    }
+  }
+
+  const stake = voterLogs.find(log => log.topics[0] === GAUGE_DEPOSIT_TOPIC || log.topics[0] === GAUGE_WITHDRAW_TOPIC);
+  if (stake) {
+    return decodeStake(stake, context);
+  }
+  return decodeClaims(voterLogs, context);
+}
+
+/**
+ * Annualised AERO emissions of a gauge against the value staked in it, as
+ * a percentage. The staked value is the gauge's share of the pool's LP
+ * supply applied to the pool's reserves. Zero once the reward period has
+ * ended; undefined when nothing is staked or a token cannot be priced.
+ */
+export async function getGaugeApr(gauge: string, context: ProtocolAdapterContext): Promise<number | undefined> {
+  const overrides = { blockTag: context.blockTag };
+  const contract = new ethers.Contract(gauge, GAUGE_ABI, context.provider);
+  const [stakingToken, rewardToken, rewardRate, staked, periodFinish, block] = await Promise.all([
+    contract.stakingToken(overrides) as Promise<string>,
+    contract.rewardToken(overrides) as Promise<string>,
+    contract.rewardRate(overrides) as Promise<bigint>,
+    contract.totalSupply(overrides) as Promise<bigint>,
+    contract.periodFinish(overrides) as Promise<bigint>,
+    context.provider.getBlock(context.blockTag ?? 'latest')
+  ]);
+  if (!block) {
+    return undefined;
+  }
+  if (periodFinish <= BigInt(block.timestamp)) {
+    return 0;
+  }
+  if (staked === 0n) {
+    return undefined;
+  }
+
+  const pool = new ethers.Contract(stakingToken, STAKING_POOL_ABI, context.provider);
+  const [token0, token1, { reserve0, reserve1 }, lpSupply] = await Promise.all([
+    pool.token0() as Promise<string>,
+    pool.token1() as Promise<string>,
+    pool.getReserves(overrides),
+    pool.totalSupply(overrides) as Promise<bigint>
+  ]);
+  const tokens = await Promise.all([token0, token1, rewardToken].map(address => context.getTokenInfo(address)));
+  const [price0, price1, rewardPrice] = await Promise.all(tokens.map(token => context.getPriceUsd(token)));
+  if (price0 === null || price1 === null || rewardPrice === null || lpSupply === 0n) {
+    return undefined;
+  }
+
+  const poolValue = toWhole(reserve0, tokens[0]) * price0 + toWhole(reserve1, tokens[1]) * price1;
+  const stakedValue = poolValue * Number(staked) / Number(lpSupply);
+  const annualRewardValue = toWhole(rewardRate * SECONDS_PER_YEAR, tokens[2]) * rewardPrice;
+  return stakedValue === 0 ? undefined : (annualRewardValue / stakedValue) * 100;
+}
+
+/**
+ * Locking AERO, adding to a lock or extending it is a stake whose lock
+ * period runs until the lock's new end; withdrawing an expired lock is an unstake
+ */
+async function decodeLock(log: ethers.Log, context: ProtocolAdapterContext): Promise<YieldData> {
+  const { args } = votingEscrowInterface.parseLog(log)!;
+  const votingEscrow = new ethers.Contract(log.address, VOTING_ESCROW_ABI, context.provider);
+  const token = await context.getTokenInfo(await votingEscrow.token({ blockTag: context.blockTag }));
+  const amount = { address: token.address, symbol: token.symbol, amount: ethers.formatUnits(args.value, token.decimals) };
+
+  if (log.topics[0] === LOCK_WITHDRAW_TOPIC) {
+    return { action: 'unstake', token: amount };
+  }
+
+  // Permanent locks report no end
+  const locktime: bigint = args.locktime;
+  return {
+    action: 'stake',
+    token: amount,
+    lockPeriod: locktime === 0n ? undefined : Number(locktime - args.ts)
+  };
+}
+
+async function decodeStake(log: ethers.Log, context: ProtocolAdapterContext): Promise<YieldData> {
+  const { args } = gaugeInterface.parseLog(log)!;
+  const gauge = new ethers.Contract(log.address, GAUGE_ABI, context.provider);
+  const token = await context.getTokenInfo(await gauge.stakingToken({ blockTag: context.blockTag }));
+
+  return {
+    action: log.topics[0] === GAUGE_DEPOSIT_TOPIC ? 'stake' : 'unstake',
+    token: { address: token.address, symbol: token.symbol, amount: ethers.formatUnits(args.amount, token.decimals) },
+    apr: await getGaugeApr(log.address, context)
+  };
+}
+
+/**
+ * One reward per gauge or reward contract and token claimed. The headline
+ * token sums every claim of the first token, and the APR is the gauge's
+ * when the only claims are emissions from a single gauge.
+ */
+async function decodeClaims(logs: readonly ethers.Log[], context: ProtocolAdapterContext): Promise<YieldData | null> {
+  const claims: { source: string; token: TokenInfo; amount: bigint; apr?: number }[] = [];
+
+  for (const log of logs) {
+    let claim: { tokenAddress: string; amount: bigint; apr?: number };
+    if (log.topics[0] === GAUGE_CLAIM_TOPIC) {
+      const gauge = new ethers.Contract(log.address, GAUGE_ABI, context.provider);
+      claim = {
+        tokenAddress: await gauge.rewardToken({ blockTag: context.blockTag }),
+        amount: gaugeInterface.parseLog(log)!.args.amount,
+        apr: await getGaugeApr(log.address, context)
+      };
+    } else if (log.topics[0] === REWARD_CLAIM_TOPIC) {
+      const { args } = votingRewardInterface.parseLog(log)!;
+      claim = { tokenAddress: args.reward, amount: args.amount };
+    } else {
+      continue;
+    }
+
+    const existing = claims.find(candidate =>
+      sameAddress(candidate.source, log.address) && sameAddress(candidate.token.address, claim.tokenAddress));
+    if (existing) {
+      existing.amount += claim.amount;
+    } else {
+      claims.push({ source: log.address, token: await context.getTokenInfo(claim.tokenAddress), amount: claim.amount, apr: claim.apr });
+    }
+  }
+
+  if (claims.length === 0) {
+    return null;
+  }
+
+  const headline = claims[0].token;
+  const headlineAmount = claims
+    .filter(claim => sameAddress(claim.token.address, headline.address))
+    .reduce((sum, claim) => sum + claim.amount, 0n);
+  const singleGauge = claims.length === 1 && claims[0].apr !== undefined;
+
+  return {
+    action: 'claim',
+    token: { address: headline.address, symbol: headline.symbol, amount: ethers.formatUnits(headlineAmount, headline.decimals) },
+    rewards: claims.map(claim => ({
+      token: claim.token.symbol,
+      amount: ethers.formatUnits(claim.amount, claim.token.decimals),
+      apr: claim.apr
+    })),
+    apr: singleGauge ? claims[0].apr : undefined
+  };
+}
+
+function toWhole(amount: bigint, token: TokenInfo): number {
+  return parseFloat(ethers.formatUnits(amount, token.decimals));
+}
+
+function sameAddress(a: string, b: string): boolean {
+  return a.toLowerCase() === b.toLowerCase();
+}
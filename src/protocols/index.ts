@@ -0,0 +1,69 @@
+/**
+ * Protocol adapters
+ *
+ * Built-in adapters for the DeFi protocols supported on Base, plus the
+ * types and validation used to register custom ones.
+ */
+
+import { AaveV3Adapter } from './AaveV3Adapter';
+import { AerodromeAdapter } from './AerodromeAdapter';
+import { BalancerV2Adapter } from './BalancerV2Adapter';
+import { CompoundV3Adapter } from './CompoundV3Adapter';
+import { CurveAdapter } from './CurveAdapter';
+import { MoonwellAdapter } from './MoonwellAdapter';
+import { MorphoBlueAdapter } from './MorphoBlueAdapter';
+import { UniswapV3Adapter } from './UniswapV3Adapter';
+import { ProtocolAdapter } from './types';
+
+export {
+  AaveV3Adapter,
+  AerodromeAdapter,
+  BalancerV2Adapter,
+  CompoundV3Adapter,
+  CurveAdapter,
+  MoonwellAdapter,
+  MorphoBlueAdapter,
+  UniswapV3Adapter
+};
+
+export {
+  CollateralPosition,
+  ConcentratedPoolState,
+  FlashLoanData,
+  LendingEvent,
+  LendingEventType,
+  LendingPosition,
+  LiquidationData,
+  LiquidationKind,
+  LiquidityData,
+  ProtocolAction,
+  ProtocolAdapter,
+  ProtocolAdapterContext,
+  ProtocolCategory,
+  PoolReserves,
+  PoolState,
+  PositionState,
+  SeizedCollateral,
+  SwapLimit,
+  SwapQuote,
+  TVLHolding,
+  YieldData
+} from './types';
+
+export { validateProtocolAdapter } from './validation';
+
+/**
+ * Fresh instances of every built-in adapter, in detection priority order
+ */
+export function createBuiltinAdapters(): ProtocolAdapter[] {
+  return [
+    new UniswapV3Adapter(),
+    new AerodromeAdapter(),
+    new CompoundV3Adapter(),
+    new AaveV3Adapter(),
+    new MoonwellAdapter(),
+    new MorphoBlueAdapter(),
+    new CurveAdapter(),
+    new BalancerV2Adapter()
+  ];
+}
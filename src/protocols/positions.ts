@@ -0,0 +1,245 @@
+/**
+ * Concentrated liquidity positions
+ *
+ * Decodes NonfungiblePositionManager activity, shared by Uniswap V3 and
+ * Aerodrome Slipstream. The manager's events identify the position NFT and
+ * its liquidity change; the pool's Mint, Burn or Collect event in the same
+ * receipt identifies the pool and the position's tick range.
+ *
+ * Open positions are read back from the manager, with the fees they have
+ * earned since their last update worked out from the pool's fee growth.
+ */
+
+import { ethers } from 'ethers';
+import { LiquidityData, PositionState, ProtocolAdapterContext } from './types';
+import { toPoolShare, topicToAddress } from './utils';
+
+const POSITION_MANAGER_ABI = [
+  'event IncreaseLiquidity(uint256 indexed tokenId, uint128 liquidity, uint256 amount0, uint256 amount1)',
+  'event DecreaseLiquidity(uint256 indexed tokenId, uint128 liquidity, uint256 amount0, uint256 amount1)',
+  'event Collect(uint256 indexed tokenId, address recipient, uint256 amount0, uint256 amount1)'
+];
+
+const INCREASE_LIQUIDITY_TOPIC = '0x3067048beee31b25b2f1681f88dac838c8bba36af25bfb2b7cf7473a5847e35f';
+const DECREASE_LIQUIDITY_TOPIC = '0x26f6a048ee9138f2c0ce266f322cb99228e8d619ae2bff30c67f8dcf9d2377b4';
+const COLLECT_TOPIC = '0x40d0efd1a53d60ecbf40971b9daf7dc90178c3aadc7aab1765632738fa8b8f01';
+
+export const POSITION_MANAGER_TOPICS = [INCREASE_LIQUIDITY_TOPIC, DECREASE_LIQUIDITY_TOPIC, COLLECT_TOPIC];
+
+// Pool Mint, Burn and Collect; each indexes owner, tickLower and tickUpper
+const POOL_POSITION_TOPICS = [
+  '0x7a53080ba414158be7ec69b987b5fb7d07dee101fe85488f0853ae16239d0bde',
+  '0x0c396cd989a39f4459b5fa1aed6a9a8dcdbc45908acfd67e028cd568da98982c',
+  '0x70935338e69775456a85ddef226c395fb668b63fa0115f5f20610b388e6ca9c0'
+];
+
+const CONCENTRATED_POOL_ABI = [
+  'function token0() view returns (address)',
+  'function token1() view returns (address)',
+  'function fee() view returns (uint24)',
+  // Only the leading fields, which Uniswap V3 and Slipstream share
+  'function slot0() view returns (uint160 sqrtPriceX96, int24 tick)',
+  'function liquidity() view returns (uint128)'
+];
+
+/**
+ * The fragments that differ between position manager deployments. The
+ * position's third pool key is a fee tier on Uniswap V3 and a tick spacing
+ * on Slipstream, and the pools lay out their tick structs differently.
+ */
+export interface PositionManagerLayout {
+  positions: string;
+  getPool: string;
+  ticks: string;
+}
+
+export const UNISWAP_V3_POSITION_LAYOUT: PositionManagerLayout = {
+  positions: 'function positions(uint256 tokenId) view returns (uint96 nonce, address operator, address token0, address token1, uint24 poolKey, int24 tickLower, int24 tickUpper, uint128 liquidity, uint256 feeGrowthInside0LastX128, uint256 feeGrowthInside1LastX128, uint128 tokensOwed0, uint128 tokensOwed1)',
+  getPool: 'function getPool(address tokenA, address tokenB, uint24 fee) view returns (address)',
+  ticks: 'function ticks(int24 tick) view returns (uint128 liquidityGross, int128 liquidityNet, uint256 feeGrowthOutside0X128, uint256 feeGrowthOutside1X128, int56 tickCumulativeOutside, uint160 secondsPerLiquidityOutsideX128, uint32 secondsOutside, bool initialized)'
+};
+
+export const SLIPSTREAM_POSITION_LAYOUT: PositionManagerLayout = {
+  positions: 'function positions(uint256 tokenId) view returns (uint96 nonce, address operator, address token0, address token1, int24 poolKey, int24 tickLower, int24 tickUpper, uint128 liquidity, uint256 feeGrowthInside0LastX128, uint256 feeGrowthInside1LastX128, uint128 tokensOwed0, uint128 tokensOwed1)',
+  getPool: 'function getPool(address tokenA, address tokenB, int24 tickSpacing) view returns (address)',
+  ticks: 'function ticks(int24 tick) view returns (uint128 liquidityGross, int128 liquidityNet, int128 stakedLiquidityNet, uint256 feeGrowthOutside0X128, uint256 feeGrowthOutside1X128, uint256 rewardGrowthOutsideX128, int56 tickCumulativeOutside, uint160 secondsPerLiquidityOutsideX128, uint32 secondsOutside, bool initialized)'
+};
+
+const FEE_GROWTH_ABI = [
+  'function feeGrowthGlobal0X128() view returns (uint256)',
+  'function feeGrowthGlobal1X128() view returns (uint256)'
+];
+
+const Q128 = 2n ** 128n;
+const UINT256_MODULUS = 2n ** 256n;
+
+// Fees are in hundredths of a bip; dividing by 1e4 yields a percentage
+const FEE_TO_PERCENT = 10000;
+
+const positionManagerInterface = new ethers.Interface(POSITION_MANAGER_ABI);
+
+/**
+ * Decode the first position a receipt touches through a position manager.
+ * Fees are what Collect paid out beyond the principal DecreaseLiquidity
+ * released in the same receipt.
+ */
+export async function decodePositionChange(
+  logs: readonly ethers.Log[],
+  positionManager: string,
+  context: ProtocolAdapterContext
+): Promise<LiquidityData | null> {
+  const manager = positionManager.toLowerCase();
+  const events = logs
+    .filter(log => log.address.toLowerCase() === manager && POSITION_MANAGER_TOPICS.includes(log.topics[0]))
+    .map(log => positionManagerInterface.parseLog(log)!);
+  if (events.length === 0) {
+    return null;
+  }
+
+  const tokenId: bigint = events[0].args.tokenId;
+  let liquidityDelta = 0n;
+  const added = [0n, 0n];
+  const removed = [0n, 0n];
+  const collected = [0n, 0n];
+
+  for (const event of events) {
+    if (event.args.tokenId !== tokenId) continue;
+    const amounts = [event.args.amount0 as bigint, event.args.amount1 as bigint];
+
+    if (event.name === 'IncreaseLiquidity') {
+      liquidityDelta += event.args.liquidity;
+      amounts.forEach((amount, i) => added[i] += amount);
+    } else if (event.name === 'DecreaseLiquidity') {
+      liquidityDelta -= event.args.liquidity;
+      amounts.forEach((amount, i) => removed[i] += amount);
+    } else {
+      amounts.forEach((amount, i) => collected[i] += amount);
+    }
+  }
+
+  const poolLog = logs.find(log =>
+    POOL_POSITION_TOPICS.includes(log.topics[0]) && topicToAddress(log.topics[1]) === manager
+  );
+  if (!poolLog) {
+    return null;
+  }
+
+  const [tickLower, tickUpper] = [poolLog.topics[2], poolLog.topics[3]].map(topic =>
+    Number(ethers.AbiCoder.defaultAbiCoder().decode(['int24'], topic)[0])
+  );
+
+  const overrides = { blockTag: context.blockTag };
+  const pool = new ethers.Contract(poolLog.address, CONCENTRATED_POOL_ABI, context.provider);
+  const [token0Address, token1Address, fee, { tick }, poolLiquidity] = await Promise.all([
+    pool.token0() as Promise<string>,
+    pool.token1() as Promise<string>,
+    pool.fee() as Promise<bigint>,
+    pool.slot0(overrides),
+    pool.liquidity(overrides) as Promise<bigint>
+  ]);
+  const [token0, token1] = await Promise.all([
+    context.getTokenInfo(token0Address),
+    context.getTokenInfo(token1Address)
+  ]);
+
+  const currentTick = Number(tick);
+  const inRange = tickLower <= currentTick && currentTick < tickUpper;
+  const action = liquidityDelta > 0n ? 'add' : liquidityDelta < 0n ? 'remove' : 'collect';
+  const moved = action === 'add' ? added : action === 'remove' ? removed : collected;
+  const fees = collected.map((amount, i) => amount > removed[i] ? amount - removed[i] : 0n);
+
+  return {
+    action,
+    pool: {
+      address: poolLog.address,
+      token0: { address: token0.address, symbol: token0.symbol, amount: ethers.formatUnits(moved[0], token0.decimals) },
+      token1: { address: token1.address, symbol: token1.symbol, amount: ethers.formatUnits(moved[1], token1.decimals) },
+      fee: Number(fee) / FEE_TO_PERCENT
+    },
+    lpTokens: (liquidityDelta < 0n ? -liquidityDelta : liquidityDelta).toString(),
+    // Share of the liquidity active at the current price; out-of-range positions earn none
+    poolShare: inRange ? toPoolShare(liquidityDelta, poolLiquidity) : 0,
+    positionId: tokenId.toString(),
+    position: {
+      positionManager,
+      tickLower,
+      tickUpper,
+      currentTick,
+      inRange,
+      liquidityDelta: liquidityDelta.toString(),
+      feesCollected: {
+        token0: ethers.formatUnits(fees[0], token0.decimals),
+        token1: ethers.formatUnits(fees[1], token1.decimals)
+      }
+    }
+  };
+}
+
+/**
+ * Read a position NFT at the context's block. Owed fees combine what the
+ * manager has already credited with fee growth inside the range since the
+ * position was last touched. Returns null for burned or unknown ids.
+ */
+export async function readPosition(
+  positionManager: string,
+  positionId: string,
+  layout: PositionManagerLayout,
+  context: ProtocolAdapterContext
+): Promise<PositionState | null> {
+  const overrides = { blockTag: context.blockTag };
+  const manager = new ethers.Contract(positionManager, [layout.positions, 'function factory() view returns (address)'], context.provider);
+
+  const position = await manager.positions(positionId, overrides).catch(() => null);
+  if (!position || position.token0 === ethers.ZeroAddress) {
+    return null;
+  }
+
+  const factory = new ethers.Contract(await manager.factory(), [layout.getPool], context.provider);
+  const poolAddress: string = await factory.getPool(position.token0, position.token1, position.poolKey, overrides);
+  const pool = new ethers.Contract(poolAddress, [...CONCENTRATED_POOL_ABI, ...FEE_GROWTH_ABI, layout.ticks], context.provider);
+
+  const tickLower = Number(position.tickLower);
+  const tickUpper = Number(position.tickUpper);
+  const [fee, { sqrtPriceX96, tick }, global0, global1, lower, upper, token0, token1] = await Promise.all([
+    pool.fee() as Promise<bigint>,
+    pool.slot0(overrides),
+    pool.feeGrowthGlobal0X128(overrides) as Promise<bigint>,
+    pool.feeGrowthGlobal1X128(overrides) as Promise<bigint>,
+    pool.ticks(tickLower, overrides),
+    pool.ticks(tickUpper, overrides),
+    context.getTokenInfo(position.token0),
+    context.getTokenInfo(position.token1)
+  ]);
+  const currentTick = Number(tick);
+
+  // Growth below the lower tick and above the upper tick, from the side the current tick is on
+  const feeGrowthInside = (global: bigint, outsideLower: bigint, outsideUpper: bigint) => {
+    const below = currentTick >= tickLower ? outsideLower : global - outsideLower;
+    const above = currentTick < tickUpper ? outsideUpper : global - outsideUpper;
+    return wrap(global - below - above);
+  };
+  const inside0 = feeGrowthInside(global0, lower.feeGrowthOutside0X128, upper.feeGrowthOutside0X128);
+  const inside1 = feeGrowthInside(global1, lower.feeGrowthOutside1X128, upper.feeGrowthOutside1X128);
+  const liquidity: bigint = position.liquidity;
+
+  return {
+    positionId,
+    positionManager,
+    pool: poolAddress,
+    token0,
+    token1,
+    fee: Number(fee) / FEE_TO_PERCENT,
+    tickLower,
+    tickUpper,
+    currentTick,
+    sqrtPriceX96,
+    liquidity,
+    feesOwed0: position.tokensOwed0 + liquidity * wrap(inside0 - position.feeGrowthInside0LastX128) / Q128,
+    feesOwed1: position.tokensOwed1 + liquidity * wrap(inside1 - position.feeGrowthInside1LastX128) / Q128
+  };
+}
+
+// Fee growth accumulators are uint256 and rely on overflow
+function wrap(value: bigint): bigint {
+  return ((value % UINT256_MODULUS) + UINT256_MODULUS) % UINT256_MODULUS;
+}
@@ -0,0 +1,374 @@
+/**
+ * Protocol adapter types
+ *
+ * Contract between DeFiProtocolAnalyzer and the per-protocol adapters that
+ * describe a protocol's contracts and turn raw receipt logs into swap,
+ * liquidity and yield analyses. Custom protocols are supported by
+ * implementing ProtocolAdapter and passing it to registerProtocol.
+ */
+
+import { ethers } from 'ethers';
+import { SupportedProtocol } from '../config';
+import {
+  LiquidityAnalysis,
+  PoolInfo,
+  ProtocolConfig,
+  SwapHop,
+  TokenInfo,
+  YieldAnalysis
+} from '../DeFiProtocolAnalyzer';
+
+export type LiquidityData = Omit<LiquidityAnalysis, 'protocol' | 'detection'>;
+
+export type YieldData = Omit<YieldAnalysis, 'protocol' | 'detection'>;
+
+export type ProtocolCategory = 'dex' | 'lending' | 'yield';
+
+export type ProtocolAction = 'swap' | 'liquidity' | 'yield';
+
+export interface ProtocolAdapterContext {
+  provider: ethers.Provider;
+  blockTag?: ethers.BlockTag;
+  getTokenInfo(address: string): Promise<TokenInfo>;
+
+  /**
+   * USD price of one whole token at the context's block, or null when it cannot be priced
+   */
+  getPriceUsd(token: TokenInfo): Promise<number | null>;
+
+  /**
+   * Fetch logs over an inclusive block range, split into requests the RPC will serve
+   */
+  getLogs(filter: ethers.Filter, fromBlock: number, toBlock: number): Promise<ethers.Log[]>;
+}
+
+/**
+ * A contract holding protocol deposits (pool, market or vault) and the
+ * tokens whose balances in it count toward TVL
+ */
+export interface TVLHolding {
+  address: string;
+  tokens: string[];
+  label?: string;
+}
+
+/**
+ * An exact-input quote along a token path through specific pools
+ */
+export interface SwapQuote {
+  /** Pools traversed, one per hop */
+  pools: string[];
+  /** Fee percentage of each hop */
+  fees: number[];
+  amountOut: bigint;
+  /** Gas for the whole swap transaction through the protocol's router */
+  gasEstimate: bigint;
+}
+
+/**
+ * A pool's price state as constant-product reserves, in token base units.
+ * Concentrated liquidity pools report the virtual reserves of the active
+ * tick, which only hold while a trade stays inside it.
+ */
+export interface PoolReserves {
+  address: string;
+  token0: string;
+  token1: string;
+  reserve0: bigint;
+  reserve1: bigint;
+  /** Swap fee percentage */
+  fee: number;
+}
+
+/**
+ * Price and active liquidity of a concentrated liquidity pool at a block
+ */
+export interface ConcentratedPoolState {
+  sqrtPriceX96: bigint;
+  tick: number;
+  /** Liquidity in range at the current tick */
+  liquidity: bigint;
+  tickSpacing: number;
+}
+
+/**
+ * A pool's tokens and fee, with the price and active liquidity of a
+ * concentrated liquidity pool
+ */
+export interface PoolState extends PoolInfo {
+  /** Concentrated liquidity pools only */
+  concentrated?: ConcentratedPoolState;
+}
+
+/**
+ * The worst execution a router call accepted: a minimum output for
+ * exact-input swaps or a maximum input for exact-output swaps, summed over
+ * every swap in the call, in base units of the bounded token
+ */
+export interface SwapLimit {
+  kind: 'exactInput' | 'exactOutput';
+  amount: bigint;
+}
+
+/**
+ * A concentrated liquidity position NFT as it stands at a block
+ */
+export interface PositionState {
+  positionId: string;
+  positionManager: string;
+  pool: string;
+  token0: TokenInfo;
+  token1: TokenInfo;
+  /** Swap fee percentage */
+  fee: number;
+  tickLower: number;
+  tickUpper: number;
+  currentTick: number;
+  sqrtPriceX96: bigint;
+  liquidity: bigint;
+  /** Fees earned and not yet collected, in token base units */
+  feesOwed0: bigint;
+  feesOwed1: bigint;
+}
+
+/**
+ * A collateral asset an account has posted to a lending market
+ */
+export interface CollateralPosition {
+  token: TokenInfo;
+  /** Whole tokens */
+  balance: string;
+  /** Price from the market's own oracle */
+  priceUsd: number;
+  valueUsd: number;
+  /** Share of the value that can be borrowed against, 0 to 1 */
+  borrowCollateralFactor: number;
+  /** Share of the value counted before the account can be liquidated, 0 to 1 */
+  liquidateCollateralFactor: number;
+  /** Price at which the account becomes liquidatable, other prices unchanged; null when no price would */
+  liquidationPrice: number | null;
+}
+
+/**
+ * An account's balances in a lending market at a block, valued with the
+ * market's own oracle prices
+ */
+export interface LendingPosition {
+  market: string;
+  account: string;
+  blockNumber: number;
+  baseToken: TokenInfo;
+  basePriceUsd: number;
+  /** Base token supplied and borrowed, in whole tokens */
+  supplied: string;
+  borrowed: string;
+  suppliedUsd: number;
+  borrowedUsd: number;
+  collateral: CollateralPosition[];
+  collateralValueUsd: number;
+  /** Most the account may borrow against its collateral, in USD */
+  borrowCapacityUsd: number;
+  /** Debt at which the account becomes liquidatable, in USD */
+  liquidationThresholdUsd: number;
+  /** Liquidation threshold over debt; below 1 is liquidatable, null without debt */
+  healthFactor: number | null;
+  isLiquidatable: boolean;
+}
+
+export type LendingEventType =
+  | 'supply'
+  | 'withdraw'
+  | 'supplyCollateral'
+  | 'withdrawCollateral'
+  | 'absorbDebt'
+  | 'absorbCollateral';
+
+/**
+ * A change to an account's lending position, decoded from a market event
+ */
+export interface LendingEvent {
+  type: LendingEventType;
+  blockNumber: number;
+  transactionHash: string;
+  logIndex: number;
+  token: TokenInfo;
+  /** Whole tokens */
+  amount: string;
+  /** The other party: sender, recipient or liquidator */
+  counterparty: string;
+  /** USD value the market recorded, for absorptions */
+  valueUsd?: number;
+}
+
+/**
+ * How a liquidation settled: a liquidator repaying debt for discounted
+ * collateral, a Compound V3 absorb where the market takes over the account,
+ * or a purchase of collateral the market absorbed earlier
+ */
+export type LiquidationKind = 'liquidate' | 'absorb' | 'buyCollateral';
+
+/**
+ * Collateral taken from a liquidated account, in token base units
+ */
+export interface SeizedCollateral {
+  token: TokenInfo;
+  /** Taken from the borrower */
+  seized: bigint;
+  /** Passed to the liquidator, after any share kept by the protocol */
+  received: bigint;
+}
+
+/**
+ * A liquidation decoded from market events, in token base units
+ */
+export interface LiquidationData {
+  kind: LiquidationKind;
+  market: string;
+  liquidator: string;
+  /** Account liquidated; collateral purchases are not tied to one */
+  borrower?: string;
+  debtToken: TokenInfo;
+  /** Debt cleared from the borrower */
+  debtRepaid: bigint;
+  /** Debt token the liquidator paid in */
+  liquidatorPaid: bigint;
+  collateral: SeizedCollateral[];
+  blockNumber: number;
+  transactionHash: string;
+  logIndex: number;
+}
+
+/**
+ * A flash loan decoded from the lender's event, in token base units
+ */
+export interface FlashLoanData {
+  /** Contract that lent the tokens and emitted the event */
+  lender: string;
+  /** Contract the tokens were sent to, which runs the loan's callback */
+  receiver: string;
+  token: TokenInfo;
+  amount: bigint;
+  /** Premium owed on top of the amount */
+  fee: bigint;
+  logIndex: number;
+  /** Set when the event precedes the loan rather than following its repayment */
+  emittedBeforeLending?: boolean;
+}
+
+export interface ProtocolAdapter {
+  /**
+   * Registry key, lowercase and dash-separated (e.g. 'uniswap-v3'). Custom
+   * keys are added to SupportedProtocol by augmenting CustomProtocols.
+   */
+  key: SupportedProtocol;
+
+  /**
+   * Display name, version, contract addresses used for detection and ABI
+   */
+  config: ProtocolConfig;
+
+  category: ProtocolCategory;
+
+  /**
+   * Whether a log looks like it was emitted by one of this protocol's pools
+   */
+  isPoolLog?(log: ethers.Log): boolean;
+
+  /**
+   * Confirm through the protocol's factories that a contract is one of its pools
+   */
+  verifyPool?(address: string, context: ProtocolAdapterContext): Promise<boolean>;
+
+  decodeSwaps?(logs: readonly ethers.Log[], context: ProtocolAdapterContext): Promise<SwapHop[]>;
+
+  /**
+   * How far a decoded hop moved its pool's price against the trader, as a
+   * percentage. The pool state before the hop is read from an earlier
+   * event in the receipt or, failing that, the block before the context's.
+   */
+  getHopPriceImpact?(hop: SwapHop, logs: readonly ethers.Log[], context: ProtocolAdapterContext): Promise<number | null>;
+
+  /**
+   * Slippage bound of a call to one of the protocol's routers, null when the
+   * calldata is not a swap it recognises
+   */
+  decodeSwapLimit?(data: string): SwapLimit | null;
+
+  decodeLiquidity?(logs: readonly ethers.Log[], context: ProtocolAdapterContext): Promise<LiquidityData | null>;
+
+  decodeYield?(logs: readonly ethers.Log[], context: ProtocolAdapterContext): Promise<YieldData | null>;
+
+  /**
+   * Swap logs emitted by this protocol's pools over an inclusive block
+   * range, for decodeSwaps to turn into volume
+   */
+  getSwapLogs?(context: ProtocolAdapterContext, fromBlock: number, toBlock: number): Promise<ethers.Log[]>;
+
+  /**
+   * Swap logs of a single pool over an inclusive block range, for decodeSwaps
+   */
+  getPoolSwapLogs?(pool: string, context: ProtocolAdapterContext, fromBlock: number, toBlock: number): Promise<ethers.Log[]>;
+
+  /**
+   * Quote swapping amountIn of path[0] to the last token of path, one quote
+   * per pool combination that can route it
+   */
+  quoteExactInput?(path: string[], amountIn: bigint, context: ProtocolAdapterContext): Promise<SwapQuote[]>;
+
+  /**
+   * Reserves at the context's block of every pool trading a token pair
+   */
+  getPoolReserves?(tokenA: string, tokenB: string, context: ProtocolAdapterContext): Promise<PoolReserves[]>;
+
+  /**
+   * Tokens and fee of one of the protocol's pools at the context's block,
+   * with its price and active liquidity when concentrated
+   */
+  getPoolState?(pool: string, context: ProtocolAdapterContext): Promise<PoolState>;
+
+  /**
+   * A position NFT minted by the protocol's position manager, null when it does not exist
+   */
+  getPosition?(positionId: string, context: ProtocolAdapterContext): Promise<PositionState | null>;
+
+  /**
+   * An account's supply, debt and collateral at the context's block
+   */
+  getAccountPosition?(account: string, context: ProtocolAdapterContext): Promise<LendingPosition>;
+
+  /**
+   * Events that changed an account's position over an inclusive block range, oldest first
+   */
+  getAccountHistory?(
+    account: string,
+    context: ProtocolAdapterContext,
+    fromBlock: number,
+    toBlock: number
+  ): Promise<LendingEvent[]>;
+
+  /**
+   * Liquidations settled by the protocol's markets, in log order
+   */
+  decodeLiquidations?(logs: readonly ethers.Log[], context: ProtocolAdapterContext): Promise<LiquidationData[]>;
+
+  /**
+   * Liquidation logs emitted by the protocol's markets over an inclusive
+   * block range, for decodeLiquidations
+   */
+  getLiquidationLogs?(context: ProtocolAdapterContext, fromBlock: number, toBlock: number): Promise<ethers.Log[]>;
+
+  /**
+   * Flash loans issued by the protocol, one per token lent, in log order
+   */
+  decodeFlashLoans?(logs: readonly ethers.Log[], context: ProtocolAdapterContext): Promise<FlashLoanData[]>;
+
+  /**
+   * Contracts and tokens that make up TVL at the context's block
+   */
+  getTVLHoldings?(context: ProtocolAdapterContext): Promise<TVLHolding[]>;
+
+  /**
+   * Which kind of action a receipt performs against this protocol, if any
+   */
+  classify?(logs: readonly ethers.Log[]): ProtocolAction | null;
+}
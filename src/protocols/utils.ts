@@ -0,0 +1,254 @@
+/**
+ * Shared helpers for protocol adapters
+ */
+
+import { ethers } from 'ethers';
+import { PoolInfo, SwapHop } from '../DeFiProtocolAnalyzer';
+import { ProtocolAdapterContext, SwapLimit, TVLHolding } from './types';
+
+export const ERC20_TRANSFER_TOPIC = '0xddf252ad1be2c89b69c2b068fc378daa952ba7f163c4a11628f55a4df523b3ef';
+
+const ZERO_TOPIC_ADDRESS = '0x0000000000000000000000000000000000000000';
+
+// Block span of a single eth_getLogs request; halved on failure down to the minimum
+const DEFAULT_LOG_CHUNK_SIZE = 10_000;
+const MIN_LOG_CHUNK_SIZE = 500;
+
+const Q96 = 2 ** 96;
+
+// Uniswap V3 pools and their derivatives, such as Aerodrome Slipstream
+const CONCENTRATED_POOL_ABI = [
+  'event Swap(address indexed sender, address indexed recipient, int256 amount0, int256 amount1, uint160 sqrtPriceX96, uint128 liquidity, int24 tick)',
+  // Only the leading slot0 fields, which the derivatives share
+  'function slot0() view returns (uint160 sqrtPriceX96, int24 tick)'
+];
+const concentratedPoolInterface = new ethers.Interface(CONCENTRATED_POOL_ABI);
+
+/**
+ * Sum LP tokens minted (positive) or burned (negative) for a pool token in a receipt
+ */
+export function getLpTokenDelta(logs: readonly ethers.Log[], lpToken: string): bigint {
+  let delta = 0n;
+
+  for (const log of logs) {
+    if (log.topics[0] !== ERC20_TRANSFER_TOPIC || log.topics.length !== 3) continue;
+    if (log.address.toLowerCase() !== lpToken.toLowerCase()) continue;
+
+    const from = topicToAddress(log.topics[1]);
+    const to = topicToAddress(log.topics[2]);
+    const amount = BigInt(log.data);
+
+    if (from === ZERO_TOPIC_ADDRESS) delta += amount;
+    if (to === ZERO_TOPIC_ADDRESS) delta -= amount;
+  }
+
+  return delta;
+}
+
+/**
+ * Share of the supply represented by an amount, as a percentage
+ */
+export function toPoolShare(amount: bigint, totalSupply: bigint): number {
+  if (totalSupply === 0n) return 0;
+  const absolute = amount < 0n ? -amount : amount;
+  return Number(absolute * 1_000_000n / totalSupply) / 10_000;
+}
+
+export function topicToAddress(topic: string): string {
+  return ('0x' + topic.slice(26)).toLowerCase();
+}
+
+/**
+ * Build a swap hop through a two-token pool from raw in/out amounts
+ */
+export function buildSwapHop(
+  log: ethers.Log,
+  pool: PoolInfo,
+  zeroForOne: boolean,
+  amountIn: bigint,
+  amountOut: bigint
+): SwapHop {
+  const tokenIn = zeroForOne ? pool.token0 : pool.token1;
+  const tokenOut = zeroForOne ? pool.token1 : pool.token0;
+
+  return {
+    pool: pool.address,
+    poolType: pool.type,
+    tokenIn: { ...tokenIn, amount: ethers.formatUnits(amountIn, tokenIn.decimals) },
+    tokenOut: { ...tokenOut, amount: ethers.formatUnits(amountOut, tokenOut.decimals) },
+    fee: pool.fee,
+    logIndex: log.index
+  };
+}
+
+/**
+ * Every way of picking one option per position, e.g. one pool per swap hop
+ */
+export function cartesianProduct<T>(options: T[][]): T[][] {
+  return options.reduce<T[][]>(
+    (combinations, choices) => combinations.flatMap(prefix => choices.map(choice => [...prefix, choice])),
+    [[]]
+  );
+}
+
+/**
+ * The closest earlier log in a receipt from the same contract with a topic
+ */
+export function findPreviousLog(logs: readonly ethers.Log[], log: ethers.Log, topic: string): ethers.Log | undefined {
+  return logs
+    .filter(candidate =>
+      candidate.index < log.index &&
+      candidate.topics[0] === topic &&
+      candidate.address.toLowerCase() === log.address.toLowerCase()
+    )
+    .sort((a, b) => b.index - a.index)[0];
+}
+
+/**
+ * Combine the limits of every swap in a batched router call. Calls that are
+ * not swaps are skipped; a batch mixing exact-input and exact-output swaps
+ * has no single bound.
+ */
+export function sumSwapLimits(limits: (SwapLimit | null)[]): SwapLimit | null {
+  const swaps = limits.filter((limit): limit is SwapLimit => limit !== null);
+  if (swaps.length === 0 || swaps.some(limit => limit.kind !== swaps[0].kind)) {
+    return null;
+  }
+  return { kind: swaps[0].kind, amount: swaps.reduce((total, limit) => total + limit.amount, 0n) };
+}
+
+/**
+ * Price impact of a concentrated liquidity Swap event: sqrtPriceX96 left by
+ * the swap against the pool's price before it, that of the previous Swap
+ * from the pool in the receipt, or slot0 at the end of the previous block
+ */
+export async function getConcentratedPriceImpact(
+  log: ethers.Log,
+  logs: readonly ethers.Log[],
+  context: ProtocolAdapterContext
+): Promise<number | null> {
+  const { args } = concentratedPoolInterface.parseLog(log)!;
+  const previous = findPreviousLog(logs, log, log.topics[0]);
+  let sqrtPriceBefore: bigint;
+  if (previous) {
+    sqrtPriceBefore = concentratedPoolInterface.parseLog(previous)!.args.sqrtPriceX96;
+  } else {
+    const pool = new ethers.Contract(log.address, CONCENTRATED_POOL_ABI, context.provider);
+    ({ sqrtPriceX96: sqrtPriceBefore } = await pool.slot0({ blockTag: await resolveBlockNumber(context) - 1 }));
+  }
+  if (sqrtPriceBefore === 0n) {
+    return null;
+  }
+
+  // Price of token0 in token1 is sqrtPrice squared; selling token0 pushes it down
+  const ratio = (Number(args.sqrtPriceX96) / Number(sqrtPriceBefore)) ** 2;
+  const zeroForOne = args.amount0 > 0n;
+  return (1 - (zeroForOne ? ratio : 1 / ratio)) * 100;
+}
+
+/**
+ * Token1 per token0 in whole units from a concentrated liquidity sqrtPriceX96
+ */
+export function sqrtPriceX96ToPrice(sqrtPriceX96: bigint, decimals0: number, decimals1: number): number {
+  const ratio = Number(sqrtPriceX96) / Q96;
+  return ratio * ratio * 10 ** (decimals0 - decimals1);
+}
+
+/**
+ * The block number an adapter context is pinned to, resolving tags like 'latest'
+ */
+export async function resolveBlockNumber(context: ProtocolAdapterContext): Promise<number> {
+  if (typeof context.blockTag === 'number') {
+    return context.blockTag;
+  }
+  const block = await context.provider.getBlock(context.blockTag ?? 'latest');
+  if (!block) {
+    throw new Error(`Block ${context.blockTag} not found`);
+  }
+  return block.number;
+}
+
+/**
+ * Fetch logs over a block range in chunks, halving the chunk when the RPC
+ * rejects a request (most providers cap the range or result size)
+ */
+export async function fetchLogsInChunks(
+  provider: ethers.Provider,
+  filter: ethers.Filter,
+  fromBlock: number,
+  toBlock: number,
+  chunkSize: number = DEFAULT_LOG_CHUNK_SIZE
+): Promise<ethers.Log[]> {
+  const logs: ethers.Log[] = [];
+
+  for (let start = fromBlock; start <= toBlock; start += chunkSize) {
+    const end = Math.min(start + chunkSize - 1, toBlock);
+    try {
+      logs.push(...await provider.getLogs({ ...filter, fromBlock: start, toBlock: end }));
+    } catch (error) {
+      if (chunkSize <= MIN_LOG_CHUNK_SIZE) {
+        throw error;
+      }
+      logs.push(...await fetchLogsInChunks(provider, filter, start, end, Math.floor(chunkSize / 2)));
+    }
+  }
+
+  return logs;
+}
+
+export interface CreatedPool extends TVLHolding {
+  createdAtBlock: number;
+}
+
+/**
+ * Incrementally indexes the pools a factory has deployed from its creation
+ * event, so repeated scans only fetch blocks not seen before
+ */
+export class FactoryPoolIndex {
+  private pools: CreatedPool[] = [];
+  private scannedToBlock: number;
+  // Shared by overlapping callers, so each block range is indexed once
+  private scan: Promise<void> | null = null;
+
+  constructor(
+    private factory: string,
+    private creationTopic: string,
+    deploymentBlock: number,
+    private parseCreation: (log: ethers.Log) => CreatedPool
+  ) {
+    this.scannedToBlock = deploymentBlock - 1;
+  }
+
+  /**
+   * Pools that existed at a block
+   */
+  async getPools(context: ProtocolAdapterContext, atBlock: number): Promise<CreatedPool[]> {
+    while (atBlock > this.scannedToBlock) {
+      if (!this.scan) {
+        this.scan = this.scanTo(context, atBlock).finally(() => { this.scan = null; });
+      }
+      await this.scan;
+    }
+
+    return this.pools.filter(pool => pool.createdAtBlock <= atBlock);
+  }
+
+  private async scanTo(context: ProtocolAdapterContext, atBlock: number): Promise<void> {
+    const logs = await context.getLogs(
+      { address: this.factory, topics: [this.creationTopic] },
+      this.scannedToBlock + 1,
+      atBlock
+    );
+    this.pools.push(...logs.map(log => this.parseCreation(log)));
+    this.scannedToBlock = atBlock;
+  }
+
+  /**
+   * Logs with a topic emitted over a block range by pools that existed at its end
+   */
+  async getPoolLogs(context: ProtocolAdapterContext, topic: string, fromBlock: number, toBlock: number): Promise<ethers.Log[]> {
+    const pools = new Set((await this.getPools(context, toBlock)).map(pool => pool.address.toLowerCase()));
+    const logs = await context.getLogs({ topics: [topic] }, fromBlock, toBlock);
+    return logs.filter(log => pools.has(log.address.toLowerCase()));
+  }
+}
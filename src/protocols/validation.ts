@@ -0,0 +1,133 @@
+/**
+ * Protocol adapter validation
+ *
+ * Checks an adapter definition before it is registered so that a bad
+ * custom adapter fails loudly at registration rather than silently
+ * mis-attributing transactions later.
+ */
+
+import { ethers } from 'ethers';
+import { ProtocolAdapter, ProtocolCategory } from './types';
+
+const PROTOCOL_KEY_PATTERN = /^[a-z0-9]+(-[a-z0-9]+)*$/;
+
+const PROTOCOL_CATEGORIES: ProtocolCategory[] = ['dex', 'lending', 'yield'];
+
+const OPTIONAL_HOOKS = [
+  'isPoolLog',
+  'verifyPool',
+  'decodeSwaps',
+  'getHopPriceImpact',
+  'decodeSwapLimit',
+  'decodeLiquidity',
+  'decodeYield',
+  'getSwapLogs',
+  'getPoolSwapLogs',
+  'quoteExactInput',
+  'getPoolReserves',
+  'getPoolState',
+  'getPosition',
+  'getAccountPosition',
+  'getAccountHistory',
+  'decodeLiquidations',
+  'getLiquidationLogs',
+  'decodeFlashLoans',
+  'getTVLHoldings',
+  'classify'
+] as const;
+
+// An adapter must contribute at least one of these to be useful
+const CAPABILITY_HOOKS = [
+  'decodeSwaps',
+  'decodeLiquidity',
+  'decodeYield',
+  'decodeLiquidations',
+  'decodeFlashLoans',
+  'getTVLHoldings',
+  'quoteExactInput'
+] as const;
+
+/**
+ * List every problem with an adapter definition; an empty list means it is valid
+ */
+export function validateProtocolAdapter(adapter: ProtocolAdapter): string[] {
+  if (!adapter || typeof adapter !== 'object') {
+    return ['adapter must be an object'];
+  }
+
+  const errors: string[] = [];
+
+  if (typeof adapter.key !== 'string' || !PROTOCOL_KEY_PATTERN.test(adapter.key)) {
+    errors.push(`key "${adapter.key}" must be lowercase alphanumeric words separated by dashes`);
+  }
+
+  if (!PROTOCOL_CATEGORIES.includes(adapter.category)) {
+    errors.push(`category must be one of ${PROTOCOL_CATEGORIES.join(', ')}`);
+  }
+
+  const config = adapter.config;
+  if (!config || typeof config !== 'object') {
+    errors.push('config is required');
+  } else {
+    if (typeof config.name !== 'string' || config.name.trim() === '') {
+      errors.push('config.name is required');
+    }
+
+    const addresses = Object.entries(config.contractAddresses ?? {})
+      .filter(([, address]) => address !== undefined);
+    if (addresses.length === 0) {
+      errors.push('config.contractAddresses must list at least one contract');
+    }
+    for (const [role, address] of addresses) {
+      if (!ethers.isAddress(address)) {
+        errors.push(`config.contractAddresses.${role} is not a valid address: ${address}`);
+      }
+    }
+
+    if (!Array.isArray(config.abi)) {
+      errors.push('config.abi must be an array');
+    } else {
+      // Interface skips unparseable fragments with a warning, so check each one
+      config.abi.forEach((fragment, index) => {
+        try {
+          ethers.Fragment.from(fragment);
+        } catch (error) {
+          errors.push(`config.abi[${index}] could not be parsed: ${(error as Error).message}`);
+        }
+      });
+    }
+  }
+
+  for (const hook of OPTIONAL_HOOKS) {
+    if (adapter[hook] !== undefined && typeof adapter[hook] !== 'function') {
+      errors.push(`${hook} must be a function`);
+    }
+  }
+
+  if (!CAPABILITY_HOOKS.some(hook => typeof adapter[hook] === 'function')) {
+    errors.push(`adapter must implement at least one of ${CAPABILITY_HOOKS.join(', ')}`);
+  }
+
+  // Pool logs are only attributed once verified, so the two hooks come as a pair
+  if ((adapter.isPoolLog === undefined) !== (adapter.verifyPool === undefined)) {
+    errors.push('isPoolLog and verifyPool must be implemented together');
+  }
+
+  if (adapter.getSwapLogs !== undefined && adapter.decodeSwaps === undefined) {
+    errors.push('getSwapLogs requires decodeSwaps');
+  }
+
+  if (adapter.getPoolSwapLogs !== undefined && adapter.decodeSwaps === undefined) {
+    errors.push('getPoolSwapLogs requires decodeSwaps');
+  }
+
+  if (adapter.getHopPriceImpact !== undefined && adapter.decodeSwaps === undefined) {
+    errors.push('getHopPriceImpact requires decodeSwaps');
+  }
+
+  if (adapter.getLiquidationLogs !== undefined && adapter.decodeLiquidations === undefined) {
+    errors.push('getLiquidationLogs requires decodeLiquidations');
+  }
+
+  return errors;
+}
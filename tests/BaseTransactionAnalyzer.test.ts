@@ -1,8 +1,11 @@
 import { BaseTransactionAnalyzer } from '../src/BaseTransactionAnalyzer';
 import { ethers } from 'ethers';
 
-// Mock ethers provider for testing
-jest.mock('ethers');
+// Mock the ethers provider, keeping the unit helpers real
+jest.mock('ethers', () => {
+  const actual = jest.requireActual<typeof import('ethers')>('ethers');
+  return { ...actual, ethers: { ...actual.ethers, JsonRpcProvider: jest.fn() } };
+});
 
 describe('BaseTransactionAnalyzer', () => {
   let analyzer: BaseTransactionAnalyzer;
@@ -32,6 +35,12 @@ describe('BaseTransactionAnalyzer', () => {
       const analyzer = new BaseTransactionAnalyzer(customUrl);
       expect(ethers.JsonRpcProvider).toHaveBeenCalledWith(customUrl);
     });
+
+    it('should accept an options object', () => {
+      const customUrl = 'https://custom-base-rpc.com';
+      const analyzer = new BaseTransactionAnalyzer({ rpcUrl: customUrl, cacheEnabled: false });
+      expect(ethers.JsonRpcProvider).toHaveBeenCalledWith(customUrl);
+    });
   });
 
   describe('analyzeTransaction', () => {
@@ -85,6 +94,29 @@ describe('BaseTransactionAnalyzer', () => {
       expect(mockProvider.getBlock).toHaveBeenCalledWith(12345);
     });
 
+    it('should carry the gas limit and EIP-1559 fee fields', async () => {
+      mockProvider.getTransaction.mockResolvedValue({
+        ...mockTransaction,
+        type: 2,
+        gasLimit: 30000n,
+        maxFeePerGas: ethers.parseUnits('30', 'gwei'),
+        maxPriorityFeePerGas: ethers.parseUnits('1', 'gwei')
+      } as any);
+      mockProvider.getTransactionReceipt.mockResolvedValue({ ...mockReceipt, gasPrice: ethers.parseUnits('20', 'gwei') } as any);
+      mockProvider.getBlock.mockResolvedValue({ ...mockBlock, baseFeePerGas: ethers.parseUnits('19', 'gwei') } as any);
+
+      const result = await analyzer.analyzeTransaction(mockTxHash);
+
+      expect(result).toMatchObject({
+        type: 2,
+        gasLimit: '30000',
+        maxFeePerGas: '30000000000',
+        maxPriorityFeePerGas: '1000000000',
+        baseFeePerGas: '19000000000',
+        effectiveGasPrice: '20000000000'
+      });
+    });
+
     it('should throw error when transaction not found', async () => {
       mockProvider.getTransaction.mockResolvedValue(null);
 
@@ -2,15 +2,48 @@
  * DeFi Protocol Analyzer Test Suite
  * 
  * Comprehensive tests for DeFi protocol analysis functionality
- * covering Uniswap V3, Aerodrome, and Compound V3 on Base network.
+ * covering Uniswap V3, Aerodrome, Compound V3, Aave V3, Curve and
+ * Balancer V2 on Base network.
  */
 
 import { describe, test, expect, beforeEach, jest } from '@jest/globals';
 import { ethers } from 'ethers';
 import { DeFiProtocolAnalyzer, SwapAnalysis, LiquidityAnalysis, YieldAnalysis } from '../src/DeFiProtocolAnalyzer';
+import { ProtocolAdapter } from '../src/protocols';
 
-// Mock ethers provider
-jest.mock('ethers');
+// Mock the ethers provider, keeping the ABI and unit helpers real
+jest.mock('ethers', () => {
+  const actual = jest.requireActual<typeof import('ethers')>('ethers');
+  return { ...actual, ethers: { ...actual.ethers, JsonRpcProvider: jest.fn() } };
+});
+
+declare module '../src/config' {
+  interface CustomProtocols {
+    'test-dex': true;
+  }
+}
+
+const coder = ethers.AbiCoder.defaultAbiCoder();
+const selector = (signature: string) => ethers.id(signature).slice(0, 10);
+const decodeArgs = (types: string[], data: string) => coder.decode(types, '0x' + data.slice(10));
+const callKey = (address: string, signature: string) => `${address.toLowerCase()}:${selector(signature)}`;
+
+// eth_call results by callKey, or by selector for any contract; handlers get the calldata and callee
+type CallTable = Record<string, string | ((data: string, to: string) => string)>;
+
+/**
+ * Answer a mock provider's eth_calls from a table, reverting calls it does not list
+ */
+function mockCalls(provider: jest.Mocked<ethers.Provider>, calls: CallTable): void {
+  provider.call.mockImplementation(async (tx: any) => {
+    const to = tx.to.toLowerCase();
+    const result = calls[`${to}:${tx.data.slice(0, 10)}`] ?? calls[tx.data.slice(0, 10)];
+    if (result === undefined) {
+      throw new Error('execution reverted');
+    }
+    return typeof result === 'function' ? result(tx.data, to) : result;
+  });
+}
 
 describe('DeFiProtocolAnalyzer', () => {
   let analyzer: DeFiProtocolAnalyzer;
@@ -22,6 +55,8 @@ describe('DeFiProtocolAnalyzer', () => {
       getTransactionReceipt: jest.fn(),
       getBlock: jest.fn(),
       getCode: jest.fn(),
+      getLogs: jest.fn(),
+      getFeeData: jest.fn(),
       call: jest.fn(),
     } as any;
 
@@ -45,43 +80,238 @@ describe('DeFiProtocolAnalyzer', () => {
     const mockTransaction = {
       hash: mockTxHash,
       to: '0x2626664c2603336E57B271c5C0b26F421741e481', // Uniswap V3 Router
-      from: '0x742d35Cc6634C0532925a3b8D4C9db96C4b4d8b6',
+      from: '0x742d35cc6634c0532925a3b8d4c9db96c4b4d8b6',
       value: ethers.parseEther('0'),
       gasPrice: ethers.parseUnits('20', 'gwei'),
       gasLimit: 200000n,
       data: '0x...'
     };
 
+    const poolAddress = '0xd0b53D9277642d899DF5C87A3966A349A798F224'; // WETH/USDC 0.05%
+    const swapEvent = new ethers.Interface([
+      'event Swap(address indexed sender, address indexed recipient, int256 amount0, int256 amount1, uint160 sqrtPriceX96, uint128 liquidity, int24 tick)'
+    ]).encodeEventLog('Swap', [
+      '0x2626664c2603336E57B271c5C0b26F421741e481',
+      '0x742d35cc6634c0532925a3b8d4c9db96c4b4d8b6',
+      -500000000000000000n, // 0.5 WETH out of the pool
+      1000000000n, // 1000 USDC into the pool
+      3543191142285914205922034323214n,
+      1000000000000000000n,
+      -197682
+    ]);
+
     const mockReceipt = {
       transactionHash: mockTxHash,
       gasUsed: 150000n,
       status: 1,
       logs: [
         {
-          address: '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913',
-          topics: [
-            '0xddf252ad1be2c89b69c2b068fc378daa952ba7f163c4a11628f55a4df523b3ef',
-            '0x000000000000000000000000742d35cc6634c0532925a3b8d4c9db96c4b4d8b6',
-            '0x0000000000000000000000002626664c2603336e57b271c5c0b26f421741e481'
-          ],
-          data: '0x00000000000000000000000000000000000000000000000000000000000f4240'
+          address: poolAddress,
+          topics: swapEvent.topics,
+          data: swapEvent.data,
+          index: 4
         }
       ]
     };
 
+    const poolCalls: CallTable = {
+      [selector('token0()')]: coder.encode(['address'], ['0x4200000000000000000000000000000000000006']),
+      [selector('token1()')]: coder.encode(['address'], ['0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913']),
+      [selector('fee()')]: coder.encode(['uint24'], [500]),
+      [selector('factory()')]: coder.encode(['address'], ['0x33128a8fC17869897dcE68Ed026d694621f6FDfD']),
+      [selector('getPool(address,address,uint24)')]: coder.encode(['address'], [poolAddress])
+    };
+
     test('should analyze Uniswap V3 swap successfully', async () => {
       mockProvider.getTransaction.mockResolvedValue(mockTransaction as any);
       mockProvider.getTransactionReceipt.mockResolvedValue(mockReceipt as any);
+      mockCalls(mockProvider, poolCalls);
 
       const result = await analyzer.analyzeSwap(mockTxHash);
 
       expect(result).toBeDefined();
       expect(result?.protocol).toBe('Uniswap V3');
       expect(result?.tokenIn.symbol).toBe('USDC');
+      expect(result?.tokenIn.amount).toBe('1000.0');
       expect(result?.tokenOut.symbol).toBe('WETH');
+      expect(result?.tokenOut.amount).toBe('0.5');
+      expect(result?.exchangeRate).toBe(2000);
+      expect(result?.fee).toBeCloseTo(0.05);
+      expect(result?.route).toHaveLength(1);
+      expect(result?.detection?.signal).toBe('tx.to');
       expect(result?.gasUsed).toBe(150000);
     });
 
+    test('should decode Slipstream swaps as Aerodrome hops', async () => {
+      const slipstreamFactory = '0x5e7BB104d84c7CB9B682AaC2F3d509f5F406809A';
+      mockProvider.getTransaction.mockResolvedValue({
+        ...mockTransaction,
+        to: '0x1111111254EEB25477B68fb85Ed929f73A960582' // 1inch aggregator
+      } as any);
+      mockProvider.getTransactionReceipt.mockResolvedValue(mockReceipt as any);
+      mockCalls(mockProvider, {
+        ...poolCalls,
+        [selector('factory()')]: coder.encode(['address'], [slipstreamFactory]),
+        [selector('tickSpacing()')]: coder.encode(['int24'], [100]),
+        [callKey(slipstreamFactory, 'getPool(address,address,int24)')]: coder.encode(['address'], [poolAddress])
+      });
+
+      const result = await analyzer.analyzeSwap(mockTxHash);
+
+      expect(result?.protocol).toBe('Aerodrome');
+      expect(result?.detection?.signal).toBe('factory-verified pool');
+      expect(result?.route?.map(hop => hop.poolType)).toEqual(['aerodrome']);
+      expect(result?.tokenOut.amount).toBe('0.5');
+      expect(result?.fee).toBeCloseTo(0.05);
+    });
+
+    test('should not decode swaps from lookalike pools', async () => {
+      mockProvider.getTransaction.mockResolvedValue(mockTransaction as any);
+      mockProvider.getTransactionReceipt.mockResolvedValue(mockReceipt as any);
+      mockCalls(mockProvider, {
+        ...poolCalls,
+        [selector('factory()')]: coder.encode(['address'], ['0x9999999999999999999999999999999999999999'])
+      });
+
+      const result = await analyzer.analyzeSwap(mockTxHash);
+
+      expect(result).toBeNull();
+    });
+
+    test('should skip volatile pool swaps from Velodrome forks', async () => {
+      const forkPool = '0x7777777777777777777777777777777777777777';
+      const forkFactory = '0x8888888888888888888888888888888888888888';
+      const forkSwap = new ethers.Interface([
+        'event Swap(address indexed sender, address indexed to, uint256 amount0In, uint256 amount1In, uint256 amount0Out, uint256 amount1Out)'
+      ]).encodeEventLog('Swap', [mockTransaction.from, mockTransaction.from, 0n, 1000000000n, 500000000000000000n, 0n]);
+      mockProvider.getTransaction.mockResolvedValue(mockTransaction as any);
+      mockProvider.getTransactionReceipt.mockResolvedValue({
+        ...mockReceipt,
+        logs: [...mockReceipt.logs, { address: forkPool, topics: forkSwap.topics, data: forkSwap.data, index: 5 }]
+      } as any);
+      mockCalls(mockProvider, {
+        ...poolCalls,
+        [callKey(forkPool, 'factory()')]: coder.encode(['address'], [forkFactory]),
+        [callKey(forkPool, 'stable()')]: coder.encode(['bool'], [false]),
+        [callKey(forkFactory, 'getFee(address,bool)')]: coder.encode(['uint256'], [30])
+      });
+
+      const result = await analyzer.analyzeSwap(mockTxHash);
+
+      expect(result?.route?.map(hop => hop.poolType)).toEqual(['uniswap-v3']);
+    });
+
+    test('should skip TokenExchange logs from pools no Curve factory lists', async () => {
+      const lookalike = '0x7777777777777777777777777777777777777777';
+      const exchange = new ethers.Interface([
+        'event TokenExchange(address indexed buyer, int128 sold_id, uint256 tokens_sold, int128 bought_id, uint256 tokens_bought)'
+      ]).encodeEventLog('TokenExchange', [mockTransaction.from, 1n, 1000000000n, 0n, 500000000000000000n]);
+      mockProvider.getTransaction.mockResolvedValue(mockTransaction as any);
+      mockProvider.getTransactionReceipt.mockResolvedValue({
+        ...mockReceipt,
+        logs: [...mockReceipt.logs, { address: lookalike, topics: exchange.topics, data: exchange.data, index: 5 }]
+      } as any);
+      mockCalls(mockProvider, {
+        ...poolCalls,
+        [callKey(lookalike, 'coins(uint256)')]: data =>
+          coder.encode(['address'], [decodeArgs(['uint256'], data)[0] === 0n
+            ? '0x4200000000000000000000000000000000000006'
+            : '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913'])
+      });
+
+      const result = await analyzer.analyzeSwap(mockTxHash);
+
+      expect(result?.route?.map(hop => hop.poolType)).toEqual(['uniswap-v3']);
+    });
+
+    test('should keep other protocols\' hops when an adapter fails to decode', async () => {
+      analyzer.registerProtocol({
+        key: 'test-dex',
+        category: 'dex',
+        config: { name: 'Test DEX', version: '1.0', contractAddresses: { router: '0x5555555555555555555555555555555555555555' }, abi: [] },
+        getTVLHoldings: async () => [],
+        classify: () => 'swap',
+        decodeSwaps: async () => { throw new Error('unexpected log layout'); }
+      });
+      mockProvider.getTransaction.mockResolvedValue(mockTransaction as any);
+      mockProvider.getTransactionReceipt.mockResolvedValue(mockReceipt as any);
+      mockCalls(mockProvider, poolCalls);
+
+      const result = await analyzer.analyzeSwap(mockTxHash);
+
+      expect(result?.protocol).toBe('Uniswap V3');
+      expect(result?.route?.map(hop => hop.poolType)).toEqual(['uniswap-v3']);
+    });
+
+    test('should attribute aggregator-routed swaps to the pool protocol', async () => {
+      mockProvider.getTransaction.mockResolvedValue({
+        ...mockTransaction,
+        to: '0x1111111254EEB25477B68fb85Ed929f73A960582' // 1inch aggregator
+      } as any);
+      mockProvider.getTransactionReceipt.mockResolvedValue(mockReceipt as any);
+      mockCalls(mockProvider, poolCalls);
+
+      const result = await analyzer.analyzeSwap(mockTxHash);
+
+      expect(result?.protocol).toBe('Uniswap V3');
+      expect(result?.detection).toEqual({
+        protocol: 'uniswap-v3',
+        name: 'Uniswap V3',
+        signal: 'factory-verified pool',
+        address: poolAddress
+      });
+    });
+
+    test('should derive price impact from the pool price before the swap', async () => {
+      // The pool price was 0.5% lower in the previous block, so buying WETH moved it 0.5%
+      const slot0 = coder.encode(['uint160', 'int24'], [3534322064189891385064952333961n, -197732]);
+      mockProvider.getTransaction.mockResolvedValue(mockTransaction as any);
+      mockProvider.getTransactionReceipt.mockResolvedValue({ ...mockReceipt, blockNumber: 5000000 } as any);
+      mockCalls(mockProvider, { ...poolCalls, [selector('slot0()')]: slot0 });
+
+      const result = await analyzer.analyzeSwap(mockTxHash);
+
+      expect(mockProvider.call).toHaveBeenCalledWith(expect.objectContaining({ blockTag: 4999999 }));
+      expect(result?.route?.[0].priceImpact).toBeCloseTo(0.5, 2);
+      expect(result?.priceImpact).toBeCloseTo(0.5, 2);
+    });
+
+    test('should measure slippage tolerance from the router calldata', async () => {
+      const router = new ethers.Interface([
+        'function exactInputSingle(tuple(address tokenIn, address tokenOut, uint24 fee, address recipient, uint256 amountIn, uint256 amountOutMinimum, uint160 sqrtPriceLimitX96) params)',
+        'function multicall(uint256 deadline, bytes[] data)'
+      ]);
+      const swap = router.encodeFunctionData('exactInputSingle', [[
+        '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913',
+        '0x4200000000000000000000000000000000000006',
+        500,
+        mockTransaction.from,
+        1000000000n,
+        ethers.parseEther('0.49'),
+        0
+      ]]);
+
+      mockProvider.getTransaction.mockResolvedValue({
+        ...mockTransaction,
+        data: router.encodeFunctionData('multicall', [1700000000, [swap]])
+      } as any);
+      mockProvider.getTransactionReceipt.mockResolvedValue(mockReceipt as any);
+      mockCalls(mockProvider, poolCalls);
+
+      const result = await analyzer.analyzeSwap(mockTxHash);
+
+      expect(result?.slippageLimit).toEqual({ kind: 'exactInput', limit: '0.49', executed: '0.5' });
+      expect(result?.slippage).toBeCloseTo(2, 6);
+    });
+
+    test('should return null when the receipt has no swap events', async () => {
+      mockProvider.getTransaction.mockResolvedValue(mockTransaction as any);
+      mockProvider.getTransactionReceipt.mockResolvedValue({ ...mockReceipt, logs: [] } as any);
+
+      const result = await analyzer.analyzeSwap(mockTxHash);
+      expect(result).toBeNull();
+    });
+
     test('should return null for non-DeFi transaction', async () => {
       const nonDeFiTx = {
         ...mockTransaction,
@@ -89,7 +319,20 @@ describe('DeFiProtocolAnalyzer', () => {
       };
 
       mockProvider.getTransaction.mockResolvedValue(nonDeFiTx as any);
-      mockProvider.getTransactionReceipt.mockResolvedValue(mockReceipt as any);
+      mockProvider.getTransactionReceipt.mockResolvedValue({
+        ...mockReceipt,
+        logs: [
+          {
+            address: '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913',
+            topics: [
+              '0xddf252ad1be2c89b69c2b068fc378daa952ba7f163c4a11628f55a4df523b3ef',
+              '0x000000000000000000000000742d35cc6634c0532925a3b8d4c9db96c4b4d8b6',
+              '0x0000000000000000000000001234567890123456789012345678901234567890'
+            ],
+            data: '0x00000000000000000000000000000000000000000000000000000000000f4240'
+          }
+        ]
+      } as any);
 
       const result = await analyzer.analyzeSwap(mockTxHash);
       expect(result).toBeNull();
@@ -110,115 +353,599 @@ describe('DeFiProtocolAnalyzer', () => {
     });
   });
 
+  describe('MEV detection', () => {
+    const pool = '0xd0b53D9277642d899DF5C87A3966A349A798F224';
+    const router = '0x2626664c2603336E57B271c5C0b26F421741e481';
+    const botContract = '0x1111111111111111111111111111111111111111';
+    const searcher = '0x2222222222222222222222222222222222222222';
+    const trader = '0x3333333333333333333333333333333333333333';
+    const swapEvents = new ethers.Interface([
+      'event Swap(address indexed sender, address indexed recipient, int256 amount0, int256 amount1, uint160 sqrtPriceX96, uint128 liquidity, int24 tick)'
+    ]);
+    // WETH priced in USDC, as a pool sqrt price
+    const sqrtPrice = (price: number) => BigInt(Math.floor(Math.sqrt(price * 1e-12) * 2 ** 96));
+    const swapLog = (amount0: bigint, amount1: bigint, priceAfter: number, transactionIndex: number) => {
+      const { topics, data } = swapEvents.encodeEventLog('Swap', [router, router, amount0, amount1, sqrtPrice(priceAfter), 10n ** 18n, 0]);
+      return {
+        address: pool,
+        topics,
+        data,
+        index: transactionIndex,
+        transactionIndex,
+        transactionHash: ethers.zeroPadValue(ethers.toBeHex(transactionIndex), 32),
+        blockNumber: 100
+      };
+    };
+
+    // Selling WETH: the front-run moves the price 2000 -> 1990 before the trader's swap
+    const frontrun = swapLog(ethers.parseEther('1'), -1995_000000n, 1990, 3);
+    const victim = swapLog(ethers.parseEther('0.5'), -1000_000000n, 1985, 4);
+    const backrun = swapLog(-ethers.parseEther('1'), 2000_000000n, 1995, 5);
+
+    const mockBlock = (senders: Record<number, { from: string; to: string }>) => {
+      mockProvider.getTransaction.mockImplementation(async (hash: string) => {
+        if (hash === '0xvictim') {
+          return { hash, from: trader, to: router, index: 4, data: '0x', gasPrice: 1n } as any;
+        }
+        return { hash, index: Number(hash), ...senders[Number(hash)] } as any;
+      });
+      mockProvider.getTransactionReceipt.mockResolvedValue({ blockNumber: 100, index: 4, gasUsed: 1n, logs: [victim] } as any);
+      mockProvider.getLogs.mockResolvedValue([frontrun, victim, backrun] as any);
+
+      mockCalls(mockProvider, {
+        [selector('token0()')]: coder.encode(['address'], ['0x4200000000000000000000000000000000000006']),
+        [selector('token1()')]: coder.encode(['address'], ['0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913']),
+        [selector('fee()')]: coder.encode(['uint24'], [500]),
+        [selector('slot0()')]: coder.encode(['uint160', 'int24'], [sqrtPrice(2000), 0]),
+        [selector('factory()')]: coder.encode(['address'], ['0x33128a8fC17869897dcE68Ed026d694621f6FDfD']),
+        [selector('getPool(address,address,uint24)')]: coder.encode(['address'], [pool])
+      });
+    };
+
+    test('should flag a sandwich and estimate the victim loss', async () => {
+      mockBlock({ 3: { from: searcher, to: botContract }, 5: { from: searcher, to: botContract } });
+
+      const result = await analyzer.analyzeSwap('0xvictim', { detectMev: true });
+
+      expect(result?.mev?.sandwiched).toBe(true);
+      expect(result?.mev?.activity).toHaveLength(1);
+      const [sandwich] = result!.mev!.activity;
+      expect(sandwich.frontrun?.transactionIndex).toBe(3);
+      expect(sandwich.backrun.transactionIndex).toBe(5);
+      expect(sandwich.matchedBy).toBe('sender');
+      expect(sandwich.frontrunPriceImpact).toBeCloseTo(0.5, 6);
+      // 1000 USDC received at a price 0.5% worse than without the front-run
+      expect(parseFloat(result!.mev!.victimLoss)).toBeCloseTo(5.025, 3);
+      expect(result?.mev?.victimLossPercent).toBeCloseTo(0.5, 6);
+    });
+
+    test('should match a sandwich sent through the same contract', async () => {
+      mockBlock({ 3: { from: searcher, to: botContract }, 5: { from: trader, to: botContract } });
+
+      const result = await analyzer.analyzeSwap('0xvictim', { detectMev: true });
+
+      expect(result?.mev?.activity[0].matchedBy).toBe('contract');
+    });
+
+    test('should report a back-run by an unrelated account', async () => {
+      mockBlock({ 3: { from: searcher, to: router }, 5: { from: trader, to: router } });
+
+      const result = await analyzer.analyzeSwap('0xvictim', { detectMev: true });
+
+      // Both went through the public router, which ties them to nobody
+      expect(result?.mev?.sandwiched).toBe(false);
+      expect(result?.mev?.backrun).toBe(true);
+      expect(result?.mev?.activity[0].backrun.transactionIndex).toBe(5);
+      expect(result?.mev?.victimLossPercent).toBe(0);
+    });
+
+    test('should skip the check unless requested', async () => {
+      mockBlock({ 3: { from: searcher, to: botContract }, 5: { from: searcher, to: botContract } });
+
+      const result = await analyzer.analyzeSwap('0xvictim');
+
+      expect(result?.mev).toBeUndefined();
+      expect(mockProvider.getLogs).not.toHaveBeenCalled();
+    });
+  });
+
   describe('analyzeLiquidity', () => {
     const mockTxHash = '0xabcdef1234567890abcdef1234567890abcdef1234567890abcdef1234567890';
-    
-    const mockLiquidityTx = {
-      hash: mockTxHash,
-      to: '0x2626664c2603336E57B271c5C0b26F421741e481',
-      from: '0x742d35Cc6634C0532925a3b8D4C9db96C4b4d8b6',
-      value: ethers.parseEther('0'),
-      gasPrice: ethers.parseUnits('15', 'gwei'),
-      gasLimit: 300000n
+    const positionManager = '0x03a520b32C04BF3bEEf7BEb72E919cf822Ed34f1';
+    const pool = '0xd0b53D9277642d899DF5C87A3966A349A798F224';
+    const tickTopic = (tick: number) => coder.encode(['int24'], [tick]);
+    const tokenIdTopic = coder.encode(['uint256'], [42]);
+    const ownerTopic = ethers.zeroPadValue(positionManager, 32);
+
+    // WETH/USDC 0.05% position over ticks [-196000, -194000)
+    const poolMint = {
+      address: pool,
+      topics: [ethers.id('Mint(address,address,int24,int24,uint128,uint256,uint256)'), ownerTopic, tickTopic(-196000), tickTopic(-194000)],
+      data: coder.encode(['address', 'uint128', 'uint256', 'uint256'], [positionManager, 1000n, ethers.parseEther('1'), 2500_000000n])
+    };
+    const increaseLiquidity = {
+      address: positionManager,
+      topics: [ethers.id('IncreaseLiquidity(uint256,uint128,uint256,uint256)'), tokenIdTopic],
+      data: coder.encode(['uint128', 'uint256', 'uint256'], [1000n, ethers.parseEther('1'), 2500_000000n])
+    };
+    const poolBurn = {
+      address: pool,
+      topics: [ethers.id('Burn(address,int24,int24,uint128,uint256,uint256)'), ownerTopic, tickTopic(-196000), tickTopic(-194000)],
+      data: coder.encode(['uint128', 'uint256', 'uint256'], [500n, ethers.parseEther('0.5'), 1250_000000n])
+    };
+    const decreaseLiquidity = {
+      address: positionManager,
+      topics: [ethers.id('DecreaseLiquidity(uint256,uint128,uint256,uint256)'), tokenIdTopic],
+      data: coder.encode(['uint128', 'uint256', 'uint256'], [500n, ethers.parseEther('0.5'), 1250_000000n])
+    };
+    const collect = {
+      address: positionManager,
+      topics: [ethers.id('Collect(uint256,address,uint256,uint256)'), tokenIdTopic],
+      data: coder.encode(['address', 'uint256', 'uint256'], [positionManager, ethers.parseEther('0.6'), 1260_000000n])
     };
 
-    const mockLiquidityReceipt = {
-      transactionHash: mockTxHash,
-      gasUsed: 250000n,
-      status: 1,
-      logs: [
-        {
-          address: '0x33128a8fC17869897dcE68Ed026d694621f6FDfD',
-          topics: [
-            '0x783cca1c0412dd0d695e784568c96da2e9c22ff989357a2e8b1d9b2b4e6b7118',
-            '0x000000000000000000000000742d35cc6634c0532925a3b8d4c9db96c4b4d8b6'
-          ],
-          data: '0x...'
-        }
-      ]
+    const mockPosition = (logs: object[], currentTick = -195000) => {
+      mockProvider.getTransaction.mockResolvedValue({ hash: mockTxHash, to: positionManager } as any);
+      mockProvider.getTransactionReceipt.mockResolvedValue({ transactionHash: mockTxHash, blockNumber: 5000000, logs } as any);
+
+      mockCalls(mockProvider, {
+        [callKey(pool, 'token0()')]: coder.encode(['address'], ['0x4200000000000000000000000000000000000006']),
+        [callKey(pool, 'token1()')]: coder.encode(['address'], ['0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913']),
+        [callKey(pool, 'fee()')]: coder.encode(['uint24'], [500]),
+        [callKey(pool, 'slot0()')]: coder.encode(
+          ['uint160', 'int24', 'uint16', 'uint16', 'uint16', 'uint8', 'bool'],
+          [2n ** 96n, currentTick, 0, 0, 0, 0, true]
+        ),
+        [callKey(pool, 'liquidity()')]: coder.encode(['uint128'], [4000n])
+      });
     };
 
-    test('should analyze liquidity addition successfully', async () => {
-      mockProvider.getTransaction.mockResolvedValue(mockLiquidityTx as any);
-      mockProvider.getTransactionReceipt.mockResolvedValue(mockLiquidityReceipt as any);
+    test('should decode a concentrated liquidity position', async () => {
+      mockPosition([poolMint, increaseLiquidity]);
 
       const result = await analyzer.analyzeLiquidity(mockTxHash);
 
-      expect(result).toBeDefined();
       expect(result?.protocol).toBe('Uniswap V3');
       expect(result?.action).toBe('add');
-      expect(result?.pool.token0.symbol).toBe('USDC');
-      expect(result?.pool.token1.symbol).toBe('WETH');
+      expect(result?.positionId).toBe('42');
+      expect(result?.pool.token0.symbol).toBe('WETH');
+      expect(result?.pool.token0.amount).toBe('1.0');
+      expect(result?.pool.token1.amount).toBe('2500.0');
+      expect(result?.pool.fee).toBe(0.05);
+      expect(result?.position).toMatchObject({
+        tickLower: -196000,
+        tickUpper: -194000,
+        currentTick: -195000,
+        inRange: true,
+        liquidityDelta: '1000'
+      });
+      expect(result?.poolShare).toBe(25);
+    });
+
+    test('should separate collected fees from withdrawn principal', async () => {
+      mockPosition([poolBurn, decreaseLiquidity, collect]);
+
+      const result = await analyzer.analyzeLiquidity(mockTxHash);
+
+      expect(result?.action).toBe('remove');
+      expect(result?.position?.liquidityDelta).toBe('-500');
+      expect(result?.position?.feesCollected).toEqual({ token0: '0.1', token1: '10.0' });
     });
 
-    test('should calculate pool share correctly', async () => {
-      mockProvider.getTransaction.mockResolvedValue(mockLiquidityTx as any);
-      mockProvider.getTransactionReceipt.mockResolvedValue(mockLiquidityReceipt as any);
+    test('should give out-of-range positions no pool share', async () => {
+      mockPosition([poolMint, increaseLiquidity], -190000);
 
       const result = await analyzer.analyzeLiquidity(mockTxHash);
 
-      expect(result?.poolShare).toBeGreaterThan(0);
-      expect(result?.poolShare).toBeLessThan(100);
+      expect(result?.position?.inRange).toBe(false);
+      expect(result?.poolShare).toBe(0);
+    });
+
+    test('should return null for protocols that do not decode liquidity', async () => {
+      const aavePool = '0xA238Dd80C259a72e81d7e4664a9801593F98d1c5';
+      mockProvider.getTransaction.mockResolvedValue({ hash: mockTxHash, to: aavePool } as any);
+      mockProvider.getTransactionReceipt.mockResolvedValue({ transactionHash: mockTxHash, blockNumber: 5000000, logs: [] } as any);
+
+      const result = await analyzer.analyzeLiquidity(mockTxHash);
+
+      expect(result).toBeNull();
     });
   });
 
   describe('analyzeYieldFarming', () => {
     const mockYieldTxHash = '0x5555555555555555555555555555555555555555555555555555555555555555';
-    
-    test('should analyze staking transaction', async () => {
-      const mockYieldTx = {
-        hash: mockYieldTxHash,
-        to: '0x9c4ec768c28520B50860ea7a15bd7213a9fF58bf', // Compound V3
-        from: '0x742d35Cc6634C0532925a3b8D4C9db96C4b4d8b6'
-      };
+    const voter = '0x16613524e02ad97eDfeF371bC883F2F5d6C480A5';
+    const votingEscrow = '0xeBf418Fe2512e7E6bd9b87a8F0f294aCDC67e6B4';
+    const gauge = '0x1111111111111111111111111111111111111111';
+    const bribe = '0x2222222222222222222222222222222222222222';
+    const pool = '0xcdac0d6c6c59727a65f871236188350531885c43';
+    const user = '0x3333333333333333333333333333333333333333';
+    const AERO = '0x940181a94A35A4569E4529A3CDfB74e38FD98631';
+    const WETH = '0x4200000000000000000000000000000000000006';
+    const USDC = '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913';
+
+    const gaugeEvents = new ethers.Interface([
+      'event Deposit(address indexed from, address indexed to, uint256 amount)',
+      'event ClaimRewards(address indexed from, uint256 amount)'
+    ]);
+    const rewardEvents = new ethers.Interface([
+      'event ClaimRewards(address indexed from, address indexed reward, uint256 amount)'
+    ]);
+    const lockEvents = new ethers.Interface([
+      'event Deposit(address indexed provider, uint256 indexed tokenId, uint8 indexed depositType, uint256 value, uint256 locktime, uint256 ts)'
+    ]);
+    const toLog = (address: string, event: { topics: string[]; data: string }, index = 0) =>
+      ({ address, topics: event.topics, data: event.data, index });
+
+    // Half of a WETH/USDC pool worth $400k is staked; the gauge streams 0.01 AERO a second
+    const mockGauge = (to: string, logs: object[], periodFinish = 2000) => {
+      mockProvider.getTransaction.mockResolvedValue({ hash: mockYieldTxHash, to } as any);
+      mockProvider.getTransactionReceipt.mockResolvedValue({ transactionHash: mockYieldTxHash, blockNumber: 100, logs } as any);
+      mockProvider.getBlock.mockResolvedValue({ timestamp: 1000 } as any);
+
+      mockCalls(mockProvider, {
+        [callKey(voter, 'isGauge(address)')]: data =>
+          coder.encode(['bool'], [decodeArgs(['address'], data)[0].toLowerCase() === gauge]),
+        [callKey(bribe, 'voter()')]: coder.encode(['address'], [voter]),
+        [callKey(gauge, 'stakingToken()')]: coder.encode(['address'], [pool]),
+        [callKey(gauge, 'rewardToken()')]: coder.encode(['address'], [AERO]),
+        [callKey(gauge, 'rewardRate()')]: coder.encode(['uint256'], [10n ** 16n]),
+        [callKey(gauge, 'totalSupply()')]: coder.encode(['uint256'], [ethers.parseEther('500')]),
+        [callKey(gauge, 'periodFinish()')]: coder.encode(['uint256'], [periodFinish]),
+        [callKey(pool, 'token0()')]: coder.encode(['address'], [WETH]),
+        [callKey(pool, 'token1()')]: coder.encode(['address'], [USDC]),
+        [callKey(pool, 'getReserves()')]:
+          coder.encode(['uint256', 'uint256', 'uint256'], [ethers.parseEther('100'), 200000_000000n, 0]),
+        [callKey(pool, 'totalSupply()')]: coder.encode(['uint256'], [ethers.parseEther('1000')]),
+        [callKey(votingEscrow, 'token()')]: coder.encode(['address'], [AERO])
+      });
+
+      analyzer.setPriceSource({
+        getPriceUsd: async token => ({ WETH: 2000, USDC: 1, AERO: 1 } as Record<string, number>)[token.symbol] ?? null
+      });
+    };
 
-      const mockYieldReceipt = {
-        transactionHash: mockYieldTxHash,
-        gasUsed: 180000n,
-        status: 1,
-        logs: []
-      };
+    test('should decode a gauge deposit with the APR from its reward rate', async () => {
+      mockGauge(gauge, [toLog(gauge, gaugeEvents.encodeEventLog('Deposit', [user, user, ethers.parseEther('1')]))]);
 
-      mockProvider.getTransaction.mockResolvedValue(mockYieldTx as any);
-      mockProvider.getTransactionReceipt.mockResolvedValue(mockYieldReceipt as any);
+      const result = await analyzer.analyzeYieldFarming(mockYieldTxHash);
+
+      expect(result?.protocol).toBe('Aerodrome');
+      expect(result?.detection?.signal).toBe('factory-verified pool');
+      expect(result?.action).toBe('stake');
+      expect(result?.token.address.toLowerCase()).toBe(pool);
+      expect(result?.token.amount).toBe('1.0');
+      // 315,360 AERO a year against $200k staked
+      expect(result?.apr).toBeCloseTo(157.68);
+    });
+
+    test('should report gauge emissions claimed through the voter', async () => {
+      mockGauge(voter, [toLog(gauge, gaugeEvents.encodeEventLog('ClaimRewards', [user, ethers.parseEther('5')]))]);
+
+      const result = await analyzer.analyzeYieldFarming(mockYieldTxHash);
+
+      expect(result?.action).toBe('claim');
+      expect(result?.token.symbol).toBe('AERO');
+      expect(result?.rewards).toHaveLength(1);
+      expect(result?.rewards?.[0]).toMatchObject({ token: 'AERO', amount: '5.0' });
+      expect(result?.rewards?.[0].apr).toBeCloseTo(157.68);
+      expect(result?.apr).toBeCloseTo(157.68);
+    });
+
+    test('should aggregate fee and bribe claims alongside emissions', async () => {
+      mockGauge(voter, [
+        toLog(gauge, gaugeEvents.encodeEventLog('ClaimRewards', [user, ethers.parseEther('5')]), 0),
+        toLog(bribe, rewardEvents.encodeEventLog('ClaimRewards', [user, USDC, 3_000000n]), 1),
+        toLog(bribe, rewardEvents.encodeEventLog('ClaimRewards', [user, USDC, 2_000000n]), 2)
+      ], 500);
+
+      const result = await analyzer.analyzeYieldFarming(mockYieldTxHash);
+
+      // The reward period ended before the block, so emissions earn nothing
+      expect(result?.rewards).toEqual([
+        { token: 'AERO', amount: '5.0', apr: 0 },
+        { token: 'USDC', amount: '5.0', apr: undefined }
+      ]);
+      expect(result?.apr).toBeUndefined();
+    });
+
+    test('should ignore claims from contracts the voter does not know', async () => {
+      const impostor = '0x4444444444444444444444444444444444444444';
+      mockGauge(voter, [toLog(impostor, rewardEvents.encodeEventLog('ClaimRewards', [user, USDC, 3_000000n]))]);
+
+      const result = await analyzer.analyzeYieldFarming(mockYieldTxHash);
+
+      expect(result).toBeNull();
+    });
+
+    test('should report the lock period of a veAERO lock', async () => {
+      const fourYears = 4 * 365 * 86400;
+      mockGauge(votingEscrow, [
+        toLog(votingEscrow, lockEvents.encodeEventLog('Deposit', [user, 7, 1, ethers.parseEther('100'), 1000 + fourYears, 1000]))
+      ]);
 
       const result = await analyzer.analyzeYieldFarming(mockYieldTxHash);
 
-      expect(result).toBeDefined();
-      expect(result?.protocol).toBe('Compound V3');
       expect(result?.action).toBe('stake');
+      expect(result?.token.symbol).toBe('AERO');
+      expect(result?.token.amount).toBe('100.0');
+      expect(result?.lockPeriod).toBe(fourYears);
     });
 
-    test('should include reward information', async () => {
-      const mockYieldTx = {
-        to: '0x9c4ec768c28520B50860ea7a15bd7213a9fF58bf'
-      };
+    test('should return null for protocols without yield decoding', async () => {
+      mockProvider.getTransaction.mockResolvedValue({ hash: mockYieldTxHash, to: '0x9c4ec768c28520B50860ea7a15bd7213a9fF58bf' } as any);
+      mockProvider.getTransactionReceipt.mockResolvedValue({ transactionHash: mockYieldTxHash, logs: [] } as any);
+
+      const result = await analyzer.analyzeYieldFarming(mockYieldTxHash);
+
+      expect(result).toBeNull();
+    });
+  });
+
+  describe('Protocol adapters', () => {
+    const WETH = '0x4200000000000000000000000000000000000006';
+    const USDC = '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913';
+
+    test('should decode Aave V3 supply into a yield analysis', async () => {
+      const aavePool = '0xA238Dd80C259a72e81d7e4664a9801593F98d1c5';
+      const supply = new ethers.Interface([
+        'event Supply(address indexed reserve, address user, address indexed onBehalfOf, uint256 amount, uint16 indexed referralCode)'
+      ]).encodeEventLog('Supply', [WETH, WETH, WETH, ethers.parseEther('2'), 0]);
+
+      mockProvider.getTransaction.mockResolvedValue({ to: aavePool, gasPrice: 1n } as any);
+      mockProvider.getTransactionReceipt.mockResolvedValue({
+        blockNumber: 100,
+        logs: [{ address: aavePool, topics: supply.topics, data: supply.data, index: 0 }]
+      } as any);
+      // currentLiquidityRate of 3.5% expressed in ray
+      mockProvider.call.mockResolvedValue(coder.encode(
+        ['tuple(tuple(uint256),uint128,uint128,uint128,uint128,uint128,uint40,uint16,address,address,address,address,uint128,uint128,uint128)'],
+        [[[0n], 0n, 35n * 10n ** 24n, 0n, 0n, 0n, 0n, 0n, WETH, WETH, WETH, WETH, 0n, 0n, 0n]]
+      ));
+
+      const result = await analyzer.analyzeYieldFarming('0xaave');
+
+      expect(result?.protocol).toBe('Aave V3');
+      expect(result?.action).toBe('stake');
+      expect(result?.token.amount).toBe('2.0');
+      expect(result?.apr).toBeCloseTo(3.5);
+    });
+
+    test('should decode Balancer V2 vault swaps', async () => {
+      const vault = '0xBA12222222228d8Ba445958a75a0704d566BF2C8';
+      const pool = '0x3333333333333333333333333333333333333333';
+      const swap = new ethers.Interface([
+        'event Swap(bytes32 indexed poolId, address indexed tokenIn, address indexed tokenOut, uint256 amountIn, uint256 amountOut)'
+      ]).encodeEventLog('Swap', [pool + '0002000000000000000000aa', WETH, USDC, ethers.parseEther('1'), 2500000000n]);
+
+      mockProvider.getTransaction.mockResolvedValue({ to: vault, gasPrice: 1n } as any);
+      mockProvider.getTransactionReceipt.mockResolvedValue({
+        blockNumber: 100,
+        gasUsed: 120000n,
+        logs: [{ address: vault, topics: swap.topics, data: swap.data, index: 0 }]
+      } as any);
+      mockProvider.call.mockResolvedValue(coder.encode(['uint256'], [3n * 10n ** 15n]));
+
+      const result = await analyzer.analyzeSwap('0xbalancer');
 
-      mockProvider.getTransaction.mockResolvedValue(mockYieldTx as any);
+      expect(result?.protocol).toBe('Balancer V2');
+      expect(result?.tokenIn.symbol).toBe('WETH');
+      expect(result?.tokenOut.amount).toBe('2500.0');
+      expect(result?.fee).toBeCloseTo(0.3);
+    });
+  });
+
+  describe('Protocol registry', () => {
+    const testRouter = '0x5555555555555555555555555555555555555555';
+
+    const createTestAdapter = (overrides: Partial<ProtocolAdapter> = {}): ProtocolAdapter => ({
+      key: 'test-dex',
+      category: 'dex',
+      config: {
+        name: 'Test DEX',
+        version: '1.0',
+        contractAddresses: { router: testRouter },
+        abi: ['event Swap(address indexed sender, uint256 amountIn, uint256 amountOut)']
+      },
+      getTVLHoldings: async () => [],
+      classify: () => 'swap',
+      ...overrides
+    });
+
+    test('should list the built-in protocols', () => {
+      expect(analyzer.getRegisteredProtocols()).toEqual([
+        'uniswap-v3', 'aerodrome', 'compound-v3', 'aave-v3', 'moonwell', 'morpho-blue', 'curve', 'balancer-v2'
+      ]);
+    });
+
+    test('should register a custom adapter', async () => {
+      analyzer.registerProtocol(createTestAdapter());
+
+      expect(analyzer.getRegisteredProtocols()).toContain('test-dex');
+      expect(analyzer.getProtocolAdapter('test-dex')?.config.name).toBe('Test DEX');
+    });
+
+    test('should classify transactions against custom adapters', async () => {
+      analyzer.registerProtocol(createTestAdapter());
+      mockProvider.getTransaction.mockResolvedValue({ to: testRouter } as any);
       mockProvider.getTransactionReceipt.mockResolvedValue({ logs: [] } as any);
 
-      const result = await analyzer.analyzeYieldFarming(mockYieldTxHash);
+      const result = await analyzer.classifyTransaction('0xcustom');
+
+      expect(result?.detection.protocol).toBe('test-dex');
+      expect(result?.detection.name).toBe('Test DEX');
+      expect(result?.category).toBe('dex');
+      expect(result?.action).toBe('swap');
+    });
+
+    test('should let a custom adapter claim pools a built-in adapter rejects', async () => {
+      const forkPool = '0x6666666666666666666666666666666666666666';
+      const swapTopic = ethers.id('Swap(address,address,int256,int256,uint160,uint128,int24)');
+      analyzer.registerProtocol(createTestAdapter({
+        isPoolLog: log => log.topics[0] === swapTopic,
+        verifyPool: async address => address.toLowerCase() === forkPool
+      }));
+      mockProvider.getTransaction.mockResolvedValue({ to: '0x1111111254EEB25477B68fb85Ed929f73A960582' } as any);
+      mockProvider.getTransactionReceipt.mockResolvedValue({
+        logs: [{ address: forkPool, topics: [swapTopic], data: '0x', index: 0 }]
+      } as any);
+      // The pool names another factory, so Uniswap V3 turns it down first
+      mockCalls(mockProvider, { [selector('factory()')]: coder.encode(['address'], [forkPool]) });
+
+      const result = await analyzer.classifyTransaction('0xfork');
+
+      expect(result?.detection).toMatchObject({ protocol: 'test-dex', signal: 'factory-verified pool', address: forkPool });
+    });
+
+    test('should reject invalid adapters', () => {
+      expect(() => analyzer.registerProtocol(createTestAdapter({
+        config: { name: 'Test DEX', version: '1.0', contractAddresses: { router: '0x1234' }, abi: [] }
+      }))).toThrow('config.contractAddresses.router is not a valid address');
+
+      expect(() => analyzer.registerProtocol(createTestAdapter({ getTVLHoldings: undefined })))
+        .toThrow('adapter must implement at least one of');
+
+      expect(() => analyzer.registerProtocol(createTestAdapter({ isPoolLog: () => true })))
+        .toThrow('isPoolLog and verifyPool must be implemented together');
+    });
+
+    test('should reject duplicate keys unless replacing', async () => {
+      analyzer.registerProtocol(createTestAdapter());
+
+      expect(() => analyzer.registerProtocol(createTestAdapter()))
+        .toThrow('Protocol test-dex is already registered');
+
+      analyzer.registerProtocol(createTestAdapter({ classify: () => 'liquidity' }), { replace: true });
+      expect(analyzer.getProtocolAdapter('test-dex')?.classify?.([])).toBe('liquidity');
+    });
 
-      expect(result?.rewards).toBeDefined();
-      expect(Array.isArray(result?.rewards)).toBe(true);
+    test('should reject adapters claiming another protocol\'s contracts', () => {
+      expect(() => analyzer.registerProtocol(createTestAdapter({
+        config: {
+          name: 'Test DEX',
+          version: '1.0',
+          contractAddresses: { router: '0x2626664c2603336E57B271c5C0b26F421741e481' },
+          abi: []
+        }
+      }))).toThrow('is already registered to uniswap-v3');
+    });
+
+    test('should unregister protocols', async () => {
+      analyzer.registerProtocol(createTestAdapter());
+
+      expect(analyzer.unregisterProtocol('test-dex')).toBe(true);
+      expect(analyzer.unregisterProtocol('test-dex')).toBe(false);
+      await expect(analyzer.getProtocolTVL('test-dex'))
+        .rejects.toThrow('Protocol test-dex not supported');
     });
   });
 
   describe('getProtocolTVL', () => {
-    test('should return TVL for Uniswap V3', async () => {
-      const tvl = await analyzer.getProtocolTVL('uniswap-v3');
-      expect(tvl).toBeGreaterThan(0);
-      expect(typeof tvl).toBe('number');
+    const WETH = '0x4200000000000000000000000000000000000006';
+    const USDC = '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913';
+    const uniswapFactory = '0x33128a8fC17869897dcE68Ed026d694621f6FDfD';
+    const pool = '0xd0b53D9277642d899DF5C87A3966A349A798F224';
+    const comet = '0x9c4ec768c28520B50860ea7a15bd7213a9fF58bf';
+
+    const poolCreated = {
+      address: uniswapFactory,
+      blockNumber: 2000000,
+      topics: [
+        '0x783cca1c0412dd0d695e784568c96da2e9c22ff989357a2e8b1d9b2b4e6b7118',
+        ethers.zeroPadValue(WETH, 32),
+        ethers.zeroPadValue(USDC, 32),
+        ethers.zeroPadValue('0x01f4', 32)
+      ],
+      data: coder.encode(['int24', 'address'], [10, pool]),
+      index: 0
+    };
+
+    const balances: Record<string, bigint> = {
+      [WETH.toLowerCase()]: ethers.parseEther('10'),
+      [USDC.toLowerCase()]: 25000n * 10n ** 6n
+    };
+
+    const balanceCalls: CallTable = {
+      [selector('balanceOf(address)')]: (_, to) => coder.encode(['uint256'], [balances[to] ?? 0n])
+    };
+
+    const priceSource = {
+      getPriceUsd: async (token: { symbol: string }) =>
+        ({ WETH: 2500, USDC: 1 } as Record<string, number>)[token.symbol] ?? null
+    };
+
+    beforeEach(() => {
+      mockProvider.getBlock.mockResolvedValue({ number: 2000100 } as any);
+      mockProvider.getLogs.mockImplementation(async (filter: any) =>
+        filter.address === uniswapFactory && filter.fromBlock <= 2000000 && filter.toBlock >= 2000000
+          ? [poolCreated] as any
+          : []
+      );
+      mockCalls(mockProvider, balanceCalls);
     });
 
-    test('should return TVL for Aerodrome', async () => {
-      const tvl = await analyzer.getProtocolTVL('aerodrome');
-      expect(tvl).toBeGreaterThan(0);
+    test('should compute Uniswap V3 TVL from pool balances', async () => {
+      const tvl = await analyzer.getProtocolTVL('uniswap-v3', { priceSource });
+
+      expect(tvl.protocol).toBe('uniswap-v3');
+      expect(tvl.blockNumber).toBe(2000100);
+      expect(tvl.totalValueUsd).toBe(50000);
+      expect(tvl.pools).toHaveLength(1);
+      expect(tvl.pools[0].address).toBe(pool);
+      expect(tvl.pools[0].tokens.map(token => token.amount)).toEqual(['10.0', '25000.0']);
+      expect(tvl.unpricedTokens).toEqual([]);
     });
 
-    test('should return TVL for Compound V3', async () => {
-      const tvl = await analyzer.getProtocolTVL('compound-v3');
-      expect(tvl).toBeGreaterThan(0);
+    test('should index each pool once across concurrent snapshots', async () => {
+      const [first, second] = await Promise.all([
+        analyzer.getProtocolTVL('uniswap-v3', { priceSource }),
+        analyzer.getProtocolTVL('uniswap-v3', { priceSource })
+      ]);
+
+      expect(first.pools).toHaveLength(1);
+      expect(second.pools).toHaveLength(1);
+      expect(second.totalValueUsd).toBe(50000);
+    });
+
+    test('should report tokens the price source cannot value', async () => {
+      const tvl = await analyzer.getProtocolTVL('uniswap-v3', {
+        priceSource: { getPriceUsd: async (token: { symbol: string }) => token.symbol === 'WETH' ? 2500 : null }
+      });
+
+      expect(tvl.totalValueUsd).toBe(25000);
+      expect(tvl.unpricedTokens).toEqual([USDC]);
+    });
+
+    test('should pin historical snapshots to the requested block', async () => {
+      const tvl = await analyzer.getProtocolTVL('uniswap-v3', { blockTag: 1999999, priceSource });
+
+      expect(tvl.blockNumber).toBe(1999999);
+      expect(tvl.pools).toEqual([]);
+      expect(tvl.totalValueUsd).toBe(0);
+    });
+
+    test('should return an empty breakdown for Aerodrome without pools', async () => {
+      const tvl = await analyzer.getProtocolTVL('aerodrome', { priceSource });
+      expect(tvl.pools).toEqual([]);
+      expect(tvl.totalValueUsd).toBe(0);
+    });
+
+    test('should value Compound V3 base and collateral assets', async () => {
+      mockCalls(mockProvider, {
+        ...balanceCalls,
+        [callKey(comet, 'baseToken()')]: coder.encode(['address'], [USDC]),
+        [callKey(comet, 'numAssets()')]: coder.encode(['uint8'], [1]),
+        [callKey(comet, 'getAssetInfo(uint8)')]: coder.encode(
+          ['tuple(uint8,address,address,uint64,uint64,uint64,uint64,uint128)'],
+          [[0, WETH, WETH, 10n ** 18n, 0n, 0n, 0n, 0n]]
+        )
+      });
+
+      const tvl = await analyzer.getProtocolTVL('compound-v3', { priceSource });
+
+      expect(tvl.pools).toHaveLength(1);
+      expect(tvl.pools[0].label).toBe('cUSDCv3');
+      expect(tvl.totalValueUsd).toBe(50000);
     });
 
     test('should throw error for unsupported protocol', async () => {
@@ -227,23 +954,121 @@ describe('DeFiProtocolAnalyzer', () => {
     });
   });
 
-  describe('getProtocolVolume24h', () => {
-    test('should return 24h volume for supported protocols', async () => {
+  describe('volume and top pools', () => {
+    const WETH = '0x4200000000000000000000000000000000000006';
+    const USDC = '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913';
+    const uniswapFactory = '0x33128a8fC17869897dcE68Ed026d694621f6FDfD';
+    const pool = '0xd0b53D9277642d899DF5C87A3966A349A798F224';
+    const lookalikePool = '0x9999999999999999999999999999999999999999';
+    const swapInterface = new ethers.Interface([
+      'event Swap(address indexed sender, address indexed recipient, int256 amount0, int256 amount1, uint160 sqrtPriceX96, uint128 liquidity, int24 tick)'
+    ]);
+
+    const poolCreated = {
+      address: uniswapFactory,
+      blockNumber: 2000000,
+      topics: [
+        '0x783cca1c0412dd0d695e784568c96da2e9c22ff989357a2e8b1d9b2b4e6b7118',
+        ethers.zeroPadValue(WETH, 32),
+        ethers.zeroPadValue(USDC, 32),
+        ethers.zeroPadValue('0x01f4', 32)
+      ],
+      data: coder.encode(['int24', 'address'], [10, pool]),
+      index: 0
+    };
+
+    const swapLog = (address: string, blockNumber: number, amount0: bigint, amount1: bigint) => ({
+      address,
+      blockNumber,
+      index: 0,
+      ...swapInterface.encodeEventLog('Swap', [WETH, WETH, amount0, amount1, 1n, 1n, 0])
+    });
+
+    const logs = [
+      poolCreated,
+      swapLog(pool, 4990000, ethers.parseEther('1'), -2500n * 10n ** 6n), // sell 1 WETH
+      swapLog(pool, 4995000, -ethers.parseEther('1'), 2500n * 10n ** 6n), // buy 1 WETH
+      swapLog(pool, 4900000, ethers.parseEther('1'), -2500n * 10n ** 6n), // older than 24h
+      swapLog(lookalikePool, 4995000, ethers.parseEther('1'), -2500n * 10n ** 6n) // not from the factory
+    ];
+
+    const balances: Record<string, bigint> = {
+      [WETH.toLowerCase()]: ethers.parseEther('10'),
+      [USDC.toLowerCase()]: 25000n * 10n ** 6n
+    };
+
+    const calls: CallTable = {
+      [callKey(pool, 'token0()')]: coder.encode(['address'], [WETH]),
+      [callKey(pool, 'token1()')]: coder.encode(['address'], [USDC]),
+      [callKey(pool, 'fee()')]: coder.encode(['uint24'], [500]),
+      [callKey(pool, 'factory()')]: coder.encode(['address'], [uniswapFactory]),
+      [callKey(uniswapFactory, 'getPool(address,address,uint24)')]: coder.encode(['address'], [pool]),
+      [selector('balanceOf(address)')]: (_, to) => coder.encode(['uint256'], [balances[to] ?? 0n])
+    };
+
+    beforeEach(() => {
+      analyzer.setPriceSource({
+        getPriceUsd: async token => ({ WETH: 2500, USDC: 1 } as Record<string, number>)[token.symbol] ?? null
+      });
+      mockProvider.getBlock.mockResolvedValue({ number: 5000000 } as any);
+      mockProvider.getLogs.mockImplementation(async (filter: any) => logs.filter(log =>
+        log.blockNumber >= filter.fromBlock &&
+        log.blockNumber <= filter.toBlock &&
+        log.topics[0] === filter.topics[0] &&
+        (!filter.address || filter.address === log.address)
+      ) as any);
+      mockCalls(mockProvider, calls);
+    });
+
+    test('should sum 24h swap volume in USD', async () => {
       const volume = await analyzer.getProtocolVolume24h('uniswap-v3');
-      expect(typeof volume).toBe('number');
-      expect(volume).toBeGreaterThanOrEqual(0);
+      expect(volume).toBe(5000);
     });
-  });
 
-  describe('getTopPools', () => {
-    test('should return array of top pools', async () => {
-      const pools = await analyzer.getTopPools('uniswap-v3', 5);
-      expect(Array.isArray(pools)).toBe(true);
+    test('should size the window from the Base block time', async () => {
+      const volume = await analyzer.getProtocolVolume('uniswap-v3', { windowSeconds: 3600 });
+
+      expect(volume.toBlock).toBe(5000000);
+      expect(volume.fromBlock).toBe(5000000 - 1800 + 1);
+      expect(volume.swapCount).toBe(0);
+    });
+
+    test('should break volume and fees down by pool', async () => {
+      const volume = await analyzer.getProtocolVolume('uniswap-v3');
+
+      expect(volume.swapCount).toBe(2);
+      expect(volume.pools).toEqual([{ address: pool, volumeUsd: 5000, feesUsd: 2.5, swapCount: 2 }]);
+      expect(volume.feesUsd).toBe(2.5);
+    });
+
+    test('should return 0 for protocols without swap logs', async () => {
+      expect(await analyzer.getProtocolVolume24h('curve')).toBe(0);
+    });
+
+    test('should rank top pools with TVL, volume and fees', async () => {
+      const pools = await analyzer.getTopPools('uniswap-v3', 5, { sortBy: 'volume' });
+
+      expect(pools).toHaveLength(1);
+      expect(pools[0]).toMatchObject({
+        address: pool,
+        tvlUsd: 50000,
+        volumeUsd: 5000,
+        feesUsd: 2.5,
+        swapCount: 2
+      });
+    });
+
+    test('should rank top pools by fee APR over TVL when the pool state is unavailable', async () => {
+      const pools = await analyzer.getTopPools('uniswap-v3', 5, { sortBy: 'feeApr' });
+
+      expect(pools[0].volumeTvlRatio).toBeCloseTo(0.1);
+      // 2.5 of fees a day on 50000 of TVL
+      expect(pools[0].feeApr).toBeCloseTo(2.5 / 50000 * 365 * 100);
     });
 
     test('should respect limit parameter', async () => {
-      const pools = await analyzer.getTopPools('uniswap-v3', 3);
-      expect(pools.length).toBeLessThanOrEqual(3);
+      const pools = await analyzer.getTopPools('uniswap-v3', 0);
+      expect(pools).toEqual([]);
     });
 
     test('should throw error for unsupported protocol', async () => {
@@ -252,10 +1077,632 @@ describe('DeFiProtocolAnalyzer', () => {
     });
   });
 
+  describe('Compound V3 accounts', () => {
+    const comet = '0x9c4ec768c28520b50860ea7a15bd7213a9ff58bf';
+    const account = '0x742d35cc6634c0532925a3b8d4c9db96c4b4d8b6';
+    const USDC = '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913';
+    const WETH = '0x4200000000000000000000000000000000000006';
+    const cbETH = '0x2Ae3F1Ec7F1F5012CFEab0185bfc7aa3cf0DEc22';
+    const feeds: Record<string, bigint> = {
+      '0x0000000000000000000000000000000000000F00': 1n, // USDC
+      '0x0000000000000000000000000000000000000F01': 2500n, // WETH
+      '0x0000000000000000000000000000000000000f02': 2700n // cbETH
+    };
+
+    // 2 WETH posted against 3000 USDC of debt; no cbETH
+    const calls: CallTable = {
+      [callKey(comet, 'baseToken()')]: coder.encode(['address'], [USDC]),
+      [callKey(comet, 'baseTokenPriceFeed()')]: coder.encode(['address'], ['0x0000000000000000000000000000000000000F00']),
+      [callKey(comet, 'numAssets()')]: coder.encode(['uint8'], [2]),
+      [callKey(comet, 'getAssetInfo(uint8)')]: data => {
+        const [i] = decodeArgs(['uint8'], data);
+        return coder.encode(
+          ['tuple(uint8,address,address,uint64,uint64,uint64,uint64,uint128)'],
+          [[i, i === 0n ? WETH : cbETH, i === 0n ? '0x0000000000000000000000000000000000000F01' : '0x0000000000000000000000000000000000000f02',
+            10n ** 18n, ethers.parseEther('0.8'), ethers.parseEther('0.85'), ethers.parseEther('0.95'), 0]]
+        );
+      },
+      [callKey(comet, 'getPrice(address)')]: data => {
+        const [feed] = decodeArgs(['address'], data);
+        return coder.encode(['uint256'], [feeds[feed] * 10n ** 8n]);
+      },
+      [callKey(comet, 'balanceOf(address)')]: coder.encode(['uint256'], [0]),
+      [callKey(comet, 'borrowBalanceOf(address)')]: coder.encode(['uint256'], [3000_000000n]),
+      [callKey(comet, 'collateralBalanceOf(address,address)')]: data => {
+        const [, asset] = decodeArgs(['address', 'address'], data);
+        return coder.encode(['uint128'], [asset === WETH ? ethers.parseEther('2') : 0n]);
+      },
+      [callKey(comet, 'isLiquidatable(address)')]: coder.encode(['bool'], [false])
+    };
+
+    const cometEvents = new ethers.Interface([
+      'event Withdraw(address indexed src, address indexed to, uint256 amount)',
+      'event SupplyCollateral(address indexed from, address indexed dst, address indexed asset, uint256 amount)',
+      'event AbsorbDebt(address indexed absorber, address indexed borrower, uint256 basePaidOut, uint256 usdValue)'
+    ]);
+    const eventLog = (name: string, args: any[], blockNumber: number) => ({
+      ...cometEvents.encodeEventLog(name, args),
+      address: comet,
+      blockNumber,
+      index: 0,
+      transactionHash: ethers.zeroPadValue(ethers.toBeHex(blockNumber), 32)
+    });
+
+    beforeEach(() => {
+      mockProvider.getBlock.mockResolvedValue({ number: 5000000 } as any);
+      mockCalls(mockProvider, calls);
+    });
+
+    test('should value collateral and debt with the market price feeds', async () => {
+      const position = await analyzer.getAccountPosition('compound-v3', account);
+
+      expect(position.blockNumber).toBe(5000000);
+      expect(position.borrowed).toBe('3000.0');
+      expect(position.borrowedUsd).toBe(3000);
+      expect(position.collateral).toHaveLength(1);
+      expect(position.collateral[0]).toMatchObject({ balance: '2.0', priceUsd: 2500, valueUsd: 5000, liquidateCollateralFactor: 0.85 });
+      expect(position.borrowCapacityUsd).toBeCloseTo(4000, 6);
+      expect(position.liquidationThresholdUsd).toBeCloseTo(4250, 6);
+    });
+
+    test('should compute health factor and liquidation price', async () => {
+      const position = await analyzer.getAccountPosition('compound-v3', account);
+
+      expect(position.healthFactor).toBeCloseTo(4250 / 3000, 6);
+      // 3000 USDC of debt against 2 WETH at an 85% liquidation factor
+      expect(position.collateral[0].liquidationPrice).toBeCloseTo(3000 / (2 * 0.85), 6);
+      expect(position.isLiquidatable).toBe(false);
+    });
+
+    test('should decode account history in order', async () => {
+      const logs = [
+        eventLog('AbsorbDebt', ['0x0000000000000000000000000000000000000abc', account, 100_000000n, 100n * 10n ** 8n], 4000005),
+        eventLog('SupplyCollateral', [account, account, WETH, ethers.parseEther('2')], 4000000),
+        eventLog('Withdraw', [account, account, 3000_000000n], 4000001)
+      ];
+      mockProvider.getLogs.mockImplementation(async (filter: any) =>
+        logs.filter(log =>
+          filter.topics[0].includes(log.topics[0]) && log.blockNumber >= filter.fromBlock && log.blockNumber <= filter.toBlock
+        ) as any
+      );
+
+      const history = await analyzer.getAccountHistory('compound-v3', account, { fromBlock: 3900000 });
+
+      expect(history.map(event => event.type)).toEqual(['supplyCollateral', 'withdraw', 'absorbDebt']);
+      expect(history[0]).toMatchObject({ amount: '2.0', token: { symbol: 'WETH' } });
+      expect(history[1]).toMatchObject({ amount: '3000.0', token: { symbol: 'USDC' } });
+      expect(history[2].valueUsd).toBe(100);
+    });
+
+    test('should reject protocols without account positions', async () => {
+      await expect(analyzer.getAccountPosition('uniswap-v3', account)).rejects.toThrow('does not track account positions');
+      await expect(analyzer.getAccountPosition('compound-v3', '0x1234')).rejects.toThrow('Invalid account address');
+    });
+  });
+
+  describe('liquidations', () => {
+    const aavePool = '0xA238Dd80C259a72e81d7e4664a9801593F98d1c5';
+    const comet = '0x9c4ec768c28520B50860ea7a15bd7213a9fF58bf';
+    const comptroller = '0xfBb21d0380beE3312B33c4353c8936a0F13EF26C';
+    const mUSDC = '0xedc817a28e8b93b03976fbd4a3ddbc9f7d176c22';
+    const mWETH = '0x628ff693426583d9a7fb391e54366292f509d457';
+    const liquidator = '0x1111111111111111111111111111111111111111';
+    const borrower = '0x2222222222222222222222222222222222222222';
+    const WETH = '0x4200000000000000000000000000000000000006';
+    const USDC = '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913';
+    const blockNumber = 3_000_000;
+
+    const events = new ethers.Interface([
+      'event LiquidationCall(address indexed collateralAsset, address indexed debtAsset, address indexed user, uint256 debtToCover, uint256 liquidatedCollateralAmount, address liquidator, bool receiveAToken)',
+      'event LiquidateBorrow(address liquidator, address borrower, uint256 repayAmount, address mTokenCollateral, uint256 seizeTokens)',
+      'event AbsorbDebt(address indexed absorber, address indexed borrower, uint256 basePaidOut, uint256 usdValue)',
+      'event AbsorbCollateral(address indexed absorber, address indexed borrower, address indexed asset, uint256 collateralAbsorbed, uint256 usdValue)',
+      'event BuyCollateral(address indexed buyer, address indexed asset, uint256 baseAmount, uint256 collateralAmount)'
+    ]);
+    const toLog = (address: string, name: string, args: unknown[], index: number) => {
+      const { topics, data } = events.encodeEventLog(name, args);
+      return { address, topics, data, index, blockNumber, transactionHash: '0xliquidation' };
+    };
+
+    const aaveLiquidation = toLog(aavePool, 'LiquidationCall',
+      [WETH, USDC, borrower, 1000_000000n, ethers.parseEther('0.525'), liquidator, false], 0);
+    // 55 mWETH at 0.02 WETH each, less Moonwell's 3% seize share
+    const moonwellLiquidation = toLog(mUSDC, 'LiquidateBorrow',
+      [liquidator, borrower, 2000_000000n, mWETH, 55n * 10n ** 8n], 1);
+    const cometLogs = [
+      toLog(comet, 'AbsorbCollateral', [liquidator, borrower, WETH, ethers.parseEther('1'), 0n], 2),
+      toLog(comet, 'AbsorbDebt', [liquidator, borrower, 1800_000000n, 0n], 3),
+      toLog(comet, 'BuyCollateral', [liquidator, WETH, 1900_000000n, ethers.parseEther('1')], 4)
+    ];
+    const allLogs = [aaveLiquidation, moonwellLiquidation, ...cometLogs];
+
+    beforeEach(() => {
+      mockCalls(mockProvider, {
+        [callKey(comptroller, 'getAllMarkets()')]: coder.encode(['address[]'], [[mUSDC, mWETH]]),
+        [callKey(mUSDC, 'underlying()')]: coder.encode(['address'], [USDC]),
+        [callKey(mWETH, 'underlying()')]: coder.encode(['address'], [WETH]),
+        [callKey(mWETH, 'exchangeRateStored()')]: coder.encode(['uint256'], [2n * 10n ** 26n]),
+        [callKey(mWETH, 'protocolSeizeShareMantissa()')]: coder.encode(['uint256'], [3n * 10n ** 16n]),
+        [callKey(comet, 'baseToken()')]: coder.encode(['address'], [USDC])
+      });
+      analyzer.setPriceSource({
+        getPriceUsd: async token => ({ WETH: 2000, USDC: 1 } as Record<string, number>)[token.symbol] ?? null
+      });
+    });
+
+    test('should value liquidations on every market in a transaction', async () => {
+      mockProvider.getTransactionReceipt.mockResolvedValue({ blockNumber, logs: allLogs } as any);
+
+      const result = await analyzer.analyzeLiquidations('0xliquidation');
+
+      expect(result?.map(l => [l.protocol, l.kind])).toEqual([
+        ['aave-v3', 'liquidate'],
+        ['moonwell', 'liquidate'],
+        ['compound-v3', 'absorb'],
+        ['compound-v3', 'buyCollateral']
+      ]);
+
+      const [aave, moonwell, absorb, purchase] = result!;
+      expect(aave.debtRepaidUsd).toBeCloseTo(1000);
+      expect(aave.collateralSeizedUsd).toBeCloseTo(1050);
+      expect(aave.liquidatorProfitUsd).toBeCloseTo(50);
+
+      expect(moonwell.borrower?.toLowerCase()).toBe(borrower);
+      expect(moonwell.collateral[0].seized).toBe('1.1');
+      expect(moonwell.collateral[0].received).toBe('1.067');
+      expect(moonwell.liquidatorProfitUsd).toBeCloseTo(134);
+
+      // The market absorbs the account, so the absorber neither pays nor profits
+      expect(absorb.debtRepaid).toBe('1800.0');
+      expect(absorb.collateralSeizedUsd).toBeCloseTo(2000);
+      expect(absorb.liquidatorProfitUsd).toBe(0);
+
+      expect(purchase.borrower).toBeUndefined();
+      expect(purchase.liquidatorProfitUsd).toBeCloseTo(100);
+    });
+
+    test('should return no liquidations for other transactions', async () => {
+      mockProvider.getTransactionReceipt.mockResolvedValue({ blockNumber, logs: [] } as any);
+
+      const result = await analyzer.analyzeLiquidations('0xswap');
+
+      expect(result).toEqual([]);
+    });
+
+    test('should leave profit unpriced when a token has no price', async () => {
+      mockProvider.getTransactionReceipt.mockResolvedValue({ blockNumber, logs: [aaveLiquidation] } as any);
+      analyzer.setPriceSource({ getPriceUsd: async token => token.symbol === 'USDC' ? 1 : null });
+
+      const [liquidation] = (await analyzer.analyzeLiquidations('0xliquidation'))!;
+
+      expect(liquidation.debtRepaidUsd).toBeCloseTo(1000);
+      expect(liquidation.collateralSeizedUsd).toBeNull();
+      expect(liquidation.liquidatorProfitUsd).toBeNull();
+    });
+
+    test('should total liquidations across a block range', async () => {
+      mockProvider.getBlock.mockResolvedValue({ number: blockNumber + 100 } as any);
+      mockProvider.getLogs.mockImplementation(async (filter: any) => allLogs.filter(log =>
+        [filter.address].flat().some((address: string) => address.toLowerCase() === log.address.toLowerCase()) &&
+        [filter.topics[0]].flat().includes(log.topics[0]) &&
+        log.blockNumber >= filter.fromBlock && log.blockNumber <= filter.toBlock) as any);
+
+      const summary = await analyzer.getLiquidations({ fromBlock: blockNumber - 1000 });
+
+      expect(summary.toBlock).toBe(blockNumber + 100);
+      expect(summary.count).toBe(4);
+      expect(summary.debtRepaidUsd).toBeCloseTo(4800);
+      expect(summary.collateralSeizedUsd).toBeCloseTo(7250);
+      expect(summary.liquidatorProfitUsd).toBeCloseTo(284);
+      expect(summary.unpricedLiquidations).toBe(0);
+    });
+
+    test('should reject protocols that do not decode liquidations', async () => {
+      await expect(analyzer.getLiquidations({ protocols: ['uniswap-v3'] }))
+        .rejects.toThrow('Protocol uniswap-v3 does not decode liquidations');
+    });
+  });
+
+  describe('flash loans', () => {
+    const aavePool = '0xA238Dd80C259a72e81d7e4664a9801593F98d1c5';
+    const vault = '0xBA12222222228d8Ba445958a75a0704d566BF2C8';
+    const morpho = '0xBBBBBbbBBb9cC5e90e3b3Af64bdAF62C37EEFFCb';
+    const uniswapFactory = '0x33128a8fC17869897dcE68Ed026d694621f6FDfD';
+    const uniswapPool = '0xd0b53D9277642d899DF5C87A3966A349A798F224';
+    const lookalikePool = '0x9999999999999999999999999999999999999999';
+    const aUSDC = '0x4e65fe4dba92790696d040ac24aa414708f5c0ab';
+    const receiver = '0x1111111111111111111111111111111111111111';
+    const WETH = '0x4200000000000000000000000000000000000006';
+    const USDC = '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913';
+
+    const events = new ethers.Interface([
+      'event Transfer(address indexed from, address indexed to, uint256 value)',
+      'event FlashLoan(address indexed recipient, address indexed token, uint256 amount, uint256 feeAmount)',
+      'event Supply(address indexed reserve, address user, address indexed onBehalfOf, uint256 amount, uint16 indexed referralCode)',
+      'event Swap(address indexed sender, address indexed recipient, int256 amount0, int256 amount1, uint160 sqrtPriceX96, uint128 liquidity, int24 tick)',
+      'event Flash(address indexed sender, address indexed recipient, uint256 amount0, uint256 amount1, uint256 paid0, uint256 paid1)'
+    ]);
+    const aaveFlashLoan = new ethers.Interface([
+      'event FlashLoan(address indexed target, address initiator, address indexed asset, uint256 amount, uint8 interestRateMode, uint256 premium, uint16 indexed referralCode)'
+    ]);
+    const morphoFlashLoan = new ethers.Interface([
+      'event FlashLoan(address indexed caller, address indexed token, uint256 assets)'
+    ]);
+    const toLog = (address: string, iface: ethers.Interface, name: string, args: unknown[], index: number) => {
+      const { topics, data } = iface.encodeEventLog(name, args);
+      return { address, topics, data, index, blockNumber: 100, transactionHash: '0xflash' };
+    };
+
+    // Morpho lends WETH, then Balancer lends USDC for a Uniswap swap and an
+    // Aave supply; a separate Aave loan is repaid untouched
+    const logs = [
+      toLog(morpho, morphoFlashLoan, 'FlashLoan', [receiver, WETH, ethers.parseEther('1')], 0),
+      toLog(WETH, events, 'Transfer', [morpho, receiver, ethers.parseEther('1')], 1),
+      toLog(USDC, events, 'Transfer', [vault, receiver, 1000_000000n], 2),
+      toLog(uniswapPool, events, 'Swap', [receiver, receiver, -ethers.parseEther('0.5'), 1000_000000n, 10n ** 30n, 10n ** 18n, 0], 3),
+      toLog(aavePool, events, 'Supply', [WETH, receiver, receiver, ethers.parseEther('0.5'), 0], 4),
+      toLog(USDC, events, 'Transfer', [receiver, vault, 1000_000000n], 5),
+      toLog(vault, events, 'FlashLoan', [receiver, USDC, 1000_000000n, 0n], 6),
+      toLog(WETH, events, 'Transfer', [receiver, morpho, ethers.parseEther('1')], 7),
+      toLog(USDC, events, 'Transfer', [aUSDC, receiver, 500_000000n], 8),
+      toLog(USDC, events, 'Transfer', [receiver, aUSDC, 500_250000n], 9),
+      toLog(aavePool, aaveFlashLoan, 'FlashLoan', [receiver, receiver, USDC, 500_000000n, 0, 250000n, 0], 10),
+      toLog(lookalikePool, events, 'Flash', [receiver, receiver, 1n, 1n, 1n, 1n], 11)
+    ];
+
+    beforeEach(() => {
+      mockCalls(mockProvider, {
+        [callKey(uniswapPool, 'token0()')]: coder.encode(['address'], [WETH]),
+        [callKey(uniswapPool, 'token1()')]: coder.encode(['address'], [USDC]),
+        [callKey(uniswapPool, 'fee()')]: coder.encode(['uint24'], [500]),
+        [callKey(uniswapPool, 'factory()')]: coder.encode(['address'], [uniswapFactory]),
+        [callKey(uniswapFactory, 'getPool(address,address,uint24)')]: coder.encode(['address'], [uniswapPool]),
+        [callKey(lookalikePool, 'factory()')]: coder.encode(['address'], [receiver])
+      });
+      mockProvider.getTransactionReceipt.mockResolvedValue({ blockNumber: 100, logs } as any);
+    });
+
+    test('should annotate each loan with its asset, fee and inner protocols', async () => {
+      const result = await analyzer.analyzeFlashLoans('0xflash');
+
+      expect(result?.map(loan => [loan.protocol, loan.token.symbol, loan.amount, loan.fee])).toEqual([
+        ['morpho-blue', 'WETH', '1.0', '0.0'],
+        ['balancer-v2', 'USDC', '1000.0', '0.0'],
+        ['aave-v3', 'USDC', '500.0', '0.25']
+      ]);
+      const [morphoLoan, balancerLoan, aaveLoan] = result!;
+      expect(morphoLoan.receiver.toLowerCase()).toBe(receiver);
+      // Morpho's loan spans the whole Balancer loan, event included
+      expect(morphoLoan.protocols).toEqual(['uniswap-v3', 'aave-v3', 'balancer-v2']);
+      expect(balancerLoan.protocols).toEqual(['uniswap-v3', 'aave-v3']);
+      expect(aaveLoan.protocols).toEqual([]);
+    });
+
+    test('should ignore Flash events from unverified pools', async () => {
+      const result = await analyzer.analyzeFlashLoans('0xflash');
+
+      expect(result?.some(loan => loan.protocol === 'uniswap-v3')).toBe(false);
+    });
+
+    test('should return an empty list without flash loans', async () => {
+      mockProvider.getTransactionReceipt.mockResolvedValue({ blockNumber: 100, logs: logs.slice(2, 6) } as any);
+
+      const result = await analyzer.analyzeFlashLoans('0xflash');
+
+      expect(result).toEqual([]);
+    });
+  });
+
+  describe('getPoolCandles', () => {
+    const pool = '0xd0b53D9277642d899DF5C87A3966A349A798F224';
+    const factory = '0x33128a8fC17869897dcE68Ed026d694621f6FDfD';
+    const WETH = '0x4200000000000000000000000000000000000006';
+    const USDC = '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913';
+
+    const swapEvents = new ethers.Interface([
+      'event Swap(address indexed sender, address indexed recipient, int256 amount0, int256 amount1, uint160 sqrtPriceX96, uint128 liquidity, int24 tick)'
+    ]);
+    const swapLog = (blockNumber: number, index: number, amount0: bigint, amount1: bigint) => {
+      const { topics, data } = swapEvents.encodeEventLog('Swap', [pool, pool, amount0, amount1, 1n, 1n, 0]);
+      return { address: pool, topics, data, index, blockNumber, transactionHash: ethers.id(`${blockNumber}:${index}`) };
+    };
+
+    // Block 100 is at 12:20 (1200s) and blocks are two seconds apart
+    const logs = [
+      swapLog(100, 3, -ethers.parseEther('1'), 2000_000000n),
+      swapLog(100, 7, ethers.parseEther('1'), -1990_000000n),
+      swapLog(125, 1, -ethers.parseEther('0.5'), 1010_000000n),
+      swapLog(160, 0, ethers.parseEther('0.5'), -1000_000000n)
+    ];
+
+    beforeEach(() => {
+      mockCalls(mockProvider, {
+        [callKey(pool, 'token0()')]: coder.encode(['address'], [WETH]),
+        [callKey(pool, 'token1()')]: coder.encode(['address'], [USDC]),
+        [callKey(pool, 'fee()')]: coder.encode(['uint24'], [500]),
+        [callKey(pool, 'factory()')]: coder.encode(['address'], [factory]),
+        [callKey(factory, 'getPool(address,address,uint24)')]: coder.encode(['address'], [pool])
+      });
+      mockProvider.getBlock.mockImplementation(async (tag: any) => {
+        const number = tag === 'latest' ? 220 : Number(tag);
+        return { number, timestamp: 1200 + (number - 100) * 2 } as any;
+      });
+      mockProvider.getLogs.mockImplementation(async (filter: any) =>
+        logs.filter(log => log.blockNumber >= filter.fromBlock && log.blockNumber <= filter.toBlock) as any);
+      analyzer.setPriceSource({
+        getPriceUsd: async token => ({ WETH: 2000, USDC: 1 } as Record<string, number>)[token.symbol] ?? null
+      });
+    });
+
+    test('should build consecutive candles with volume and VWAP', async () => {
+      const series = await analyzer.getPoolCandles('uniswap-v3', pool, { interval: '1m', fromBlock: 100 });
+
+      expect(series.base?.symbol).toBe('WETH');
+      expect(series.quote?.symbol).toBe('USDC');
+      expect(series.toBlock).toBe(220);
+      expect(series.candles.map(candle => candle.timestamp)).toEqual([1200, 1260, 1320, 1380, 1440]);
+
+      const [first, empty, third] = series.candles;
+      expect(first).toMatchObject({ open: 2000, high: 2020, low: 1990, close: 2020, trades: 3 });
+      expect(first.volumeBase).toBeCloseTo(2.5);
+      expect(first.volumeQuote).toBeCloseTo(5000);
+      expect(first.volumeUsd).toBeCloseTo(5000);
+      expect(first.vwap).toBeCloseTo(2000);
+      // Quiet minutes carry the previous close
+      expect(empty).toMatchObject({ open: 2020, close: 2020, trades: 0, volumeBase: 0, volumeUsd: 0 });
+      expect(third).toMatchObject({ open: 2000, close: 2000, trades: 1 });
+    });
+
+    test('should quote the inverted pair', async () => {
+      const series = await analyzer.getPoolCandles('uniswap-v3', pool, { interval: '5m', fromBlock: 100, invert: true });
+
+      expect(series.base?.symbol).toBe('USDC');
+      expect(series.quote?.symbol).toBe('WETH');
+      expect(series.candles).toHaveLength(1);
+      expect(series.candles[0].open).toBeCloseTo(1 / 2000, 10);
+      expect(series.candles[0].high).toBeCloseTo(1 / 1990, 10);
+      expect(series.candles[0].volumeBase).toBeCloseTo(6000);
+      expect(series.candles[0].volumeQuote).toBeCloseTo(3);
+      expect(series.candles[0].trades).toBe(4);
+    });
+
+    test('should return an empty series when the pool did not trade', async () => {
+      const series = await analyzer.getPoolCandles('uniswap-v3', pool, { fromBlock: 200 });
+
+      expect(series.base).toBeNull();
+      expect(series.candles).toEqual([]);
+    });
+
+    test('should reject pools of another protocol', async () => {
+      await expect(analyzer.getPoolCandles('curve', pool)).rejects.toThrow(`Pool ${pool} is not a Curve pool`);
+      await expect(analyzer.getPoolCandles('aave-v3', pool)).rejects.toThrow('Protocol aave-v3 does not index pool swaps');
+    });
+  });
+
+  describe('getPoolPerformance', () => {
+    const pool = '0xd0b53D9277642d899DF5C87A3966A349A798F224';
+    const peer = '0x6c561B446416E1A00E8E93E221854d6eA4171372';
+    const factory = '0x33128a8fC17869897dcE68Ed026d694621f6FDfD';
+    const WETH = '0x4200000000000000000000000000000000000006';
+    const USDC = '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913';
+
+    // 2000 USDC per WETH
+    const tick = -200312;
+    const sqrtPriceX96 = BigInt(Math.floor(Math.sqrt(2000e-12) * 2 ** 48)) * 2n ** 48n;
+
+    const swapEvents = new ethers.Interface([
+      'event Swap(address indexed sender, address indexed recipient, int256 amount0, int256 amount1, uint160 sqrtPriceX96, uint128 liquidity, int24 tick)'
+    ]);
+    const swapLog = (address: string, blockNumber: number, amount0: bigint, amount1: bigint, swapTick: number, liquidity: bigint) => {
+      const { topics, data } = swapEvents.encodeEventLog('Swap', [address, address, amount0, amount1, sqrtPriceX96, liquidity, swapTick]);
+      return { address, topics, data, index: 0, blockNumber, transactionHash: ethers.id(`${address}:${blockNumber}`) };
+    };
+
+    // Whole-token liquidity is the raw amount over 10^((18 + 6) / 2)
+    const logs = [
+      swapLog(pool, 100, ethers.parseEther('1'), -1999_000000n, tick, 10n ** 15n),
+      swapLog(pool, 120, ethers.parseEther('1'), -1999_000000n, tick - 150, 5n * 10n ** 14n),
+      swapLog(peer, 130, -ethers.parseEther('1'), 2001_000000n, tick, 10n ** 14n)
+    ];
+    let calls: CallTable;
+
+    beforeEach(() => {
+      const balances: Record<string, bigint> = {
+        [`${WETH}:${pool}`.toLowerCase()]: ethers.parseEther('10'),
+        [`${USDC}:${pool}`.toLowerCase()]: 20000_000000n,
+        [`${WETH}:${peer}`.toLowerCase()]: ethers.parseEther('1'),
+        [`${USDC}:${peer}`.toLowerCase()]: 2000_000000n
+      };
+      calls = {
+        [callKey(factory, 'getPool(address,address,uint24)')]: data => {
+          const [, , fee] = decodeArgs(['address', 'address', 'uint24'], data);
+          return coder.encode(['address'], [fee === 500n ? pool : fee === 3000n ? peer : ethers.ZeroAddress]);
+        },
+        [selector('balanceOf(address)')]: (data, to) => {
+          const [holder] = decodeArgs(['address'], data);
+          return coder.encode(['uint256'], [balances[`${to}:${holder.toLowerCase()}`] ?? 0n]);
+        }
+      };
+      const pools: [string, number, bigint, number][] = [[pool, 500, 10n ** 15n, 10], [peer, 3000, 10n ** 14n, 60]];
+      for (const [address, fee, liquidity, tickSpacing] of pools) {
+        calls[callKey(address, 'token0()')] = coder.encode(['address'], [WETH]);
+        calls[callKey(address, 'token1()')] = coder.encode(['address'], [USDC]);
+        calls[callKey(address, 'fee()')] = coder.encode(['uint24'], [fee]);
+        calls[callKey(address, 'factory()')] = coder.encode(['address'], [factory]);
+        calls[callKey(address, 'slot0()')] = coder.encode(
+          ['uint160', 'int24', 'uint16', 'uint16', 'uint16', 'uint8', 'bool'],
+          [sqrtPriceX96, tick, 0, 0, 0, 0, true]
+        );
+        calls[callKey(address, 'liquidity()')] = coder.encode(['uint128'], [liquidity]);
+        calls[callKey(address, 'tickSpacing()')] = coder.encode(['int24'], [tickSpacing]);
+      }
+      mockCalls(mockProvider, calls);
+      mockProvider.getBlock.mockResolvedValue({ number: 200 } as any);
+      mockProvider.getLogs.mockImplementation(async (filter: any) => logs.filter(log =>
+        log.blockNumber >= filter.fromBlock &&
+        log.blockNumber <= filter.toBlock &&
+        log.address.toLowerCase() === filter.address.toLowerCase()
+      ) as any);
+      analyzer.setPriceSource({
+        getPriceUsd: async token => ({ WETH: 2000, USDC: 1 } as Record<string, number>)[token.symbol] ?? null
+      });
+    });
+
+    test('should annualise fees over the liquidity active across the traded ticks', async () => {
+      const report = await analyzer.getPoolPerformance('uniswap-v3', pool);
+
+      expect(report).toMatchObject({ protocol: 'uniswap-v3', fee: 0.05, concentrated: true, swapCount: 2, tvlUsd: 40000 });
+      expect(report.volumeUsd).toBeCloseTo(4000);
+      expect(report.feesUsd).toBeCloseTo(2);
+      expect(report.volumeTvlRatio).toBeCloseTo(0.1);
+      // 1000 units of liquidity over ticks -200470 to -200310
+      expect(report.inRangeLiquidityUsd).toBeCloseTo(356.35, 1);
+      // Each unit earned 1/1000 + 1/500 of fees on 0.35635 of value in a day
+      expect(report.feeApr).toBeCloseTo(0.003 / 0.35635 * 365 * 100, 0);
+    });
+
+    test('should break a concentrated pool down by tick range', async () => {
+      const report = await analyzer.getPoolPerformance('uniswap-v3', pool);
+
+      expect(report.tickRanges?.map(range => [range.tickLower, range.tickUpper, range.swapCount])).toEqual([
+        [-200500, -200400, 1],
+        [-200400, -200300, 1]
+      ]);
+      expect(report.tickRanges?.[1].priceLower).toBeCloseTo(1982.32, 1);
+
+      const wide = await analyzer.getPoolPerformance('uniswap-v3', pool, { tickRangeWidth: 1000 });
+      expect(wide.tickRanges).toHaveLength(1);
+      expect(wide.tickRanges?.[0].feesUsd).toBeCloseTo(2);
+    });
+
+    test('should measure Slipstream pools as concentrated', async () => {
+      const slipstreamFactory = '0x5e7BB104d84c7CB9B682AaC2F3d509f5F406809A';
+      mockCalls(mockProvider, {
+        ...calls,
+        [callKey(pool, 'factory()')]: coder.encode(['address'], [slipstreamFactory]),
+        [callKey(pool, 'slot0()')]: coder.encode(
+          ['uint160', 'int24', 'uint16', 'uint16', 'uint16', 'bool'],
+          [sqrtPriceX96, tick, 0, 0, 0, true]
+        ),
+        [callKey(slipstreamFactory, 'getPool(address,address,int24)')]: coder.encode(['address'], [pool]),
+        // No volatile pool for the pair
+        [selector('getPool(address,address,bool)')]: coder.encode(['address'], [ethers.ZeroAddress])
+      });
+
+      const report = await analyzer.getPoolPerformance('aerodrome', pool);
+
+      expect(report).toMatchObject({ protocol: 'aerodrome', fee: 0.05, concentrated: true, swapCount: 2, tvlUsd: 40000 });
+      expect(report.tickRanges?.map(range => [range.tickLower, range.tickUpper, range.swapCount])).toEqual([
+        [-200500, -200400, 1],
+        [-200400, -200300, 1]
+      ]);
+    });
+
+    test('should compare fee tiers of the same pair', async () => {
+      const report = await analyzer.getPoolPerformance('uniswap-v3', pool);
+
+      expect(report.peers.map(entry => [entry.address, entry.fee])).toEqual([[peer, 0.3], [pool, 0.05]]);
+      expect(report.peers[0].volumeTvlRatio).toBeCloseTo(0.50025);
+      expect(report.peers[0].feeEfficiency).toBe(1);
+      // 2 of fees on 40000 against 6.003 on 4000
+      expect(report.peers[1].feeEfficiency).toBeCloseTo((2 / 40000) / (6.003 / 4000));
+    });
+
+    test('should reject protocols without pool state', async () => {
+      await expect(analyzer.getPoolPerformance('curve', pool))
+        .rejects.toThrow('Protocol curve does not report pool performance');
+      await expect(analyzer.getPoolPerformance('uniswap-v3', '0x12')).rejects.toThrow('Invalid pool address: 0x12');
+    });
+  });
+
   describe('getArbitrageOpportunities', () => {
-    test('should return array of arbitrage opportunities', async () => {
-      const opportunities = await analyzer.getArbitrageOpportunities();
-      expect(Array.isArray(opportunities)).toBe(true);
+    const WETH = '0x4200000000000000000000000000000000000006';
+    const USDC = '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913';
+    const uniswapFactory = '0x33128a8fC17869897dcE68Ed026d694621f6FDfD';
+    const uniswapPool = '0xd0b53D9277642d899DF5C87A3966A349A798F224';
+    const aerodromeFactory = '0x420DD381b31aEf6683db6B902084cB0FFECe40Da';
+    const aerodromePool = '0xcDAC0d6c6C59727a65F871236188350531885C43';
+    const gasPriceOracle = '0x420000000000000000000000000000000000000F';
+
+    // Uniswap V3 prices WETH at 2500 USDC: virtual reserves 1000 WETH / 2.5M USDC
+    const sqrtPriceX96 = BigInt(Math.floor(Math.sqrt(2500e6 / 1e18) * 2 ** 96));
+    const liquidity = BigInt(Math.floor(Math.sqrt(1000e18 * 2500000e6)));
+
+    let aerodromeReserves: [bigint, bigint];
+
+    const calls: CallTable = {
+      [callKey(uniswapFactory, 'getPool(address,address,uint24)')]: data => {
+        const [, , fee] = decodeArgs(['address', 'address', 'uint24'], data);
+        return coder.encode(['address'], [fee === 500n ? uniswapPool : ethers.ZeroAddress]);
+      },
+      [callKey(uniswapPool, 'slot0()')]: coder.encode(
+        ['uint160', 'int24', 'uint16', 'uint16', 'uint16', 'uint8', 'bool'],
+        [sqrtPriceX96, 0, 0, 0, 0, 0, true]
+      ),
+      [callKey(uniswapPool, 'liquidity()')]: coder.encode(['uint128'], [liquidity]),
+      [callKey(aerodromeFactory, 'getPool(address,address,bool)')]: data => {
+        const [, , stable] = decodeArgs(['address', 'address', 'bool'], data);
+        return coder.encode(['address'], [stable ? ethers.ZeroAddress : aerodromePool]);
+      },
+      [callKey(aerodromeFactory, 'getFee(address,bool)')]: coder.encode(['uint256'], [30]),
+      [callKey(aerodromePool, 'token0()')]: coder.encode(['address'], [WETH]),
+      [callKey(aerodromePool, 'token1()')]: coder.encode(['address'], [USDC]),
+      [callKey(aerodromePool, 'stable()')]: coder.encode(['bool'], [false]),
+      [callKey(aerodromePool, 'factory()')]: coder.encode(['address'], [aerodromeFactory]),
+      [callKey(aerodromePool, 'getReserves()')]: () => coder.encode(['uint256', 'uint256', 'uint256'], [...aerodromeReserves, 0]),
+      [callKey(gasPriceOracle, 'isFjord()')]: coder.encode(['bool'], [true]),
+      [callKey(gasPriceOracle, 'l1BaseFee()')]: coder.encode(['uint256'], [ethers.parseUnits('10', 'gwei')]),
+      [callKey(gasPriceOracle, 'blobBaseFee()')]: coder.encode(['uint256'], [1]),
+      [callKey(gasPriceOracle, 'baseFeeScalar()')]: coder.encode(['uint32'], [2269]),
+      [callKey(gasPriceOracle, 'blobBaseFeeScalar()')]: coder.encode(['uint32'], [1055762])
+    };
+
+    beforeEach(() => {
+      // Aerodrome prices WETH at 2600 USDC
+      aerodromeReserves = [500n * 10n ** 18n, 1300000n * 10n ** 6n];
+
+      analyzer.setPriceSource({
+        getPriceUsd: async token => ({ WETH: 2500, USDC: 1 } as Record<string, number>)[token.symbol] ?? null
+      });
+      mockProvider.getBlock.mockResolvedValue({ number: 5000000, baseFeePerGas: ethers.parseUnits('0.01', 'gwei') } as any);
+      mockCalls(mockProvider, calls);
+    });
+
+    test('should sell into the richer pool and buy back from the cheaper one', async () => {
+      const [opportunity] = await analyzer.getArbitrageOpportunities({ tokens: [WETH, USDC] });
+
+      expect(opportunity.path).toEqual([WETH, USDC, WETH]);
+      expect(opportunity.legs.map(leg => leg.protocol)).toEqual(['aerodrome', 'uniswap-v3']);
+      expect(opportunity.legs[0].amountOut).toBe(opportunity.legs[1].amountIn);
+      expect(opportunity.spread).toBeCloseTo(4, 6);
+      expect(opportunity.blockNumber).toBe(5000000);
+    });
+
+    test('should size the input to maximise gross profit', async () => {
+      const [opportunity] = await analyzer.getArbitrageOpportunities({ tokens: [WETH, USDC] });
+
+      expect(parseFloat(opportunity.amountIn)).toBeCloseTo(5.946, 3);
+      expect(parseFloat(opportunity.grossProfit)).toBeCloseTo(0.1071, 4);
+      expect(opportunity.grossProfitUsd).toBeCloseTo(267.84, 2);
+    });
+
+    test('should net L2 gas and the L1 data fee out of the profit', async () => {
+      const [opportunity] = await analyzer.getArbitrageOpportunities({ tokens: [WETH, USDC] });
+
+      // 280k gas at 0.01 gwei base fee plus the 0.001 gwei default tip
+      expect(opportunity.gasCostUsd).toBeCloseTo(280000 * 0.011e-9 * 2500, 8);
+      expect(opportunity.l1FeeUsd).toBeGreaterThan(0);
+      expect(opportunity.netProfitUsd).toBeCloseTo(
+        opportunity.grossProfitUsd! - opportunity.gasCostUsd! - opportunity.l1FeeUsd!,
+        8
+      );
+    });
+
+    test('should report nothing when pool prices agree within fees', async () => {
+      aerodromeReserves = [500n * 10n ** 18n, 1251000n * 10n ** 6n];
+
+      const opportunities = await analyzer.getArbitrageOpportunities({ tokens: [WETH, USDC] });
+      expect(opportunities).toEqual([]);
     });
   });
 
@@ -304,32 +1751,195 @@ describe('DeFiProtocolAnalyzer', () => {
     });
   });
 
+  describe('getPositionImpermanentLoss', () => {
+    const positionManager = '0x03a520b32C04BF3bEEf7BEb72E919cf822Ed34f1';
+    const factory = '0x33128a8fC17869897dcE68Ed026d694621f6FDfD';
+    const pool = '0xd0b53D9277642d899DF5C87A3966A349A798F224';
+    const Q128 = 2n ** 128n;
+
+    beforeEach(() => {
+      // WETH/USDC 0.05% position over roughly 2063-3078 USDC, priced at 2500
+      const calls: CallTable = {
+        [callKey(positionManager, 'positions(uint256)')]: data => {
+          if (BigInt('0x' + data.slice(10)) !== 7n) throw new Error('Invalid token ID');
+          return coder.encode(
+            ['uint96', 'address', 'address', 'address', 'uint24', 'int24', 'int24', 'uint128', 'uint256', 'uint256', 'uint128', 'uint128'],
+            [0, ethers.ZeroAddress, '0x4200000000000000000000000000000000000006', '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913',
+              500, -200000, -196000, 10n ** 15n, 5n * Q128, 0n, 10n ** 15n, 0n]
+          );
+        },
+        [callKey(positionManager, 'factory()')]: coder.encode(['address'], [factory]),
+        [callKey(factory, 'getPool(address,address,uint24)')]: coder.encode(['address'], [pool]),
+        [callKey(pool, 'fee()')]: coder.encode(['uint24'], [500]),
+        [callKey(pool, 'slot0()')]: coder.encode(
+          ['uint160', 'int24', 'uint16', 'uint16', 'uint16', 'uint8', 'bool'],
+          [BigInt(Math.floor(Math.sqrt(2500e-12) * 2 ** 96)), -198080, 0, 0, 0, 0, true]
+        ),
+        // Growth inside the range is 10 - 2 below - 1 above = 7 against 5 at the last update
+        [callKey(pool, 'feeGrowthGlobal0X128()')]: coder.encode(['uint256'], [10n * Q128]),
+        [callKey(pool, 'feeGrowthGlobal1X128()')]: coder.encode(['uint256'], [0n]),
+        [callKey(pool, 'ticks(int24)')]: data => {
+          const [tick] = decodeArgs(['int24'], data);
+          return coder.encode(
+            ['uint128', 'int128', 'uint256', 'uint256', 'int56', 'uint160', 'uint32', 'bool'],
+            [0, 0, tick === -200000n ? 2n * Q128 : Q128, 0, 0, 0, 0, true]
+          );
+        }
+      };
+      mockCalls(mockProvider, calls);
+    });
+
+    test('should measure a concentrated position against holding', async () => {
+      const result = await analyzer.getPositionImpermanentLoss('uniswap-v3', '7', 2000);
+
+      expect(result.tickLower).toBe(-200000);
+      expect(result.tickUpper).toBe(-196000);
+      expect(result.priceLower).toBeCloseTo(2063.2, 1);
+      expect(result.currentPrice).toBeCloseTo(2500, 6);
+      expect(result.inRange).toBe(true);
+      // Concentrated liquidity loses more than the 0.62% of a full-range position
+      expect(result.impermanentLoss).toBeCloseTo(4.62, 2);
+    });
+
+    test('should count owed and accrued fees toward the net return', async () => {
+      const result = await analyzer.getPositionImpermanentLoss('uniswap-v3', '7', 2500);
+
+      expect(result.feesOwed).toEqual({ token0: '0.003', token1: '0.0' });
+      expect(result.feesValue).toBeCloseTo(7.5, 6);
+      expect(result.impermanentLoss).toBe(0);
+      expect(result.netReturn).toBeGreaterThan(0);
+    });
+
+    test('should reject unknown positions and protocols without positions', async () => {
+      await expect(analyzer.getPositionImpermanentLoss('uniswap-v3', '8', 2000)).rejects.toThrow('Position 8 not found');
+      await expect(analyzer.getPositionImpermanentLoss('curve', '7', 2000)).rejects.toThrow('does not have liquidity positions');
+    });
+  });
+
+  describe('simulateImpermanentLoss', () => {
+    test('should match the full-range formula without bounds', async () => {
+      const points = analyzer.simulateImpermanentLoss(2500, { priceLower: 0, priceUpper: Infinity }, { steps: 3 });
+
+      expect(points.map(point => point.price)).toEqual([1250, 2500, 5000]);
+      expect(points[2].impermanentLoss).toBeCloseTo(await analyzer.getImpermanentLossCalculation('', 2500, 5000), 9);
+    });
+
+    test('should show narrower ranges losing more', () => {
+      const grid = { minPrice: 2000, maxPrice: 3000, steps: 11 };
+      const wide = analyzer.simulateImpermanentLoss(2500, { priceLower: 1000, priceUpper: 6000 }, grid);
+      const narrow = analyzer.simulateImpermanentLoss(2500, { priceLower: 2200, priceUpper: 2800 }, grid);
+
+      expect(narrow[0].inRange).toBe(false);
+      expect(narrow[0].impermanentLoss).toBeGreaterThan(wide[0].impermanentLoss);
+      expect(narrow[10].impermanentLoss).toBeGreaterThan(wide[10].impermanentLoss);
+    });
+
+    test('should reject an empty grid', () => {
+      expect(() => analyzer.simulateImpermanentLoss(2500, { priceLower: 0, priceUpper: Infinity }, { steps: 0 })).toThrow();
+    });
+  });
+
   describe('getOptimalSwapRoute', () => {
-    test('should find optimal route between tokens', async () => {
-      const tokenIn = '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913'; // USDC
-      const tokenOut = '0x4200000000000000000000000000000000000006'; // WETH
-      const amountIn = '1000000000'; // 1000 USDC
+    const tokenIn = '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913'; // USDC
+    const tokenOut = '0x4200000000000000000000000000000000000006'; // WETH
+    const amountIn = '1000000000'; // 1000 USDC
+    const uniswapPool = '0xd0b53D9277642d899DF5C87A3966A349A798F224';
+    const aerodromePool = '0xcDAC0d6c6C59727a65F871236188350531885C43';
+    const uniswapFactory = '0x33128a8fC17869897dcE68Ed026d694621f6FDfD';
+    const quoter = '0x3d4e44Eb1374240CE5F1B871ab261CD16335B76a';
+    const aerodromeFactory = '0x420DD381b31aEf6683db6B902084cB0FFECe40Da';
+    const aerodromeRouter = '0xcF77a3Ba9A5CA399B7c97c74d54e5b1Beb874E43';
+
+
+    // 1000 USDC buys 0.4 WETH; larger trades get proportionally less
+    const quoteOut = (amount: bigint, feeBps: bigint) => {
+      const ideal = amount * 4n * 10n ** 8n;
+      return (ideal - ideal * amount / 10n ** 13n) * (10_000n - feeBps) / 10_000n;
+    };
+
+    const calls: CallTable = {
+      // Uniswap V3 factory: only the 0.05% USDC/WETH pool exists
+      [callKey(uniswapFactory, 'getPool(address,address,uint24)')]: data => {
+        const [a, b, fee] = decodeArgs(['address', 'address', 'uint24'], data);
+        const isPair = [a, b].every(token => [tokenIn, tokenOut].includes(token));
+        return coder.encode(['address'], [isPair && fee === 500n ? uniswapPool : ethers.ZeroAddress]);
+      },
+      [callKey(quoter, 'quoteExactInput(bytes,uint256)')]: data => {
+        const [, amount] = decodeArgs(['bytes', 'uint256'], data);
+        return coder.encode(['uint256', 'uint160[]', 'uint32[]', 'uint256'], [quoteOut(amount, 5n), [], [], 90000n]);
+      },
+      // Aerodrome factory: only the volatile USDC/WETH pool exists
+      [callKey(aerodromeFactory, 'getPool(address,address,bool)')]: data => {
+        const [a, b, stable] = decodeArgs(['address', 'address', 'bool'], data);
+        const isPair = [a, b].every(token => [tokenIn, tokenOut].includes(token));
+        return coder.encode(['address'], [isPair && !stable ? aerodromePool : ethers.ZeroAddress]);
+      },
+      [callKey(aerodromeFactory, 'getFee(address,bool)')]: coder.encode(['uint256'], [30]),
+      [callKey(aerodromeRouter, 'getAmountsOut(uint256,(address,address,bool,address)[])')]: data => {
+        const [amount] = decodeArgs(['uint256', 'tuple(address,address,bool,address)[]'], data);
+        return coder.encode(['uint256[]'], [[amount, quoteOut(amount, 30n)]]);
+      },
+      [callKey(aerodromePool, 'token0()')]: coder.encode(['address'], [tokenOut]),
+      [callKey(aerodromePool, 'token1()')]: coder.encode(['address'], [tokenIn]),
+      [callKey(aerodromePool, 'stable()')]: coder.encode(['bool'], [false]),
+      [callKey(aerodromePool, 'factory()')]: coder.encode(['address'], [aerodromeFactory])
+    };
+
+    beforeEach(() => {
+      analyzer.setPriceSource({
+        getPriceUsd: async token => ({ WETH: 2500, USDC: 1 } as Record<string, number>)[token.symbol] ?? null
+      });
+      // 0.01 gwei with the default 0.001 gwei tip
+      mockProvider.getBlock.mockResolvedValue({ number: 5000000, baseFeePerGas: ethers.parseUnits('0.009', 'gwei') } as any);
+      mockCalls(mockProvider, calls);
+    });
 
-      const route = await analyzer.getOptimalSwapRoute(tokenIn, tokenOut, amountIn);
+    test('should rank quotes from Uniswap V3 and Aerodrome', async () => {
+      const routes = await analyzer.getOptimalSwapRoute(tokenIn, tokenOut, amountIn);
 
-      expect(route).toBeDefined();
-      expect(route.protocol).toBeDefined();
-      expect(route.route).toContain(tokenIn);
-      expect(route.route).toContain(tokenOut);
-      expect(route.expectedOutput).toBeDefined();
-      expect(route.priceImpact).toBeGreaterThanOrEqual(0);
-      expect(route.gasEstimate).toBeGreaterThan(0);
+      expect(routes.map(route => route.protocol)).toEqual(['uniswap-v3', 'aerodrome']);
+      expect(routes[0].route).toEqual([tokenIn, tokenOut]);
+      expect(routes[0].pools).toEqual([uniswapPool]);
+      expect(routes[0].fees).toEqual([0.05]);
+      expect(routes[1].fees).toEqual([0.3]);
+      expect(parseFloat(routes[0].expectedOutput)).toBeCloseTo(0.4 * 0.9995 * 0.9999, 6);
+    });
+
+    test('should report price impact separately from fees', async () => {
+      const [small] = await analyzer.getOptimalSwapRoute(tokenIn, tokenOut, amountIn);
+      const [large] = await analyzer.getOptimalSwapRoute(tokenIn, tokenOut, '1000000000000');
+
+      expect(small.priceImpact).toBeCloseTo(0.01, 2);
+      expect(large.priceImpact).toBeCloseTo(10, 1);
+    });
+
+    test('should net the gas cost against the output', async () => {
+      const [route] = await analyzer.getOptimalSwapRoute(tokenIn, tokenOut, amountIn);
+
+      // QuoterV2 estimate plus router overhead
+      expect(route.gasEstimate).toBe(150000);
+      expect(route.gasCostUsd).toBeCloseTo(150000 * 0.01e-9 * 2500, 8);
+      expect(parseFloat(route.expectedOutput) - parseFloat(route.netOutput))
+        .toBeCloseTo(route.gasCostUsd! / 2500, 10);
+      expect(mockProvider.getBlock).toHaveBeenLastCalledWith(5000000);
     });
 
     test('should include gas estimate', async () => {
-      const route = await analyzer.getOptimalSwapRoute(
-        '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913',
-        '0x4200000000000000000000000000000000000006',
-        '1000000000'
-      );
+      const routes = await analyzer.getOptimalSwapRoute(tokenIn, tokenOut, amountIn);
 
-      expect(route.gasEstimate).toBeGreaterThan(100000);
-      expect(route.gasEstimate).toBeLessThan(500000);
+      for (const route of routes) {
+        expect(route.gasEstimate).toBeGreaterThan(100000);
+        expect(route.gasEstimate).toBeLessThan(500000);
+      }
+    });
+
+    test('should return no routes when no pool can fill the swap', async () => {
+      const routes = await analyzer.getOptimalSwapRoute(
+        tokenIn,
+        '0x7777777777777777777777777777777777777777',
+        amountIn
+      );
+      expect(routes).toEqual([]);
     });
   });
 
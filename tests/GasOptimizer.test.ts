@@ -7,6 +7,16 @@
 
 import { describe, test, expect, beforeEach, jest, afterEach } from '@jest/globals';
 import { ethers } from 'ethers';
+import { GasOptimizer } from '../src/GasOptimizer';
+import { FeeEstimator } from '../src/FeeEstimator';
+import { GasPriceHistory, GasPriceSample, MemoryGasPriceStore } from '../src/GasPriceHistory';
+import { L1FeeCalculator } from '../src/L1FeeCalculator';
+
+// Mock the ethers provider, keeping the ABI and unit helpers real
+jest.mock('ethers', () => {
+  const actual = jest.requireActual<typeof import('ethers')>('ethers');
+  return { ...actual, ethers: { ...actual.ethers, JsonRpcProvider: jest.fn() } };
+});
 
 // Mock the GasOptimizer (assuming it exists in the src folder)
 interface GasAnalysis {
@@ -19,7 +29,7 @@ interface GasAnalysis {
   suggestions: string[];
 }
 
-interface GasOptimizer {
+interface GasOptimizerApi {
   analyzeGasUsage(txHash: string): Promise<GasAnalysis>;
   getCurrentGasPrice(): Promise<number>;
   getGasPriceHistory(hours: number): Promise<number[]>;
@@ -29,7 +39,7 @@ interface GasOptimizer {
 }
 
 // Mock implementation
-class MockGasOptimizer implements GasOptimizer {
+class MockGasOptimizer implements GasOptimizerApi {
   private provider: ethers.Provider;
 
   constructor(rpcUrl: string) {
@@ -407,4 +417,444 @@ describe('GasOptimizer', () => {
       expect(savingsPercentage).toBe(25);
     });
   });
+
+  describe('L1 data fee accounting', () => {
+    const feeParams = {
+      model: 'fjord' as const,
+      l1BaseFee: 10000000000n,
+      l1BlobBaseFee: 1n,
+      baseFeeScalar: 2269n,
+      blobBaseFeeScalar: 1055762n
+    };
+
+    const l1HeavyTransaction = {
+      hash: '0x1234',
+      from: '0x742d35Cc6634C0532925a3b8D4C9db96C4b4d8b6',
+      to: '0x2626664c2603336E57B271c5C0b26F421741e481',
+      value: '0',
+      gasPrice: '5000000',
+      gasUsed: '120000',
+      blockNumber: 1,
+      timestamp: 1640995200,
+      status: 1,
+      input: '0x' + 'ab'.repeat(400),
+      l1Fee: '900000000000',
+      l1GasPrice: '10000000000',
+      l1BlobBaseFee: '1',
+      l1BaseFeeScalar: '2269',
+      l1BlobBaseFeeScalar: '1055762'
+    };
+
+    test('should split L2 execution cost from L1 data cost', () => {
+      const report = new GasOptimizer().analyzeGasUsage(l1HeavyTransaction);
+
+      expect(report.costBreakdown.l2ExecutionCost).toBe('0.0000006');
+      expect(report.costBreakdown.l1DataCost).toBe('0.0000009');
+      expect(report.costBreakdown.l1DataCostShare).toBeCloseTo(0.6, 4);
+      expect(report.currentGasCost).toBe('0.0000015');
+    });
+
+    test('should suggest shrinking calldata when the L1 fee dominates', () => {
+      const report = new GasOptimizer().analyzeGasUsage(l1HeavyTransaction);
+
+      expect(report.suggestions.map(s => s.type)).toContain('calldata_size');
+    });
+
+    test('should charge Fjord fees by compressed size', () => {
+      const zeroes = '0x' + '00'.repeat(1000);
+      const random = ethers.hexlify(ethers.randomBytes(1000));
+
+      const compressible = L1FeeCalculator.calculateFjordFee(zeroes, feeParams);
+      const incompressible = L1FeeCalculator.calculateFjordFee(random, feeParams);
+
+      expect(compressible.compressedSize).toBeLessThan(incompressible.compressedSize!);
+      expect(compressible.l1Fee).toBeLessThan(incompressible.l1Fee);
+    });
+
+    test('should weight zero bytes lower under Ecotone', () => {
+      const zeroes = L1FeeCalculator.calculateEcotoneFee('0x' + '00'.repeat(100), feeParams);
+      const nonZero = L1FeeCalculator.calculateEcotoneFee('0x' + 'ff'.repeat(100), feeParams);
+
+      expect(nonZero.l1GasUsed - zeroes.l1GasUsed).toBe(1200n);
+    });
+  });
+
+  describe('gas limit analysis', () => {
+    const router = '0x2626664c2603336E57B271c5C0b26F421741e481';
+    const execution = (hash: string, gasUsed: number, gasLimit: number, input = '0x04e45aaf' + '00'.repeat(64)) => ({
+      hash,
+      from: '0x742d35Cc6634C0532925a3b8D4C9db96C4b4d8b6',
+      to: router,
+      value: '0',
+      gasPrice: '5000000',
+      gasLimit: gasLimit.toString(),
+      gasUsed: gasUsed.toString(),
+      blockNumber: 1,
+      timestamp: 1640995200,
+      status: 1,
+      input
+    });
+
+    test('should measure usage against the real gas limit', () => {
+      const optimizer = new GasOptimizer();
+
+      const oversized = optimizer.analyzeGasUsage(execution('0x01', 120000, 500000));
+      const suggestion = oversized.suggestions.find(s => s.type === 'gas_limit');
+      expect(suggestion?.description).toBe('Gas limit of 500000 is only 24.0% used');
+      expect(suggestion?.implementation).toContain('138000');
+      expect(suggestion?.potentialSavings).toBe('0');
+
+      const tight = optimizer.analyzeGasUsage(execution('0x02', 120000, 130000));
+      expect(tight.suggestions.map(s => s.type)).not.toContain('gas_limit');
+    });
+
+    test('should only flag gas limits used below 70%', () => {
+      const optimizer = new GasOptimizer();
+      const flagged = (gasUsed: number) => optimizer.analyzeGasUsage(execution(`0x${gasUsed}`, gasUsed, 200000))
+        .suggestions.some(s => s.type === 'gas_limit');
+
+      expect(flagged(139000)).toBe(true);
+      expect(flagged(140000)).toBe(false);
+      expect(flagged(190000)).toBe(false);
+    });
+
+    test('should report the utilization distribution of a batch', () => {
+      const utilization = new GasOptimizer().analyzeGasLimitUtilization([
+        execution('0x01', 24000, 100000),
+        execution('0x02', 60000, 100000),
+        execution('0x03', 80000, 100000),
+        execution('0x04', 100000, 100000),
+        { ...execution('0x05', 50000, 0), gasLimit: undefined }
+      ]);
+
+      expect(utilization).toMatchObject({ count: 4, min: 0.24, median: 0.6, max: 1, overProvisioned: 2 });
+      expect(utilization.mean).toBeCloseTo(0.66);
+      expect(utilization.buckets.map(bucket => bucket.count)).toEqual([1, 0, 1, 1, 1]);
+    });
+
+    test('should recommend per-method limits learned from past executions', () => {
+      const optimizer = new GasOptimizer();
+      optimizer.recordExecutions([
+        execution('0x01', 100000, 300000),
+        execution('0x02', 110000, 300000),
+        execution('0x03', 120000, 300000),
+        execution('0x03', 120000, 300000),
+        { ...execution('0x04', 900000, 1000000), status: 0 },
+        execution('0x05', 50000, 60000, '0x095ea7b3' + '00'.repeat(64))
+      ]);
+
+      const [swap, approve] = optimizer.getMethodGasLimits();
+      expect(swap).toMatchObject({
+        contract: router.toLowerCase(),
+        selector: '0x04e45aaf',
+        samples: 3,
+        medianGasUsed: '110000',
+        maxGasUsed: '120000',
+        recommendedGasLimit: '138000'
+      });
+      expect(swap.medianUtilization).toBeCloseTo(0.3666, 4);
+      expect(approve.selector).toBe('0x095ea7b3');
+
+      const report = optimizer.analyzeGasUsage(execution('0x06', 90000, 500000));
+      const suggestion = report.suggestions.find(s => s.type === 'gas_limit');
+      expect(suggestion?.confidence).toBe('high');
+      expect(suggestion?.implementation).toContain('138000');
+    });
+  });
+  describe('EIP-1559 fee overpayment', () => {
+    const gwei = (value: string) => ethers.parseUnits(value, 'gwei').toString();
+    const typeTwo = {
+      hash: '0xaaaa',
+      from: '0x742d35Cc6634C0532925a3b8D4C9db96C4b4d8b6',
+      to: '0x2626664c2603336E57B271c5C0b26F421741e481',
+      value: '0',
+      gasPrice: gwei('0.105'),
+      effectiveGasPrice: gwei('0.105'),
+      gasUsed: '100000',
+      blockNumber: 7,
+      timestamp: 1640995200,
+      status: 1,
+      type: 2,
+      maxFeePerGas: gwei('0.2'),
+      maxPriorityFeePerGas: gwei('0.1'),
+      baseFeePerGas: gwei('0.005')
+    };
+    const blockFees = { blockNumber: 7, baseFeePerGas: gwei('0.005'), minPriorityFeePerGas: gwei('0.001') };
+
+    test('should quantify the priority fee paid beyond what the block included', () => {
+      const report = new GasOptimizer().analyzeGasUsage(typeTwo, blockFees);
+
+      expect(report.feeOverpayment).toMatchObject({
+        priorityFeePerGas: gwei('0.1'),
+        requiredPriorityFeePerGas: gwei('0.001'),
+        overpaidPerGas: gwei('0.099'),
+        overpayment: '0.0000099',
+        maxFeeMultiple: 40
+      });
+      expect(report.feeOverpayment?.overpaymentShare).toBeCloseTo(0.9428, 4);
+
+      const suggestion = report.suggestions.find(s => s.type === 'gas_price');
+      expect(suggestion?.confidence).toBe('high');
+      expect(suggestion?.potentialSavings).toBe('0.0000099');
+    });
+
+    test('should not flag a priority fee the block needed', () => {
+      const report = new GasOptimizer().analyzeGasUsage(
+        { ...typeTwo, gasPrice: gwei('0.006'), effectiveGasPrice: gwei('0.006') },
+        blockFees
+      );
+
+      expect(report.feeOverpayment?.overpaidPerGas).toBe('0');
+      expect(report.suggestions.map(s => s.type)).not.toContain('gas_price');
+    });
+
+    test('should give low confidence when the block had no other user transactions', () => {
+      const block = {
+        number: 7,
+        baseFeePerGas: ethers.parseUnits('0.005', 'gwei'),
+        prefetchedTransactions: [
+          { hash: '0x01', type: 126, gasPrice: 0n, maxFeePerGas: null, maxPriorityFeePerGas: null },
+          { hash: typeTwo.hash, type: 2, gasPrice: 0n, maxFeePerGas: ethers.parseUnits('0.2', 'gwei'), maxPriorityFeePerGas: ethers.parseUnits('0.1', 'gwei') }
+        ]
+      } as unknown as ethers.Block;
+      const optimizer = new GasOptimizer();
+
+      const report = optimizer.analyzeGasUsage(typeTwo, optimizer.getBlockFeeContext(block, typeTwo.hash)!);
+
+      expect(report.feeOverpayment?.requiredPriorityFeePerGas).toBeNull();
+      expect(report.suggestions.find(s => s.type === 'gas_price')?.confidence).toBe('low');
+    });
+
+    test('should find the lowest priority fee a block included', () => {
+      const baseFee = ethers.parseUnits('0.005', 'gwei');
+      const block = {
+        number: 7,
+        baseFeePerGas: baseFee,
+        prefetchedTransactions: [
+          { hash: '0x01', type: 126, gasPrice: 0n, maxFeePerGas: null, maxPriorityFeePerGas: null },
+          { hash: '0x02', type: 0, gasPrice: baseFee + ethers.parseUnits('3', 'gwei'), maxFeePerGas: null, maxPriorityFeePerGas: null },
+          // Capped by maxFeePerGas at 1 gwei over the base fee
+          { hash: '0x03', type: 2, gasPrice: 0n, maxFeePerGas: baseFee + ethers.parseUnits('1', 'gwei'), maxPriorityFeePerGas: ethers.parseUnits('2', 'gwei') },
+          { hash: typeTwo.hash, type: 2, gasPrice: 0n, maxFeePerGas: baseFee, maxPriorityFeePerGas: 0n }
+        ]
+      } as unknown as ethers.Block;
+
+      expect(new GasOptimizer().getBlockFeeContext(block, typeTwo.hash)).toEqual({
+        blockNumber: 7,
+        baseFeePerGas: gwei('0.005'),
+        minPriorityFeePerGas: gwei('1')
+      });
+    });
+  });
+
+  describe('fee history estimation', () => {
+    const gwei = (value: string) => ethers.parseUnits(value, 'gwei').toString();
+    const gweiHex = (value: string) => ethers.toQuantity(ethers.parseUnits(value, 'gwei'));
+
+    // Four blocks, rewards at the 1st, 10th, 50th and 90th percentiles
+    const feeHistory = {
+      oldestBlock: '0x64',
+      baseFeePerGas: ['0.01', '0.01', '0.01', '0.01', '0.02'].map(gweiHex),
+      gasUsedRatio: [0.5, 0.99, 0.3, 0.97],
+      reward: [
+        ['0', '0.001', '0.01', '0.1'],
+        ['0.005', '0.005', '0.02', '0.2'],
+        ['0', '0.002', '0.01', '0.05'],
+        ['0.02', '0.02', '0.03', '0.3']
+      ].map(block => block.map(gweiHex))
+    };
+
+    const mockProvider = () => {
+      const send = jest.fn(async (_method: string, _params: unknown[]) => feeHistory);
+      return { send, provider: { send } as unknown as ethers.JsonRpcApiProvider };
+    };
+
+    test('should derive tiers from the median reward at each percentile', async () => {
+      const { send, provider } = mockProvider();
+
+      const estimate = await FeeEstimator.estimate(provider, { blockCount: 4 });
+
+      expect(send).toHaveBeenCalledWith('eth_feeHistory', ['0x4', 'latest', [1, 10, 50, 90]]);
+      expect(estimate.blockNumber).toBe(103);
+      expect(estimate.baseFeePerGas).toBe(gwei('0.02'));
+      expect(estimate.standard.maxPriorityFeePerGas).toBe(gwei('0.01'));
+      expect(estimate.standard.maxFeePerGas).toBe(gwei('0.05'));
+      expect(estimate.standard.expectedGasPrice).toBe(gwei('0.03'));
+      expect(estimate.fast.maxPriorityFeePerGas).toBe(gwei('0.1'));
+      expect(estimate.l1DataFee).toBeUndefined();
+    });
+
+    test('should estimate inclusion time from the full blocks a tip would have missed', async () => {
+      const { provider } = mockProvider();
+
+      const estimate = await FeeEstimator.estimate(provider, { blockCount: 4 });
+
+      // The slow tip of 0.002 gwei misses both full blocks
+      expect(estimate.slow.inclusionRate).toBe(0.5);
+      expect(estimate.slow.estimatedInclusionSeconds).toBe(4);
+      // The standard tip of 0.01 gwei misses the one whose lowest reward was 0.02
+      expect(estimate.standard.inclusionRate).toBe(0.75);
+      expect(estimate.fast.inclusionRate).toBe(1);
+      expect(estimate.fast.estimatedInclusionSeconds).toBe(2);
+    });
+
+    test('should request each reward percentile once, in increasing order', async () => {
+      const { send, provider } = mockProvider();
+      send.mockResolvedValueOnce({
+        ...feeHistory,
+        reward: feeHistory.reward.map(([lowest, , standard]) => ['0x0', lowest, standard])
+      });
+
+      const estimate = await FeeEstimator.estimate(provider, { blockCount: 4, percentiles: { slow: 0, standard: 50, fast: 50 } });
+
+      expect(send).toHaveBeenCalledWith('eth_feeHistory', ['0x4', 'latest', [0, 1, 50]]);
+      expect(estimate.slow.maxPriorityFeePerGas).toBe(gwei('0'));
+      expect(estimate.fast.maxPriorityFeePerGas).toBe(estimate.standard.maxPriorityFeePerGas);
+    });
+
+    test('should reject percentiles out of order', async () => {
+      const { send, provider } = mockProvider();
+
+      await expect(FeeEstimator.estimate(provider, { percentiles: { slow: 50, standard: 10, fast: 90 } }))
+        .rejects.toThrow('slow <= standard <= fast');
+      expect(send).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('gas price history', () => {
+    const sample = (blockNumber: number, baseFee: string, tip: string, l1BaseFee: string | null = null): GasPriceSample => ({
+      blockNumber,
+      timestamp: 1700000000 + (blockNumber - 1) * 2,
+      baseFeePerGas: ethers.parseUnits(baseFee, 'gwei').toString(),
+      gasUsedRatio: 0.5,
+      priorityFees: { p10: '0', p50: ethers.parseUnits(tip, 'gwei').toString(), p90: '0' },
+      l1BaseFee: l1BaseFee && ethers.parseUnits(l1BaseFee, 'gwei').toString(),
+      l1BlobBaseFee: null
+    });
+
+    test('should bucket samples into min, median and p90 fees', () => {
+      // 1700000000 is 800 seconds into its hour, so blocks 1-1400 share a bucket
+      const samples = [
+        sample(1, '0.01', '0.001', '5'),
+        sample(2, '0.03', '0.002'),
+        sample(3, '0.02', '0.001'),
+        sample(1401, '0.05', '0.004', '7')
+      ];
+
+      const [first, second] = GasPriceHistory.aggregate(samples, 3600);
+
+      expect(first.timestamp).toBe(1699999200);
+      expect(first.blockCount).toBe(3);
+      expect(first.baseFee).toEqual({ min: 0.01, median: 0.02, p90: 0.03 });
+      expect(first.priorityFee.median).toBe(0.001);
+      expect(first.l1BaseFee).toEqual({ min: 5, median: 5, p90: 5 });
+      expect(first.l1BlobBaseFee).toBeNull();
+      expect(second.timestamp).toBe(1700002800);
+      expect(second.blockCount).toBe(1);
+    });
+
+    test('should only back-fill blocks missing from the store', async () => {
+      const store = new MemoryGasPriceStore();
+      await store.saveSamples([sample(98, '0.01', '0.001'), sample(99, '0.01', '0.001')]);
+
+      const gweiHex = (value: string) => ethers.toQuantity(ethers.parseUnits(value, 'gwei'));
+      const send = jest.fn(async (_method: string, _params: unknown[]) => ({
+        oldestBlock: '0x64',
+        baseFeePerGas: ['0.02', '0.04', '0.04'].map(gweiHex),
+        gasUsedRatio: [0.4, 0.6],
+        reward: [['0.001', '0.002', '0.003'], ['0.001', '0.004', '0.009']].map(block => block.map(gweiHex))
+      }));
+      const provider = {
+        send,
+        getBlock: async () => ({ timestamp: 1700000200 }),
+        getBlockNumber: async () => 101
+      } as unknown as ethers.JsonRpcApiProvider;
+
+      const report = await new GasPriceHistory(provider, store).getHistory(1, { fromBlock: 98, l1FeeInterval: 1000 });
+
+      expect(send).toHaveBeenCalledTimes(1);
+      expect(send).toHaveBeenCalledWith('eth_feeHistory', ['0x2', '0x65', [10, 50, 90]]);
+      expect(report.buckets[0].blockCount).toBe(4);
+
+      const filled = await store.getSamples(100, 101);
+      expect(filled.map(s => s.timestamp)).toEqual([1700000198, 1700000200]);
+      expect(filled[1].priorityFees.p90).toBe(ethers.parseUnits('0.009', 'gwei').toString());
+      expect(filled[1].l1BaseFee).toBeNull();
+    });
+  });
+
+  describe('pre-flight gas estimation', () => {
+    const router = '0x2626664c2603336E57B271c5C0b26F421741e481';
+    const calldata = '0x12345678' + '00'.repeat(64);
+    const gweiHex = (value: string) => ethers.toQuantity(ethers.parseUnits(value, 'gwei'));
+
+    const mockProvider = () => {
+      const call = jest.fn(async (_tx: ethers.TransactionRequest) =>
+        ethers.AbiCoder.defaultAbiCoder().encode(['uint256'], [ethers.parseUnits('900', 'gwei')]));
+      const provider = {
+        call,
+        estimateGas: async () => 100000n,
+        getTransactionCount: async () => 0,
+        send: async () => ({
+          oldestBlock: '0x1',
+          baseFeePerGas: [gweiHex('0.01'), gweiHex('0.01')],
+          gasUsedRatio: [0.5],
+          reward: [['0x0', '0x0', gweiHex('0.001'), '0x0']]
+        })
+      } as unknown as ethers.JsonRpcApiProvider;
+      return { call, provider };
+    };
+
+    test('should add the L1 fee of the serialized transaction to the execution cost', async () => {
+      const { call, provider } = mockProvider();
+      const priceSource = { getPriceUsd: async () => 2500 };
+
+      const estimate = await new GasOptimizer().estimateGasForTransaction(provider, router, calldata, { priceSource });
+
+      const [l1FeeData] = ethers.AbiCoder.defaultAbiCoder().decode(['bytes'], ethers.dataSlice(call.mock.calls[0][0].data!, 4));
+      expect(ethers.Transaction.from(l1FeeData).data).toBe(calldata);
+      expect(estimate.recommendedGasLimit).toBe('115000');
+      expect(estimate.safetyMargin.basis).toBe('default');
+      expect(estimate.l2ExecutionCost).toBe('0.0000011');
+      expect(estimate.l1DataCost).toBe('0.0000009');
+      expect(estimate.totalCost).toBe('0.000002');
+      expect(estimate.totalCostUsd).toBeCloseTo(0.005, 6);
+    });
+
+    test('should estimate a plain transfer from the node without calldata gas', async () => {
+      const { call, provider } = mockProvider();
+      const transfer = { ...provider, estimateGas: async () => 21000n } as unknown as ethers.JsonRpcApiProvider;
+
+      const estimate = await new GasOptimizer().estimateGasForTransaction(transfer, router, '0x', {
+        priceSource: { getPriceUsd: async () => 2500 }
+      });
+
+      const [l1FeeData] = ethers.AbiCoder.defaultAbiCoder().decode(['bytes'], ethers.dataSlice(call.mock.calls[0][0].data!, 4));
+      expect(ethers.Transaction.from(l1FeeData).data).toBe('0x');
+      expect(estimate.gasEstimate).toBe('21000');
+      expect(estimate.recommendedGasLimit).toBe('24150');
+    });
+
+    test('should widen the safety margin for methods with volatile gas usage', () => {
+      const optimizer = new GasOptimizer();
+      optimizer.recordExecutions([80000, 120000, 100000, 90000, 110000].map((gasUsed, i) => ({
+        hash: `0x${i}`,
+        from: '0x742d35Cc6634C0532925a3b8D4C9db96C4b4d8b6',
+        to: router,
+        value: '0',
+        gasPrice: '5000000',
+        gasUsed: gasUsed.toString(),
+        blockNumber: 1,
+        timestamp: 1640995200,
+        status: 1,
+        input: calldata
+      })));
+
+      const margin = optimizer.getSafetyMargin(router, calldata);
+
+      expect(margin.basis).toBe('history');
+      expect(margin.volatility).toBeCloseTo(0.1414, 4);
+      expect(margin.percent).toBe(29);
+    });
+  });
 });